@@ -1,6 +1,11 @@
 import {
   Component,
+  computed,
+  DestroyRef,
+  effect,
+  HostListener,
   inject,
+  Injector,
   OnInit,
   QueryList,
   signal,
@@ -8,29 +13,135 @@ import {
   ViewChildren,
 } from '@angular/core';
 import {
+  EFConnectableSide,
   EFResizeHandleType,
   FCanvasComponent,
   FFlowModule,
   FGroupDirective,
+  FMoveNodesEvent,
   FNodeDirective,
+  FCreateConnectionEvent,
+  FFlowComponent,
+  FSelectionChangeEvent,
+  F_CONNECTION_BUILDERS,
 } from '@foblex/flow';
-import { PointExtensions } from '@foblex/2d';
+import { IPoint, PointExtensions, RectExtensions } from '@foblex/2d';
 import { v4 as uuidv4 } from 'uuid';
-import { timer } from 'rxjs';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { faker } from '@faker-js/faker';
-import { IEdge, IGroup, INode } from './models/graph.interface';
-import { ElkLayoutService } from './services/elk-layout.service';
-import { LayoutControlsComponent, LayoutConfig } from './components/layout-controls/layout-controls.component';
+import {
+  EdgeKind,
+  IEdge,
+  IGroup,
+  IGroupLayoutOverrides,
+  ILayoutInput,
+  ILayoutOutput,
+  INode,
+  IPort,
+  PortSide,
+} from './models/graph.interface';
+import { GraphDiagnosticCode } from './models/graph-diagnostic.interface';
+import {
+  GraphAnalysisOverlay,
+  IGraphAnalysisReport,
+} from './models/graph-analysis.interface';
+import {
+  DEFAULT_GRAPH_FOCUS,
+  FocusMode,
+  IGraphFocus,
+} from './models/graph-focus.interface';
+import { ILayoutMetrics } from './models/layout-metrics.interface';
+import {
+  ElkLayoutService,
+  LayoutCancelledError,
+} from './services/elk-layout.service';
+import { DiagramExportService } from './services/diagram-export.service';
+import { GraphPersistenceService } from './services/graph-persistence.service';
+import { LayoutCacheService } from './services/layout-cache.service';
+import { GraphValidationService } from './services/graph-validation.service';
+import { GraphValidationError } from './engine/graph-validator';
+import { collapseGroups } from './engine/group-collapse';
+import { LayoutMetricsService } from './services/layout-metrics.service';
+import { GraphAnalysisService } from './services/graph-analysis.service';
+import {
+  DEFAULT_LAYOUT_ANIMATION,
+  ILayoutAnimationOptions,
+  LayoutAnimationService,
+} from './services/layout-animation.service';
+import {
+  GraphHistoryService,
+  IGraphSnapshot,
+} from './services/graph-history.service';
+import {
+  GraphDocumentError,
+  GraphDocumentService,
+} from './services/graph-document.service';
+import { DotParser } from './parsers/dot.parser';
+import { MermaidParser } from './parsers/mermaid.parser';
+import { GraphSourceError, IParsedGraph } from './parsers/graph-source';
+import {
+  ELK_ROUTE_CONNECTION_TYPE,
+  ElkRouteConnectionBuilder,
+} from './builders/elk-route-connection.builder';
+import { LayoutControlsComponent } from './components/layout-controls/layout-controls.component';
+import {
+  DEFAULT_LAYOUT_CONFIG,
+  LayoutConfig,
+} from './models/layout-config.interface';
+import { LayoutMetricsComponent } from './components/layout-metrics/layout-metrics.component';
+import { LayoutComparisonComponent } from './components/layout-comparison/layout-comparison.component';
+import { GroupLayoutComponent } from './components/group-layout/group-layout.component';
+import { GraphDiagnosticsComponent } from './components/graph-diagnostics/graph-diagnostics.component';
+import { GraphSearchComponent } from './components/graph-search/graph-search.component';
+import { GraphAnalysisComponent } from './components/graph-analysis/graph-analysis.component';
+import { getElkLayoutOptions } from './utils/layout-options';
+import { getNeighbourhood } from './utils/graph-neighbourhood';
+import { getOverlayColors } from './utils/analysis-overlay';
+import { getNodeSizeForLabel } from './utils/text-measure';
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss',
-  imports: [FFlowModule, LayoutControlsComponent],
+  imports: [
+    FFlowModule,
+    LayoutControlsComponent,
+    LayoutMetricsComponent,
+    LayoutComparisonComponent,
+    GroupLayoutComponent,
+    GraphDiagnosticsComponent,
+    GraphSearchComponent,
+    GraphAnalysisComponent,
+  ],
+  providers: [
+    {
+      provide: F_CONNECTION_BUILDERS,
+      useFactory: () => ({
+        [ELK_ROUTE_CONNECTION_TYPE]: inject(ElkRouteConnectionBuilder),
+      }),
+    },
+  ],
 })
 export class AppComponent implements OnInit {
   // Dependency injection
   private readonly elkLayoutService = inject(ElkLayoutService);
+  private readonly elkRouteBuilder = inject(ElkRouteConnectionBuilder);
+  private readonly layoutAnimation = inject(LayoutAnimationService);
+  private readonly layoutMetricsService = inject(LayoutMetricsService);
+  private readonly graphPersistence = inject(GraphPersistenceService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly injector = inject(Injector);
+  private readonly graphDocumentService = inject(GraphDocumentService);
+  private readonly diagramExportService = inject(DiagramExportService);
+  protected readonly history = inject(GraphHistoryService);
+  protected readonly layoutCache = inject(LayoutCacheService);
+  private readonly graphValidation = inject(GraphValidationService);
+  private readonly graphAnalysisService = inject(GraphAnalysisService);
+  private readonly dotParser = inject(DotParser);
+  private readonly mermaidParser = inject(MermaidParser);
+
+  @ViewChild(FFlowComponent, { static: true })
+  public fFlow!: FFlowComponent;
 
   @ViewChild(FCanvasComponent, { static: true })
   public fCanvas!: FCanvasComponent;
@@ -42,6 +153,13 @@ export class AppComponent implements OnInit {
   public fNodes!: QueryList<FNodeDirective>;
 
   protected readonly eResizeHandleType = EFResizeHandleType;
+  protected readonly elkRouteConnectionType = ELK_ROUTE_CONNECTION_TYPE;
+  protected readonly portConnectableSide: Record<PortSide, EFConnectableSide> = {
+    NORTH: EFConnectableSide.TOP,
+    EAST: EFConnectableSide.RIGHT,
+    SOUTH: EFConnectableSide.BOTTOM,
+    WEST: EFConnectableSide.LEFT,
+  };
 
   // Signals for ELK layout results
   public elkGroups = signal<IGroup[]>([]);
@@ -55,36 +173,93 @@ export class AppComponent implements OnInit {
 
   // Configuration
   private groupCount = 20; // Number of groups to create
+  private nestedGroupCount = 6; // Number of sub-groups placed inside other groups
 
   // Layout configuration
-  public layoutConfig = signal<LayoutConfig>({
-    enableGroups: true,
-    algorithm: 'layered',
-    direction: 'DOWN',
-    edgeRouting: 'ORTHOGONAL',
-    nodePlacement: 'NETWORK_SIMPLEX',
-    nodeSpacing: 80,
-    layerSpacing: 80,
-    groupPadding: 60,
+  public layoutConfig = signal<LayoutConfig>(DEFAULT_LAYOUT_CONFIG);
+
+  // Transition between consecutive layouts
+  public layoutAnimationOptions = signal<ILayoutAnimationOptions>(
+    DEFAULT_LAYOUT_ANIMATION
+  );
+
+  // Quality of the last layout run
+  public layoutMetrics = signal<ILayoutMetrics | null>(null);
+
+  // Failure of the last layout run, other than a graph found invalid up front
+  public layoutError = signal<string | null>(null);
+
+  // Side-by-side comparison of two configurations is shown
+  public comparing = signal(false);
+
+  // Problems found in the last imported file
+  public importErrors = signal<string[]>([]);
+
+  // Analysis result highlighted on the canvas
+  public analysisOverlay = signal<GraphAnalysisOverlay>('none');
+
+  // Neighbourhood of a node the view is focused on, not recorded since the graph stays the same
+  public focus = signal<IGraphFocus | null>(null);
+
+  // Editing state
+  public selection = signal(new FSelectionChangeEvent([], [], []));
+  public autoLayout = signal(false); // re-layout after every edit
+  public selectedCount = computed(() => {
+    const { fNodeIds, fGroupIds, fConnectionIds } = this.selection();
+    return fNodeIds.length + fGroupIds.length + fConnectionIds.length;
+  });
+  // The group whose layout overrides are edited, when it's selected alone
+  public selectedGroup = computed(() => {
+    const { fNodeIds, fGroupIds } = this.selection();
+
+    return fGroupIds.length === 1 && !fNodeIds.length
+      ? this.foblexGroups().find(group => group.id === fGroupIds[0])
+      : undefined;
+  });
+  // The node to focus on, when it's selected alone
+  public selectedNodeId = computed(() => {
+    const { fNodeIds, fGroupIds } = this.selection();
+
+    return fNodeIds.length === 1 && !fGroupIds.length
+      ? fNodeIds[0]
+      : undefined;
   });
 
   public ngOnInit(): void {
-    // Always create some default root nodes at the beginning
-    this.createRootNodes(10); // Create 10 default root-level nodes
+    // Fit the canvas once a new layout has settled on screen
+    this.layoutAnimation.completed
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => {
+        this.fCanvas.fitToScreen(PointExtensions.initialize(100, 100), false);
+        this.updateStrokeCompensation();
+      });
 
-    if (this.layoutConfig().enableGroups) {
-      this.createGroups(this.groupCount);
-    } else {
-      // Create additional root-level nodes when groups are disabled
-      this.createRootNodes(40); // Create 40 more root-level nodes
+    // Continue with the graph of the last visit, or start with a generated one
+    const saved = this.graphPersistence.loadGraph();
+    if (saved) {
+      this.layoutConfig.set(saved.config);
+      this.foblexGroups.set(saved.groups);
+      this.foblexNodes.set(saved.nodes);
+      this.foblexEdges.set(saved.edges);
     }
 
-    this.foblexEdges.set(
-      this.createRandomWiredEdges(
-        this.foblexNodes(),
-        this.foblexNodes().length / 3
-      )
+    // Settings from a shared link win over saved ones
+    this.layoutConfig.update(config =>
+      this.graphPersistence.readConfigFromUrl(config)
+    );
+
+    if (!saved) {
+      this.generateGraph();
+    }
+
+    // Registered after restoring, so the saved graph isn't overwritten first
+    effect(
+      () => this.graphPersistence.writeConfigToUrl(this.layoutConfig()),
+      { injector: this.injector }
     );
+    effect(() => this.graphPersistence.saveGraph(this.takeSnapshot()), {
+      injector: this.injector,
+    });
   }
 
   // #region Foblex Events
@@ -93,6 +268,90 @@ export class AppComponent implements OnInit {
     this.elkLayout();
   }
 
+  /**
+   * Pins nodes and groups the user dragged, so re-layouts keep them in place
+   * A node dropped into or out of a group is moved to the group it was dropped on
+   */
+  public onMoveNodes(event: FMoveNodesEvent): void {
+    // Positions are read from the final layout, not from a transition frame
+    this.layoutAnimation.finish();
+
+    const moved = new Map(
+      event.fNodes.map(({ id, position }) => [id, position])
+    );
+    const pin = <T extends IGroup | INode>(element: T): T => {
+      const position = moved.get(element.id);
+
+      return position ? { ...element, position, pinned: true } : element;
+    };
+
+    // Drop targets are found among the groups at their new positions
+    this.elkGroups.update(groups => groups.map(pin));
+    const parents = this.findDropParents(moved);
+    const move = (node: INode): INode =>
+      parents.has(node.id)
+        ? { ...pin(node), parentId: parents.get(node.id)! }
+        : pin(node);
+
+    this.recordChange(parents.size ? 'Move into group' : 'Move', () => {
+      this.foblexGroups.update(groups => groups.map(pin));
+      this.foblexNodes.update(nodes => nodes.map(move));
+    });
+    this.elkNodes.update(nodes => nodes.map(move));
+
+    // Routes and labels attached to moved nodes no longer fit
+    this.elkRouteBuilder.dropRoutes(moved.keys());
+    this.elkEdges.update(edges =>
+      edges.map(edge =>
+        edge.route && (moved.has(edge.source) || moved.has(edge.target))
+          ? { ...edge, route: undefined, labelLayout: undefined }
+          : edge
+      )
+    );
+
+    if (parents.size && this.autoLayout()) {
+      this.elkLayout();
+    }
+  }
+
+  public onSelectionChange(event: FSelectionChangeEvent): void {
+    this.selection.set(event);
+  }
+
+  /**
+   * Adds an edge for a connection dragged from an output to an input
+   */
+  public onCreateConnection(event: FCreateConnectionEvent): void {
+    // Dropped on empty canvas
+    if (!event.fInputId) {
+      return;
+    }
+
+    const source = this.findHandleOwner(event.fOutputId, 'outputs');
+    const target = this.findHandleOwner(event.fInputId, 'inputs');
+    const exists = this.foblexEdges().some(
+      edge =>
+        edge.sourceHandle === event.fOutputId &&
+        edge.targetHandle === event.fInputId
+    );
+
+    if (!source || !target || exists) {
+      return;
+    }
+
+    const edge: IEdge = {
+      id: uuidv4(),
+      source: source.id,
+      target: target.id,
+      sourceHandle: event.fOutputId,
+      targetHandle: event.fInputId,
+    };
+
+    this.applyEdit('Connect', () =>
+      this.foblexEdges.update(edges => [...edges, edge])
+    );
+  }
+
   public onCanvasChange(event: any): void {
     // Apply stroke width compensation
     this.updateStrokeCompensation();
@@ -109,67 +368,596 @@ export class AppComponent implements OnInit {
 
   // #endregion
 
+  // #region Editing
+
+  /**
+   * Adds a node, inside the selected group when exactly one group is selected
+   */
+  public onAddNode(): void {
+    const parent = this.getSelectedGroup();
+    const node: INode = {
+      id: uuidv4(),
+      size: { width: 160, height: 100 },
+      position: this.getFreePosition(parent),
+      parentId: parent?.id ?? null,
+    };
+
+    this.applyEdit('Add node', () =>
+      this.foblexNodes.update(nodes => [...nodes, node])
+    );
+  }
+
+  /**
+   * Adds an empty group, inside the selected group when exactly one group is selected
+   */
+  public onAddGroup(): void {
+    const parent = this.getSelectedGroup();
+    const group: IGroup = {
+      id: uuidv4(),
+      size: { width: 200, height: 200 },
+      position: this.getFreePosition(parent),
+      parentId: parent?.id ?? null,
+    };
+
+    this.applyEdit('Add group', () =>
+      this.foblexGroups.update(groups => [...groups, group])
+    );
+  }
+
+  /**
+   * Deletes the selected nodes, groups and edges
+   * Edges of deleted nodes go with them, children of deleted groups move up a level
+   */
+  public onDeleteSelection(): void {
+    const { fNodeIds, fGroupIds, fConnectionIds } = this.selection();
+    const groupIds = new Set(this.foblexGroups().map(group => group.id));
+    const deletedNodes = new Set(fNodeIds.filter(id => !groupIds.has(id)));
+    // Collapsed groups are shown as nodes
+    const deletedGroups = new Set([
+      ...fGroupIds,
+      ...fNodeIds.filter(id => groupIds.has(id)),
+    ]);
+    // Aggregated edges stand for the edges into or out of collapsed groups
+    const deletedEdges = new Set(
+      fConnectionIds.flatMap(
+        id =>
+          this.elkEdges().find(edge => edge.id === id)?.aggregatedEdgeIds ?? [
+            id,
+          ]
+      )
+    );
+
+    if (!deletedNodes.size && !deletedGroups.size && !deletedEdges.size) {
+      return;
+    }
+
+    const groupsById = new Map(this.foblexGroups().map(g => [g.id, g]));
+    const survivingParent = (parentId?: string | null): string | null => {
+      while (parentId && deletedGroups.has(parentId)) {
+        parentId = groupsById.get(parentId)?.parentId;
+      }
+      return parentId ?? null;
+    };
+    const reparent = <T extends IGroup | INode>(element: T): T =>
+      element.parentId && deletedGroups.has(element.parentId)
+        ? { ...element, parentId: survivingParent(element.parentId) }
+        : element;
+
+    this.applyEdit('Delete', () => {
+      this.foblexGroups.update(groups =>
+        groups.filter(group => !deletedGroups.has(group.id)).map(reparent)
+      );
+      this.foblexNodes.update(nodes =>
+        nodes.filter(node => !deletedNodes.has(node.id)).map(reparent)
+      );
+      this.foblexEdges.update(edges =>
+        edges.filter(
+          edge =>
+            !deletedEdges.has(edge.id) &&
+            !deletedNodes.has(edge.source) &&
+            !deletedNodes.has(edge.target)
+        )
+      );
+    });
+
+    this.fFlow.clearSelection();
+    this.selection.set(new FSelectionChangeEvent([], [], []));
+  }
+
+  /**
+   * Changes the layout overrides of the selected group and lays the graph out again
+   */
+  public onGroupLayoutChange(overrides?: IGroupLayoutOverrides): void {
+    const id = this.selectedGroup()?.id;
+
+    this.recordChange('Group layout', () =>
+      this.foblexGroups.update(groups =>
+        groups.map(group => {
+          if (group.id !== id) {
+            return group;
+          }
+
+          const { layoutOverrides, ...rest } = group;
+          return overrides ? { ...rest, layoutOverrides: overrides } : rest;
+        })
+      )
+    );
+    this.elkLayout();
+  }
+
+  /**
+   * Collapses a group into a single node, or expands it again
+   */
+  public onToggleGroup(groupId: string): void {
+    const group = this.foblexGroups().find(({ id }) => id === groupId);
+
+    if (group) {
+      this.setCollapsed(
+        group.collapsed ? 'Expand group' : 'Collapse group',
+        !group.collapsed,
+        ({ id }) => id === groupId
+      );
+    }
+  }
+
+  /**
+   * Collapses every group, expanding one then shows its sub-groups collapsed
+   */
+  public onCollapseAll(): void {
+    this.setCollapsed('Collapse all', true, () => true);
+  }
+
+  public onExpandAll(): void {
+    this.setCollapsed('Expand all', false, () => true);
+  }
+
+  public onAutoLayoutChange(autoLayout: boolean): void {
+    this.autoLayout.set(autoLayout);
+  }
+
+  /**
+   * Collapses or expands the matching groups and lays the graph out again
+   * The layout is incremental, so the rest of the diagram stays where it is
+   * @private
+   */
+  private setCollapsed(
+    label: string,
+    collapsed: boolean,
+    matches: (group: IGroup) => boolean
+  ): void {
+    const changes = (group: IGroup) =>
+      matches(group) && !!group.collapsed !== collapsed;
+
+    if (!this.foblexGroups().some(changes)) {
+      return;
+    }
+
+    this.recordChange(label, () =>
+      this.foblexGroups.update(groups =>
+        groups.map(group => {
+          if (!changes(group)) {
+            return group;
+          }
+
+          const { collapsed: _, ...rest } = group;
+          return collapsed ? { ...rest, collapsed } : rest;
+        })
+      )
+    );
+    this.elkLayout(true);
+  }
+
+  /**
+   * Applies and records an edit, then re-lays out or shows it in place
+   * @private
+   */
+  private applyEdit(label: string, change: () => void): void {
+    this.recordChange(label, change);
+
+    if (this.autoLayout()) {
+      this.elkLayout();
+    } else {
+      this.showGraphWithoutLayout();
+    }
+  }
+
+  /**
+   * Shows the edited graph keeping the last laid-out geometry
+   * Elements the layout hasn't seen yet use their own position and size
+   * @private
+   */
+  private showGraphWithoutLayout(): void {
+    this.layoutAnimation.finish();
+
+    const laidOutGroups = new Map(this.elkGroups().map(g => [g.id, g]));
+    const laidOutNodes = new Map(this.elkNodes().map(n => [n.id, n]));
+    const laidOutEdges = new Map(this.elkEdges().map(e => [e.id, e]));
+    const { groups, nodes, edges } = collapseGroups(this.visibleInput());
+
+    this.elkGroups.set(
+      groups.map(group => {
+        const laidOut = laidOutGroups.get(group.id);
+        return laidOut
+          ? {
+              ...group,
+              position: laidOut.position,
+              size: laidOut.size,
+              labelLayout: laidOut.labelLayout,
+            }
+          : group;
+      })
+    );
+    this.elkNodes.set(
+      nodes.map(node => {
+        const laidOut = laidOutNodes.get(node.id);
+        return laidOut
+          ? {
+              ...node,
+              position: laidOut.position,
+              labelLayout: laidOut.labelLayout,
+              inputs: laidOut.inputs,
+              outputs: laidOut.outputs,
+            }
+          : node;
+      })
+    );
+    this.elkEdges.set(edges.map(edge => laidOutEdges.get(edge.id) ?? edge));
+  }
+
+  /**
+   * Finds the node owning an input or output handle
+   * Nodes without ports use their own id as their only handle
+   * @private
+   */
+  private findHandleOwner(
+    handleId: string,
+    ports: 'inputs' | 'outputs'
+  ): INode | undefined {
+    return this.foblexNodes().find(node =>
+      node[ports]?.length
+        ? node[ports]!.some(port => port.id === handleId)
+        : node.id === handleId
+    );
+  }
+
+  /**
+   * Finds the innermost group under each moved node's center
+   * @returns New parent ids of the nodes whose group changed
+   * @private
+   */
+  private findDropParents(moved: Map<string, IPoint>): Map<string, string | null> {
+    const parents = new Map<string, string | null>();
+
+    // Groups aren't laid out while disabled, membership is left alone
+    if (!this.layoutConfig().enableGroups) {
+      return parents;
+    }
+
+    const groups = this.elkGroups().map(group =>
+      RectExtensions.initialize(
+        group.position?.x ?? 0,
+        group.position?.y ?? 0,
+        group.size.width,
+        group.size.height
+      )
+    );
+
+    this.elkNodes().forEach(node => {
+      const position = moved.get(node.id);
+      if (!position) {
+        return;
+      }
+
+      const center = PointExtensions.initialize(
+        position.x + node.size.width / 2,
+        position.y + node.size.height / 2
+      );
+      let parentId: string | null = null;
+      let parentArea = Infinity;
+
+      groups.forEach((rect, index) => {
+        const area = rect.width * rect.height;
+        if (RectExtensions.isIncludePoint(rect, center) && area < parentArea) {
+          parentId = this.elkGroups()[index].id;
+          parentArea = area;
+        }
+      });
+
+      if (parentId !== node.parentId) {
+        parents.set(node.id, parentId);
+      }
+    });
+
+    return parents;
+  }
+
+  /**
+   * The group to add new elements to, when exactly one group is selected
+   * @private
+   */
+  private getSelectedGroup(): IGroup | undefined {
+    const { fNodeIds, fGroupIds } = this.selection();
+
+    return fGroupIds.length === 1 && !fNodeIds.length
+      ? this.elkGroups().find(group => group.id === fGroupIds[0])
+      : undefined;
+  }
+
+  /**
+   * Position for a new element: inside the parent group, or right of the diagram
+   * @private
+   */
+  private getFreePosition(parent?: IGroup): IPoint {
+    if (parent?.position) {
+      return PointExtensions.sum(
+        parent.position,
+        PointExtensions.initialize(20, 20)
+      );
+    }
+
+    const right = Math.max(
+      0,
+      ...[...this.elkGroups(), ...this.elkNodes()].map(
+        element => (element.position?.x ?? 0) + element.size.width
+      )
+    );
+
+    return PointExtensions.initialize(right + 80, 0);
+  }
+
+  // #endregion
+
   // #region Layout Methods
 
+  /**
+   * Number of nodes and groups pinned by dragging
+   */
+  public pinnedCount = computed(
+    () =>
+      [...this.foblexGroups(), ...this.foblexNodes()].filter(x => x.pinned)
+        .length
+  );
+
+  /**
+   * Number of groups shown as a single node
+   */
+  public collapsedCount = computed(
+    () => this.foblexGroups().filter(group => group.collapsed).length
+  );
+
+  /**
+   * Graph as laid out by ELK, with the current groups setting
+   */
+  public layoutInput = computed<ILayoutInput>(() => ({
+    groups: this.foblexGroups(),
+    nodes: this.foblexNodes(),
+    edges: this.foblexEdges(),
+    enableGroups: this.layoutConfig().enableGroups,
+  }));
+
+  /**
+   * Ids of the groups, nodes and edges in focus, null when nothing is focused
+   * The neighbourhood is found in the graph as shown, so collapsed groups count
+   * as nodes. Groups enclosing a node in focus are in focus too. Null as well
+   * when the focused node isn't shown, e.g. once its group is collapsed.
+   */
+  public focusedIds = computed<Set<string> | null>(() => {
+    const focus = this.focus();
+
+    if (!focus) {
+      return null;
+    }
+
+    const { groups, nodes, edges } = collapseGroups(this.layoutInput());
+    const node = nodes.find(({ id }) => id === focus.nodeId);
+
+    if (!node) {
+      return null;
+    }
+
+    const ids = getNeighbourhood(
+      edges,
+      node.id,
+      focus.hops,
+      focus.direction
+    );
+    const groupsById = new Map(groups.map(group => [group.id, group]));
+    const parentIds: (string | null | undefined)[] = nodes
+      .filter(({ id }) => ids.has(id))
+      .map(({ parentId }) => parentId);
+
+    // Walks up from the parents of the nodes in focus
+    for (let i = 0; i < parentIds.length; i++) {
+      const group = groupsById.get(parentIds[i] ?? '');
+
+      if (group && !ids.has(group.id)) {
+        ids.add(group.id);
+        parentIds.push(group.parentId);
+      }
+    }
+
+    edges
+      .filter(({ source, target }) => ids.has(source) && ids.has(target))
+      .forEach(({ id }) => ids.add(id));
+
+    return ids;
+  });
+
+  /**
+   * Graph laid out and shown: the whole graph, or only the focused
+   * neighbourhood when it's laid out on its own
+   */
+  public visibleInput = computed<ILayoutInput>(() => {
+    const input = this.layoutInput();
+    const ids = this.focusedIds();
+
+    if (!ids || !this.focus()?.relayout) {
+      return input;
+    }
+
+    // Collapsing again leaves the result as it is, so it can be laid out as is
+    const { groups, nodes, edges, enableGroups } = collapseGroups(input);
+
+    return {
+      groups: groups.filter(({ id }) => ids.has(id)),
+      nodes: nodes.filter(({ id }) => ids.has(id)),
+      edges: edges.filter(({ id }) => ids.has(id)),
+      enableGroups,
+    };
+  });
+
+  /**
+   * Problems of the current graph, errors keep it from being laid out
+   */
+  public layoutDiagnostics = computed(() =>
+    this.graphValidation.validate(this.layoutInput())
+  );
+
   /**
    * Performs graph layout using ELK.js service
    * Delegates complex layout logic to the ElkLayoutService
+   * @param incremental - Start from the layout on screen and change it as little as possible
    */
-  public async elkLayout(): Promise<void> {
+  public async elkLayout(incremental = false): Promise<void> {
     try {
       const config = this.layoutConfig();
+      const options = getElkLayoutOptions(config);
+      const startedAt = performance.now();
       const layoutResult = await this.elkLayoutService.calculateLayout(
-        {
-          groups: this.foblexGroups(),
-          nodes: this.foblexNodes(),
-          edges: this.foblexEdges(),
-          enableGroups: config.enableGroups,
-        },
-        {
-          algorithm: config.algorithm,
-          direction: config.direction,
-          edgeRouting: config.edgeRouting,
-          nodePlacement: config.nodePlacement,
-          spacing: {
-            nodeNode: config.nodeSpacing,
-            nodeNodeBetweenLayers: config.layerSpacing,
-            componentComponent: 100,
-            edgeNode: 40,
-            edgeEdge: 20,
-          },
-          groupPadding: {
-            top: config.groupPadding,
-            right: config.groupPadding,
-            bottom: config.groupPadding,
-            left: config.groupPadding,
-          },
-        }
+        incremental
+          ? this.withLaidOutPositions(this.visibleInput())
+          : this.visibleInput(),
+        incremental ? { ...options, incremental } : options
       );
 
-      // Update signals with calculated positions
-      this.elkGroups.set(layoutResult.groups);
-      this.elkNodes.set(layoutResult.nodes);
-      this.elkEdges.set(layoutResult.edges);
+      this.layoutMetrics.set(
+        this.layoutMetricsService.measure(
+          layoutResult,
+          performance.now() - startedAt
+        )
+      );
 
-      // Fit canvas to screen after layout
-      timer(250).subscribe(() => {
-        this.fCanvas.fitToScreen(PointExtensions.initialize(100, 100), false);
+      this.layoutError.set(null);
 
-        // Apply initial stroke compensation after layout
-        timer(500).subscribe(() => {
-          this.updateStrokeCompensation();
-        });
-      });
+      // Routes must be known before connections are drawn
+      this.elkRouteBuilder.setLayout(layoutResult);
+
+      // Move from the layout on screen to the calculated positions
+      this.layoutAnimation.animate(
+        this.getLayoutOutput(),
+        layoutResult,
+        this.layoutAnimationOptions(),
+        frame => {
+          this.elkGroups.set(frame.groups);
+          this.elkNodes.set(frame.nodes);
+          this.elkEdges.set(frame.edges);
+        }
+      );
     } catch (error) {
+      // A newer layout run superseded this one, its result is applied instead
+      if (error instanceof LayoutCancelledError) {
+        return;
+      }
+
+      // The diagnostics panel lists the problems with their repairs
+      if (error instanceof GraphValidationError) {
+        this.layoutError.set(null);
+        return;
+      }
+
       console.error('Layout calculation failed:', error);
+      this.layoutError.set(
+        `Layout calculation failed: ${(error as Error).message}`
+      );
     }
   }
 
+  /**
+   * The graph with the positions on screen, where an incremental layout starts
+   * A collapsed group and the node standing for it share their id, so either
+   * starts where the other was. Elements not on screen start from scratch.
+   * @private
+   */
+  private withLaidOutPositions(input: ILayoutInput): ILayoutInput {
+    // Positions are read from the final layout, not from a transition frame
+    this.layoutAnimation.finish();
+
+    const positions = new Map(
+      [...this.elkGroups(), ...this.elkNodes()].map(element => [
+        element.id,
+        element.position,
+      ])
+    );
+    const place = <T extends IGroup | INode>(element: T): T =>
+      element.pinned
+        ? element
+        : { ...element, position: positions.get(element.id) };
+
+    return {
+      ...input,
+      groups: input.groups.map(place),
+      nodes: input.nodes.map(place),
+    };
+  }
+
+  /**
+   * Repairs the graph problems of the given kinds and lays the result out
+   */
+  public onRepairGraph(codes: GraphDiagnosticCode[]): void {
+    this.recordChange('Repair graph', () => {
+      const { groups, nodes, edges } = this.graphValidation.repair(
+        this.layoutInput(),
+        codes
+      );
+
+      this.foblexGroups.set(groups);
+      this.foblexNodes.set(nodes);
+      this.foblexEdges.set(edges);
+    });
+    this.elkLayout();
+  }
+
   /**
    * Handles configuration changes from layout controls
    */
   public onConfigChange(changes: Partial<LayoutConfig>): void {
-    this.layoutConfig.update(config => ({ ...config, ...changes }));
+    this.recordChange('Layout settings', () =>
+      this.layoutConfig.update(config => ({ ...config, ...changes }))
+    );
+    this.elkLayout();
+  }
+
+  /**
+   * Lays out the values of a slider while it is dragged
+   * All of them are merged into the undo step recorded when the drag ends.
+   */
+  public onConfigPreview(changes: Partial<LayoutConfig>): void {
+    this.recordChange(
+      'Layout settings',
+      () => this.layoutConfig.update(config => ({ ...config, ...changes })),
+      true
+    );
+    this.elkLayout();
+  }
+
+  /**
+   * Changes how layouts transition, not recorded since the graph stays the same
+   */
+  public onAnimationChange(changes: Partial<ILayoutAnimationOptions>): void {
+    this.layoutAnimationOptions.update(options => ({ ...options, ...changes }));
+  }
+
+  /**
+   * Releases all pinned nodes and groups and lays the graph out again
+   */
+  public onUnpinAll(): void {
+    const unpin = <T extends IGroup | INode>(element: T): T =>
+      element.pinned ? { ...element, pinned: false } : element;
+
+    this.recordChange('Unpin all', () => {
+      this.foblexGroups.update(groups => groups.map(unpin));
+      this.foblexNodes.update(nodes => nodes.map(unpin));
+    });
     this.elkLayout();
   }
 
@@ -177,10 +965,497 @@ export class AppComponent implements OnInit {
    * Handles regenerate graph request (when groups toggle changes)
    */
   public onRegenerateGraph(enableGroups: boolean): void {
-    // Update config
-    this.layoutConfig.update(config => ({ ...config, enableGroups }));
+    this.recordChange('Regenerate graph', () => {
+      // Update config
+      this.layoutConfig.update(config => ({ ...config, enableGroups }));
+
+      // Re-create the graph structure
+      this.generateGraph();
+    });
+
+    this.elkLayout();
+  }
+
+  /**
+   * Restores the default settings and starts over with a generated graph
+   * The graph saved so far is replaced, the reset itself can be undone
+   */
+  public onResetDefaults(): void {
+    this.recordChange('Reset to defaults', () => {
+      this.layoutConfig.set(DEFAULT_LAYOUT_CONFIG);
+      this.generateGraph();
+    });
+    this.layoutAnimationOptions.set(DEFAULT_LAYOUT_ANIMATION);
+    this.importErrors.set([]);
+
+    this.elkLayout();
+  }
+
+  /**
+   * Keeps cached layouts in IndexedDB, or in memory only
+   */
+  public onCachePersistentChange(persistent: boolean): void {
+    this.layoutCache.setPersistent(persistent);
+  }
+
+  /**
+   * Forgets all cached layouts, the next layouts are calculated from scratch
+   */
+  public onClearCache(): void {
+    this.layoutCache.clear();
+  }
+
+  /**
+   * Opens the side-by-side comparison, starting from the current settings
+   */
+  public onCompare(): void {
+    this.comparing.set(true);
+  }
+
+  public onCompareClose(): void {
+    this.comparing.set(false);
+  }
+
+  /**
+   * Replaces the diagram with an uploaded file
+   * JSON graph documents also restore the layout configuration, DOT and Mermaid
+   * sources are laid out with the current one
+   */
+  public async onImportGraph(file: File): Promise<void> {
+    try {
+      const text = await file.text();
+
+      // Parsing throws before anything changes, so failed imports aren't recorded
+      this.recordChange(`Import ${file.name}`, () => {
+        switch (file.name.split('.').pop()?.toLowerCase()) {
+          case 'dot':
+          case 'gv':
+            this.loadParsedGraph(this.dotParser.parse(text));
+            break;
+          case 'mmd':
+          case 'mermaid':
+            this.loadParsedGraph(this.mermaidParser.parse(text));
+            break;
+          default: {
+            const document = this.graphDocumentService.parse(text);
+
+            this.layoutConfig.set(document.config);
+            this.foblexGroups.set(document.groups);
+            this.foblexNodes.set(document.nodes);
+            this.foblexEdges.set(document.edges);
+          }
+        }
+      });
+
+      this.importErrors.set([]);
+      this.elkLayout();
+    } catch (error) {
+      if (error instanceof GraphDocumentError) {
+        this.importErrors.set(error.errors);
+      } else if (error instanceof GraphSourceError) {
+        this.importErrors.set([error.message]);
+      } else {
+        this.importErrors.set([
+          `Couldn't read ${file.name}: ${(error as Error).message}`,
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Shows a graph parsed from a DOT or Mermaid source
+   * @private
+   */
+  private loadParsedGraph(graph: IParsedGraph): void {
+    this.layoutConfig.update(config => ({
+      ...config,
+      enableGroups: graph.enableGroups,
+      direction: graph.direction ?? config.direction,
+    }));
+    this.foblexGroups.set(graph.groups);
+    this.foblexNodes.set(graph.nodes);
+    this.foblexEdges.set(graph.edges);
+  }
+
+  /**
+   * Downloads the current diagram, with laid-out positions, as a graph document
+   */
+  public onExportGraph(): void {
+    const document = this.graphDocumentService.create(
+      this.getLaidOutGraph(),
+      this.layoutConfig()
+    );
+    const blob = new Blob([this.graphDocumentService.stringify(document)], {
+      type: 'application/json',
+    });
+
+    this.download(blob, 'graph.json');
+  }
+
+  /**
+   * Downloads the laid-out diagram as a standalone SVG
+   */
+  public onExportSvg(): void {
+    const svg = this.diagramExportService.toSvg(this.getLayoutOutput());
+
+    this.download(new Blob([svg], { type: 'image/svg+xml' }), 'graph.svg');
+  }
+
+  /**
+   * Downloads the laid-out diagram as a PNG image
+   * @param scale - Output pixels per diagram pixel
+   */
+  public async onExportPng(scale: number): Promise<void> {
+    try {
+      const png = await this.diagramExportService.toPng(
+        this.getLayoutOutput(),
+        scale
+      );
+
+      this.download(png, 'graph.png');
+    } catch (error) {
+      console.error('PNG export failed:', error);
+    }
+  }
+
+  /**
+   * Current layout result as shown on the canvas
+   * @private
+   */
+  private getLayoutOutput(): ILayoutOutput {
+    return {
+      groups: this.elkGroups(),
+      nodes: this.elkNodes(),
+      edges: this.elkEdges(),
+    };
+  }
+
+  /**
+   * The whole graph with the laid-out geometry
+   * Collapsed groups keep the position of the node standing for them, their
+   * hidden content keeps the geometry it had
+   * @private
+   */
+  private getLaidOutGraph(): ILayoutOutput {
+    const laidOutGroups = new Map(this.elkGroups().map(g => [g.id, g]));
+    const laidOutNodes = new Map(this.elkNodes().map(n => [n.id, n]));
 
-    // Re-create the graph structure
+    return {
+      groups: this.foblexGroups().map(
+        group =>
+          laidOutGroups.get(group.id) ?? {
+            ...group,
+            position: laidOutNodes.get(group.id)?.position ?? group.position,
+          }
+      ),
+      nodes: this.foblexNodes().map(node => laidOutNodes.get(node.id) ?? node),
+      edges: this.foblexEdges(),
+    };
+  }
+
+  /**
+   * Saves a blob through a temporary download link
+   * @private
+   */
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = window.document.createElement('a');
+
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // #endregion
+
+  // #region Search & Focus
+
+  /**
+   * Label of the focused node, shown by the search panel
+   */
+  public focusLabel = computed(() => {
+    const nodeId = this.focus()?.nodeId;
+    return this.elkNodes().find(({ id }) => id === nodeId)?.label;
+  });
+
+  /**
+   * How an element outside the focus is shown
+   * @returns Null for elements in focus, or when nothing is focused
+   */
+  public outOfFocus(id: string): FocusMode | null {
+    const ids = this.focusedIds();
+    return ids && !ids.has(id) ? this.focus()!.mode : null;
+  }
+
+  /**
+   * Selects a node or group found by the search and zooms in on it
+   * Elements hidden in a collapsed group are found by the group's node.
+   */
+  public onSearchSelect(id: string): void {
+    this.layoutAnimation.finish();
+
+    const shownId = this.findShownAncestor(id);
+    const group = this.elkGroups().find(element => element.id === shownId);
+    const element =
+      group ?? this.elkNodes().find(element => element.id === shownId);
+
+    if (!element?.position) {
+      return;
+    }
+
+    this.fFlow.select([element.id], []);
+    this.selection.set(
+      new FSelectionChangeEvent(
+        group ? [] : [element.id],
+        group ? [element.id] : [],
+        []
+      )
+    );
+
+    // Shown at its actual size, in the middle of the flow
+    const { width, height } = this.fFlow.hostElement.getBoundingClientRect();
+
+    this.fCanvas.resetScale();
+    this.fCanvas.setPosition(
+      PointExtensions.initialize(
+        width / 2 - element.position.x - element.size.width / 2,
+        height / 2 - element.position.y - element.size.height / 2
+      )
+    );
+    this.fCanvas.redrawWithAnimation();
+  }
+
+  /**
+   * Focuses on the neighbourhood of the selected node
+   */
+  public onFocusSelected(): void {
+    const nodeId = this.selectedNodeId();
+
+    if (nodeId) {
+      this.onFocusChange({
+        ...DEFAULT_GRAPH_FOCUS,
+        ...this.focus(),
+        nodeId,
+      });
+    }
+  }
+
+  /**
+   * Changes or clears the focus
+   * The graph is laid out again whenever the focused neighbourhood is, or was,
+   * laid out on its own.
+   */
+  public onFocusChange(focus: IGraphFocus | null): void {
+    const relaidOut = !!this.focus()?.relayout;
+
+    this.focus.set(focus);
+
+    if (relaidOut || focus?.relayout) {
+      this.elkLayout();
+    }
+  }
+
+  /**
+   * The element on screen standing for a group or node: the element itself,
+   * or the outermost collapsed group it's hidden in
+   * @private
+   */
+  private findShownAncestor(id: string): string {
+    if (!this.layoutConfig().enableGroups) {
+      return id;
+    }
+
+    const groupsById = new Map(this.foblexGroups().map(g => [g.id, g]));
+    const visited = new Set<string>();
+    let shownId = id;
+
+    for (
+      let parentId = [...this.foblexGroups(), ...this.foblexNodes()].find(
+        element => element.id === id
+      )?.parentId;
+      parentId && !visited.has(parentId);
+      parentId = groupsById.get(parentId)?.parentId
+    ) {
+      visited.add(parentId);
+
+      if (groupsById.get(parentId)?.collapsed) {
+        shownId = parentId;
+      }
+    }
+
+    return shownId;
+  }
+
+  // #endregion
+
+  // #region Analysis
+
+  /**
+   * Cycles, layers, paths and parts of the graph as shown
+   */
+  public graphAnalysis = computed(() => {
+    const { nodes, edges } = collapseGroups(this.visibleInput());
+    return this.graphAnalysisService.analyze(nodes, edges);
+  });
+
+  /**
+   * Edges the layout on screen draws against its direction
+   * Null unless laid out by the layered algorithm, the only one breaking cycles
+   */
+  public reversedEdgeIds = computed<string[] | null>(() => {
+    const { algorithm, direction } = this.layoutConfig();
+
+    return algorithm === 'layered'
+      ? this.graphAnalysisService.findReversedEdges(
+          this.elkNodes(),
+          this.elkEdges(),
+          direction
+        )
+      : null;
+  });
+
+  /**
+   * Colors of the elements highlighted by the overlay, by id
+   */
+  public analysisColors = computed(() =>
+    getOverlayColors(
+      this.analysisOverlay(),
+      this.graphAnalysis(),
+      this.reversedEdgeIds() ?? [],
+      this.elkEdges()
+    )
+  );
+
+  public analysisColor(id: string): string | undefined {
+    return this.analysisColors().get(id);
+  }
+
+  public onAnalysisOverlayChange(overlay: GraphAnalysisOverlay): void {
+    this.analysisOverlay.set(overlay);
+  }
+
+  /**
+   * Downloads the analysis as JSON, with the edges reversed by the last layout
+   */
+  public onExportAnalysis(): void {
+    const report: IGraphAnalysisReport = {
+      ...this.graphAnalysis(),
+      reversedEdgeIds: this.reversedEdgeIds() ?? [],
+    };
+    const blob = new Blob([JSON.stringify(report, null, 2)], {
+      type: 'application/json',
+    });
+
+    this.download(blob, 'graph-analysis.json');
+  }
+
+  // #endregion
+
+  // #region History
+
+  /**
+   * Undoes the last change, Ctrl+Z
+   */
+  public onUndo(): void {
+    this.restoreSnapshot(this.history.undo());
+  }
+
+  /**
+   * Redoes the last undone change, Ctrl+Shift+Z or Ctrl+Y
+   */
+  public onRedo(): void {
+    this.restoreSnapshot(this.history.redo());
+  }
+
+  /**
+   * Keyboard shortcuts: undo, redo and Delete/Backspace for the selection
+   */
+  @HostListener('document:keydown', ['$event'])
+  public onKeyDown(event: KeyboardEvent): void {
+    const key = event.key.toLowerCase();
+    const modifier = event.ctrlKey || event.metaKey;
+
+    // Text fields keep their own undo and deletion
+    if (
+      event.target instanceof Element &&
+      event.target.closest(
+        'input:not([type="checkbox"]):not([type="range"]), textarea, [contenteditable]'
+      )
+    ) {
+      return;
+    }
+
+    if (modifier && key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.onUndo();
+    } else if (modifier && ((key === 'z' && event.shiftKey) || key === 'y')) {
+      event.preventDefault();
+      this.onRedo();
+    } else if (!modifier && (key === 'delete' || key === 'backspace')) {
+      event.preventDefault();
+      this.onDeleteSelection();
+    }
+  }
+
+  /**
+   * Applies a change and records it for undo
+   * Nothing is recorded when the change throws or leaves the state as it was
+   * @param open - Whether more changes with the same label follow and are merged into it
+   * @private
+   */
+  private recordChange(label: string, change: () => void, open = false): void {
+    const before = this.takeSnapshot();
+    change();
+    const after = this.takeSnapshot();
+
+    if (
+      before.config !== after.config ||
+      before.groups !== after.groups ||
+      before.nodes !== after.nodes ||
+      before.edges !== after.edges
+    ) {
+      this.history.record({ label, before, after, open });
+    }
+  }
+
+  /**
+   * Editable state, signals are updated immutably so no copy is needed
+   * @private
+   */
+  private takeSnapshot(): IGraphSnapshot {
+    return {
+      config: this.layoutConfig(),
+      groups: this.foblexGroups(),
+      nodes: this.foblexNodes(),
+      edges: this.foblexEdges(),
+    };
+  }
+
+  /**
+   * Restores a recorded state and lays it out again
+   * @private
+   */
+  private restoreSnapshot(snapshot: IGraphSnapshot | null): void {
+    if (!snapshot) {
+      return;
+    }
+
+    this.layoutConfig.set(snapshot.config);
+    this.foblexGroups.set(snapshot.groups);
+    this.foblexNodes.set(snapshot.nodes);
+    this.foblexEdges.set(snapshot.edges);
+    this.elkLayout();
+  }
+
+  // #endregion
+
+  // #region Mock Methods
+
+  /**
+   * Replaces the graph with a generated one, grouped or flat as configured
+   */
+  private generateGraph(): void {
     this.foblexGroups.set([]);
     this.foblexNodes.set([]);
     this.foblexEdges.set([]);
@@ -188,7 +1463,7 @@ export class AppComponent implements OnInit {
     // Always create some default root nodes
     this.createRootNodes(10);
 
-    if (enableGroups) {
+    if (this.layoutConfig().enableGroups) {
       this.createGroups(this.groupCount);
     } else {
       // Create additional root-level nodes when groups are disabled
@@ -201,23 +1476,31 @@ export class AppComponent implements OnInit {
         this.foblexNodes().length / 3
       )
     );
-
-    this.elkLayout();
   }
 
-  // #endregion
-
-  // #region Mock Methods
-
   private createGroups(count: number): IGroup[] {
-    const groups = Array.from({ length: count }).map(() => {
+    const groups: IGroup[] = Array.from({ length: count }).map(() => {
       return {
         id: uuidv4(),
+        label: faker.commerce.department(),
         // Minimum initial size - ELK will expand based on children
         size: { width: 200, height: 200 },
+        parentId: null,
       };
     });
 
+    // Nest some groups inside others (system → subsystem → component)
+    Array.from({ length: this.nestedGroupCount }).forEach(() => {
+      const parent = faker.helpers.arrayElement(groups);
+
+      groups.push({
+        id: uuidv4(),
+        label: faker.commerce.department(),
+        size: { width: 200, height: 200 },
+        parentId: parent.id,
+      });
+    });
+
     this.foblexGroups.set(groups);
 
     // Create nodes for each group - they belong to that specific group
@@ -235,16 +1518,15 @@ export class AppComponent implements OnInit {
 
   private createRootNodes(count: number): void {
     const newNodes = Array.from({ length: count }).map(() => {
-      const size = {
-        width: faker.number.int({ min: 100, max: 350 }),
-        height: faker.number.int({ min: 100, max: 350 }),
-      };
+      const label = this.createNodeLabel();
 
       return {
         id: uuidv4(),
-        size,
+        label,
+        size: getNodeSizeForLabel(label),
         position: PointExtensions.initialize(0, 0), // Initial position before layout
         parentId: null, // No parent - root level
+        ...this.createPorts(),
       };
     });
 
@@ -256,19 +1538,57 @@ export class AppComponent implements OnInit {
     const randomNodeCount = faker.number.int({ min: 3, max: 10 });
 
     return Array.from({ length: randomNodeCount }).map(() => {
-      const size = {
-        width: faker.number.int({ min: 100, max: 350 }),
-        height: faker.number.int({ min: 100, max: 350 }),
-      };
+      const label = this.createNodeLabel();
 
       return {
         id: uuidv4(),
-        size,
+        label,
+        size: getNodeSizeForLabel(label),
         parentId, // Keep the node in its assigned group
+        ...this.createPorts(),
       };
     });
   }
 
+  /**
+   * Creates a one or two line label, the node is sized to fit it
+   */
+  private createNodeLabel(): string {
+    const label = `${faker.hacker.verb()} ${faker.hacker.noun()}`;
+
+    return faker.datatype.boolean({ probability: 0.3 })
+      ? `${label}\n${faker.hacker.adjective()} ${faker.hacker.abbreviation()}`
+      : label;
+  }
+
+  /**
+   * Gives some nodes multiple named ports, like switches or data transforms
+   * Inputs sit on top and outputs at the bottom to match the default direction
+   */
+  private createPorts(): Pick<INode, 'inputs' | 'outputs'> {
+    if (!faker.datatype.boolean({ probability: 0.35 })) {
+      return {};
+    }
+
+    const createSidePorts = (count: number, side: PortSide, prefix: string) =>
+      Array.from({ length: count }).map(
+        (_, order): IPort => ({
+          id: uuidv4(),
+          name: `${prefix}${order + 1}`,
+          side,
+          order,
+        })
+      );
+
+    const inputCount = faker.number.int({ min: 1, max: 2 });
+    const outputCount = faker.number.int({ min: 1, max: 3 });
+
+    return {
+      inputs: createSidePorts(inputCount, 'NORTH', 'in'),
+      outputs: createSidePorts(outputCount, 'SOUTH', 'out'),
+    };
+  }
+
   private createRandomWiredEdges = (
     nodes: INode[],
     totalConnections: number
@@ -291,15 +1611,28 @@ export class AppComponent implements OnInit {
         continue;
       }
 
-      const sourceId = nodes[sourceIndex].id;
-      const targetId = nodes[targetIndex].id;
+      const sourceNode = nodes[sourceIndex];
+      const targetNode = nodes[targetIndex];
 
+      // Connect to a random port, or to the node itself when it has none
       edges.push({
         id: uuidv4(),
-        source: sourceId,
-        target: targetId,
-        sourceHandle: sourceId,
-        targetHandle: targetId,
+        source: sourceNode.id,
+        target: targetNode.id,
+        sourceHandle: sourceNode.outputs?.length
+          ? faker.helpers.arrayElement(sourceNode.outputs).id
+          : sourceNode.id,
+        targetHandle: targetNode.inputs?.length
+          ? faker.helpers.arrayElement(targetNode.inputs).id
+          : targetNode.id,
+        label: faker.datatype.boolean({ probability: 0.25 })
+          ? faker.hacker.verb()
+          : undefined,
+        kind: faker.helpers.weightedArrayElement<EdgeKind>([
+          { weight: 5, value: 'data' },
+          { weight: 3, value: 'control' },
+          { weight: 2, value: 'dependency' },
+        ]),
       });
     }
 
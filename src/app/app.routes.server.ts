@@ -0,0 +1,10 @@
+import { RenderMode, ServerRoute } from '@angular/ssr';
+
+// The diagram is measured and laid out in the browser, so pages are rendered
+// on the client; the server provides the static files and the layout API
+export const serverRoutes: ServerRoute[] = [
+  {
+    path: '**',
+    renderMode: RenderMode.Client,
+  },
+];
@@ -0,0 +1,145 @@
+import { TestBed } from '@angular/core/testing';
+import { IPoint } from '@foblex/2d';
+import { EFConnectableSide, IFConnectionBuilderRequest } from '@foblex/flow';
+import { ElkRouteConnectionBuilder } from './elk-route-connection.builder';
+import { ELK_PORT_SIZE } from '../engine/elk-layout.engine';
+import {
+  IEdge,
+  IEdgeRoute,
+  ILayoutOutput,
+  INode,
+} from '../models/graph.interface';
+import { buildRoutePath } from '../utils/route-path';
+
+describe('ElkRouteConnectionBuilder', () => {
+  let builder: ElkRouteConnectionBuilder;
+
+  const node = (id: string, x: number, y: number): INode => ({
+    id,
+    size: { width: 100, height: 50 },
+    position: { x, y },
+    parentId: null,
+  });
+  const route = (...points: [number, number][]): IEdgeRoute => ({
+    points: points.map(([x, y]) => ({ x, y })),
+    curved: false,
+  });
+  const edge = (
+    id: string,
+    source: string,
+    target: string,
+    edgeRoute?: IEdgeRoute
+  ): IEdge => ({
+    id,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+    route: edgeRoute,
+  });
+  const request = (
+    [sx, sy]: [number, number],
+    [tx, ty]: [number, number]
+  ): IFConnectionBuilderRequest => ({
+    source: { x: sx, y: sy },
+    sourceSide: EFConnectableSide.BOTTOM,
+    target: { x: tx, y: ty },
+    targetSide: EFConnectableSide.TOP,
+    radius: 8,
+    offset: 32,
+  });
+  const points = (response: { points?: IPoint[] }) =>
+    JSON.stringify(response.points);
+
+  // a above b, joined by two parallel edges through different ports, and
+  // c above and right of d, joined by an edge with two bends
+  const left = route([30, 50], [30, 200]);
+  const right = route([70, 50], [70, 200]);
+  const around = route([350, 50], [350, 100], [250, 100], [250, 200]);
+  const layout: ILayoutOutput = {
+    groups: [],
+    nodes: [
+      node('a', 0, 0),
+      node('b', 0, 200),
+      node('c', 300, 0),
+      node('d', 200, 200),
+    ],
+    edges: [
+      edge('left', 'a', 'b', left),
+      edge('right', 'a', 'b', right),
+      edge('around', 'c', 'd', around),
+      edge('unrouted', 'a', 'd'),
+    ],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    builder = TestBed.inject(ElkRouteConnectionBuilder);
+    builder.setLayout(layout);
+  });
+
+  it('should draw the route between the nodes at the connector points', () => {
+    const response = builder.handle(request([350, 50], [250, 200]));
+
+    expect(response.path).toBe(buildRoutePath(around));
+    expect(points(response)).toBe(JSON.stringify(around.points));
+    expect(response.secondPoint).toEqual({ x: 350, y: 100 });
+    expect(response.penultimatePoint).toEqual({ x: 250, y: 100 });
+  });
+
+  it('should tell parallel edges apart by their connector points', () => {
+    expect(builder.handle(request([30, 50], [30, 200])).path).toBe(
+      buildRoutePath(left)
+    );
+    expect(builder.handle(request([70, 50], [70, 200])).path).toBe(
+      buildRoutePath(right)
+    );
+    // Connectors off the route ends pick the nearest route
+    expect(builder.handle(request([60, 50], [60, 200])).path).toBe(
+      buildRoutePath(right)
+    );
+  });
+
+  it('should match connectors on ports just outside the node', () => {
+    const port = ELK_PORT_SIZE + 2;
+
+    expect(
+      builder.handle(request([350, 50 + port], [250, 200 - port])).path
+    ).toBe(buildRoutePath(around));
+  });
+
+  it('should fall back to the segment path away from known routes', () => {
+    const response = builder.handle(request([350, 50 + 40], [250, 200]));
+
+    expect(response.path).not.toBe(buildRoutePath(around));
+  });
+
+  it('should fall back for edges without a route', () => {
+    const response = builder.handle(request([50, 50], [250, 200]));
+
+    expect(response.path).not.toBe(buildRoutePath(around));
+    expect(response.path).not.toBe(buildRoutePath(left));
+  });
+
+  it('should drop the routes of dragged nodes only', () => {
+    builder.dropRoutes(['a']);
+
+    expect(builder.handle(request([30, 50], [30, 200])).path).not.toBe(
+      buildRoutePath(left)
+    );
+    expect(builder.handle(request([350, 50], [250, 200])).path).toBe(
+      buildRoutePath(around)
+    );
+  });
+
+  it('should replace the routes with the ones of a new layout', () => {
+    builder.setLayout({ ...layout, edges: [edge('left', 'a', 'b', left)] });
+
+    expect(builder.handle(request([30, 50], [30, 200])).path).toBe(
+      buildRoutePath(left)
+    );
+    expect(builder.handle(request([350, 50], [250, 200])).path).not.toBe(
+      buildRoutePath(around)
+    );
+  });
+});
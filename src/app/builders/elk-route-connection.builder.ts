@@ -0,0 +1,149 @@
+import { Injectable } from '@angular/core';
+import { IPoint, IRect, PointExtensions, RectExtensions } from '@foblex/2d';
+import {
+  FSegmentPathBuilder,
+  IFConnectionBuilder,
+  IFConnectionBuilderRequest,
+  IFConnectionBuilderResponse,
+} from '@foblex/flow';
+import { ELK_PORT_SIZE } from '../engine/elk-layout.engine';
+import { IEdgeRoute, ILayoutOutput } from '../models/graph.interface';
+import { buildRoutePath, getRouteCenter } from '../utils/route-path';
+
+/**
+ * Connection type to use in `fType` for edges drawn along ELK routes
+ */
+export const ELK_ROUTE_CONNECTION_TYPE = 'elk-route';
+
+/**
+ * Distance (px) a connector may lie outside its node rectangle
+ * and still be considered attached to it, ports sit just outside the border
+ */
+const NODE_RECT_TOLERANCE = ELK_PORT_SIZE + 4;
+
+interface IRouteEntry {
+  source: string; // node ids
+  target: string;
+  sourceRect: IRect;
+  targetRect: IRect;
+  route: IEdgeRoute;
+}
+
+/**
+ * Foblex connection builder that draws the route computed by ELK
+ * Foblex only passes the connector points to a builder, so the route is looked up
+ * by them: among the routes between the nodes at those points, the one whose
+ * first and last points lie nearest to the connectors wins, so parallel edges
+ * through different ports keep their own routes. Routes of dragged nodes are
+ * dropped and their connections fall back to the default segment path.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ElkRouteConnectionBuilder implements IFConnectionBuilder {
+  private readonly fallback = new FSegmentPathBuilder();
+  private entries: IRouteEntry[] = [];
+
+  /**
+   * Replaces the known routes with the ones from a layout result
+   * @param layout - Layout result with node positions and edge routes
+   */
+  public setLayout(layout: ILayoutOutput): void {
+    const rects = new Map<string, IRect>(
+      layout.nodes.map(node => [
+        node.id,
+        RectExtensions.initialize(
+          node.position?.x ?? 0,
+          node.position?.y ?? 0,
+          node.size.width,
+          node.size.height
+        ),
+      ])
+    );
+
+    this.entries = layout.edges
+      .filter(edge => edge.route && edge.route.points.length >= 2)
+      .filter(edge => rects.has(edge.source) && rects.has(edge.target))
+      .map(edge => ({
+        source: edge.source,
+        target: edge.target,
+        sourceRect: rects.get(edge.source)!,
+        targetRect: rects.get(edge.target)!,
+        route: edge.route!,
+      }));
+  }
+
+  /**
+   * Drops the routes into or out of nodes, e.g. after they were dragged
+   */
+  public dropRoutes(nodeIds: Iterable<string>): void {
+    const dropped = new Set(nodeIds);
+
+    this.entries = this.entries.filter(
+      ({ source, target }) => !dropped.has(source) && !dropped.has(target)
+    );
+  }
+
+  public handle(
+    request: IFConnectionBuilderRequest
+  ): IFConnectionBuilderResponse {
+    const route = this.findRoute(request.source, request.target);
+
+    if (!route) {
+      return this.fallback.handle(request);
+    }
+
+    const { points } = route;
+
+    return {
+      path: buildRoutePath(route),
+      connectionCenter: getRouteCenter(points),
+      secondPoint: points[1],
+      penultimatePoint: points[points.length - 2],
+      points,
+    };
+  }
+
+  /**
+   * Finds the route between the nodes at the connector points whose ends lie
+   * nearest to them
+   * @private
+   */
+  private findRoute(source: IPoint, target: IPoint): IEdgeRoute | undefined {
+    let nearest: IEdgeRoute | undefined;
+    let nearestDistance = Infinity;
+
+    this.entries
+      .filter(
+        entry =>
+          this.isNearRect(entry.sourceRect, source) &&
+          this.isNearRect(entry.targetRect, target)
+      )
+      .forEach(({ route: candidate }) => {
+        const { points } = candidate;
+        const distance =
+          PointExtensions.distance(points[0], source) +
+          PointExtensions.distance(points[points.length - 1], target);
+
+        if (distance < nearestDistance) {
+          nearest = candidate;
+          nearestDistance = distance;
+        }
+      });
+
+    return nearest;
+  }
+
+  /**
+   * Checks whether a point lies on or inside a rectangle, within tolerance
+   * @private
+   */
+  private isNearRect(rect: IRect, point: IPoint): boolean {
+    return (
+      point.x >= rect.x - NODE_RECT_TOLERANCE &&
+      point.x <= rect.x + rect.width + NODE_RECT_TOLERANCE &&
+      point.y >= rect.y - NODE_RECT_TOLERANCE &&
+      point.y <= rect.y + rect.height + NODE_RECT_TOLERANCE
+    );
+  }
+}
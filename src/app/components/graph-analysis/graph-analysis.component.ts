@@ -0,0 +1,51 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  GraphAnalysisOverlay,
+  IGraphAnalysis,
+} from '../../models/graph-analysis.interface';
+
+/**
+ * Summarizes the structure of the graph: cycles, layers, paths and parts,
+ * and picks the result highlighted on the canvas
+ */
+@Component({
+  selector: 'app-graph-analysis',
+  standalone: true,
+  templateUrl: './graph-analysis.component.html',
+  styleUrl: './graph-analysis.component.scss',
+})
+export class GraphAnalysisComponent {
+  @Input() analysis!: IGraphAnalysis;
+  // Edges the last layout reversed, null unless it was a layered layout
+  @Input() reversedEdgeIds: string[] | null = null;
+  @Input() overlay: GraphAnalysisOverlay = 'none';
+  @Output() overlayChange = new EventEmitter<GraphAnalysisOverlay>();
+  @Output() exportAnalysis = new EventEmitter<void>();
+
+  // Options for dropdowns
+  overlayOptions: { value: GraphAnalysisOverlay; label: string }[] = [
+    { value: 'none', label: 'No Overlay' },
+    { value: 'cycles', label: 'Cycles' },
+    { value: 'reversed', label: 'Reversed Edges' },
+    { value: 'layers', label: 'Topological Layers' },
+    { value: 'critical', label: 'Critical Path' },
+    { value: 'components', label: 'Disconnected Parts' },
+  ];
+
+  /**
+   * Number of cycles listed, e.g. "100+" when listing stopped early
+   */
+  get cycleCount(): string {
+    const { cycles, cyclesTruncated } = this.analysis;
+    return `${cycles.length}${cyclesTruncated ? '+' : ''}`;
+  }
+
+  onOverlayChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    this.overlayChange.emit(target.value as GraphAnalysisOverlay);
+  }
+
+  onExportClick(): void {
+    this.exportAnalysis.emit();
+  }
+}
@@ -0,0 +1,62 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  GraphDiagnosticCode,
+  IGraphDiagnostic,
+} from '../../models/graph-diagnostic.interface';
+
+// Label of the repair offered for each kind of problem
+const REPAIR_LABELS: Record<GraphDiagnosticCode, string> = {
+  'duplicate-id': 'Rename',
+  'invalid-size': 'Resize',
+  'missing-parent': 'Move to Root',
+  'parent-cycle': 'Move to Root',
+  'dangling-edge': 'Drop Edge',
+  'unknown-port': 'Reconnect',
+  'self-loop': 'Drop Edge',
+};
+
+/**
+ * Lists the problems that keep the graph from being laid out, and warnings,
+ * with a repair for each kind of problem
+ */
+@Component({
+  selector: 'app-graph-diagnostics',
+  standalone: true,
+  templateUrl: './graph-diagnostics.component.html',
+  styleUrl: './graph-diagnostics.component.scss',
+})
+export class GraphDiagnosticsComponent {
+  @Input() diagnostics: IGraphDiagnostic[] = [];
+  // Failure of the last layout run that validation didn't foresee
+  @Input() layoutError: string | null = null;
+  @Output() repair = new EventEmitter<GraphDiagnosticCode[]>();
+
+  repairLabels = REPAIR_LABELS;
+
+  get errorCount(): number {
+    return this.diagnostics.filter(({ severity }) => severity === 'error')
+      .length;
+  }
+
+  /**
+   * Counts of errors and warnings, e.g. "2 errors, 1 warning"
+   */
+  get summary(): string {
+    const count = (value: number, noun: string) =>
+      value ? [`${value} ${noun}${value === 1 ? '' : 's'}`] : [];
+    const errors = this.errorCount;
+
+    return [
+      ...count(errors, 'error'),
+      ...count(this.diagnostics.length - errors, 'warning'),
+    ].join(', ');
+  }
+
+  onRepairClick(diagnostic: IGraphDiagnostic): void {
+    this.repair.emit([diagnostic.code]);
+  }
+
+  onRepairAllClick(): void {
+    this.repair.emit([...new Set(this.diagnostics.map(({ code }) => code))]);
+  }
+}
@@ -0,0 +1,179 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  DEFAULT_GRAPH_FOCUS,
+  FocusDirection,
+  FocusMode,
+  IGraphFocus,
+} from '../../models/graph-focus.interface';
+import { IGroup, INode } from '../../models/graph.interface';
+
+// Results listed at most, the best matches first
+const MAX_RESULTS = 8;
+
+/**
+ * A group or node matching the search
+ */
+export interface IGraphSearchResult {
+  id: string;
+  label: string;
+  type: 'group' | 'node';
+  hiddenIn?: string; // label of the collapsed group the element is hidden in
+}
+
+/**
+ * Finds nodes and groups by id or label and focuses on a node's neighbourhood
+ */
+@Component({
+  selector: 'app-graph-search',
+  standalone: true,
+  templateUrl: './graph-search.component.html',
+  styleUrl: './graph-search.component.scss',
+})
+export class GraphSearchComponent {
+  @Input() groups: IGroup[] = [];
+  @Input() nodes: INode[] = [];
+  @Input() focus: IGraphFocus | null = null;
+  @Input() focusLabel?: string;
+  @Input() canFocus = false; // a single node is selected
+  @Output() resultSelect = new EventEmitter<string>();
+  @Output() focusSelected = new EventEmitter<void>();
+  @Output() focusChange = new EventEmitter<IGraphFocus | null>();
+
+  query = '';
+
+  // Options for dropdowns
+  hopOptions = [1, 2, 3, 4, 5];
+  directionOptions: { value: FocusDirection; label: string }[] = [
+    { value: 'both', label: 'Up- & Downstream' },
+    { value: 'upstream', label: 'Upstream' },
+    { value: 'downstream', label: 'Downstream' },
+  ];
+  modeOptions: { value: FocusMode; label: string }[] = [
+    { value: 'dim', label: 'Dim Others' },
+    { value: 'hide', label: 'Hide Others' },
+  ];
+
+  /**
+   * Groups and nodes whose id or label contains the query, case-insensitive
+   * Labels starting with the query come first
+   */
+  get results(): IGraphSearchResult[] {
+    const query = this.query.trim().toLowerCase();
+
+    if (!query) {
+      return [];
+    }
+
+    const groupsById = new Map(this.groups.map(group => [group.id, group]));
+    const elements = [
+      ...this.groups.map(group => ({ element: group, type: 'group' as const })),
+      ...this.nodes.map(node => ({ element: node, type: 'node' as const })),
+    ];
+
+    return elements
+      .filter(
+        ({ element }) =>
+          element.id.toLowerCase().includes(query) ||
+          !!element.label?.toLowerCase().includes(query)
+      )
+      .map(({ element, type }) => ({
+        id: element.id,
+        label: element.label ?? element.id,
+        type,
+        hiddenIn: this.findCollapsedAncestor(element, groupsById)?.label,
+      }))
+      .sort(
+        (a, b) =>
+          Number(!a.label.toLowerCase().startsWith(query)) -
+          Number(!b.label.toLowerCase().startsWith(query))
+      )
+      .slice(0, MAX_RESULTS);
+  }
+
+  onQueryInput(event: Event): void {
+    this.query = (event.target as HTMLInputElement).value;
+  }
+
+  /**
+   * Enter picks the best match, Escape clears the search
+   */
+  onQueryKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && this.results.length) {
+      this.resultSelect.emit(this.results[0].id);
+    } else if (event.key === 'Escape') {
+      this.query = '';
+    }
+  }
+
+  onResultClick(result: IGraphSearchResult): void {
+    this.resultSelect.emit(result.id);
+  }
+
+  onFocusClick(): void {
+    this.focusSelected.emit();
+  }
+
+  onClearFocusClick(): void {
+    this.focusChange.emit(null);
+  }
+
+  onHopsChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    this.emitFocusChange({ hops: parseInt(target.value, 10) });
+  }
+
+  onDirectionChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    this.emitFocusChange({ direction: target.value as FocusDirection });
+  }
+
+  onModeChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    this.emitFocusChange({ mode: target.value as FocusMode });
+  }
+
+  onRelayoutChange(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    this.emitFocusChange({ relayout: target.checked });
+  }
+
+  /**
+   * Emits the focus with a change applied
+   * @private
+   */
+  private emitFocusChange(changes: Partial<IGraphFocus>): void {
+    if (this.focus) {
+      this.focusChange.emit({
+        ...DEFAULT_GRAPH_FOCUS,
+        ...this.focus,
+        ...changes,
+      });
+    }
+  }
+
+  /**
+   * Outermost collapsed group an element is hidden in, if any
+   * @private
+   */
+  private findCollapsedAncestor(
+    element: IGroup | INode,
+    groupsById: Map<string, IGroup>
+  ): IGroup | undefined {
+    let ancestor: IGroup | undefined;
+    const visited = new Set<string>();
+
+    for (
+      let group = groupsById.get(element.parentId ?? '');
+      group && !visited.has(group.id);
+      group = groupsById.get(group.parentId ?? '')
+    ) {
+      visited.add(group.id);
+
+      if (group.collapsed) {
+        ancestor = group;
+      }
+    }
+
+    return ancestor;
+  }
+}
@@ -0,0 +1,82 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { IGroup, IGroupLayoutOverrides } from '../../models/graph.interface';
+import { DIRECTION_OPTIONS } from '../../registry/elk-option.registry';
+import { ALGORITHM_OPTIONS } from '../layout-controls/layout-controls.component';
+
+/**
+ * Edits the layout overrides of a single group
+ * Empty fields inherit the settings of the enclosing group or the global ones
+ */
+@Component({
+  selector: 'app-group-layout',
+  standalone: true,
+  templateUrl: './group-layout.component.html',
+  styleUrl: './group-layout.component.scss',
+})
+export class GroupLayoutComponent {
+  @Input() group!: IGroup;
+  @Output() overridesChange = new EventEmitter<
+    IGroupLayoutOverrides | undefined
+  >();
+
+  // Options for dropdowns
+  algorithmOptions = ALGORITHM_OPTIONS;
+  directionOptions = DIRECTION_OPTIONS;
+
+  get overrides(): IGroupLayoutOverrides {
+    return this.group.layoutOverrides ?? {};
+  }
+
+  onAlgorithmChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    const algorithm = (target.value ||
+      undefined) as IGroupLayoutOverrides['algorithm'];
+    this.emitChange({ algorithm });
+  }
+
+  onDirectionChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    const direction = (target.value ||
+      undefined) as IGroupLayoutOverrides['direction'];
+    this.emitChange({ direction });
+  }
+
+  onNodeSpacingChange(event: Event): void {
+    this.emitChange({ nodeSpacing: this.readSpacing(event) });
+  }
+
+  onLayerSpacingChange(event: Event): void {
+    this.emitChange({ layerSpacing: this.readSpacing(event) });
+  }
+
+  onResetClick(): void {
+    this.overridesChange.emit(undefined);
+  }
+
+  /**
+   * Emits the overrides with a change applied, without the inherited fields
+   * @private
+   */
+  private emitChange(changes: Partial<IGroupLayoutOverrides>): void {
+    const overrides = Object.fromEntries(
+      Object.entries({ ...this.overrides, ...changes }).filter(
+        ([, value]) => value !== undefined
+      )
+    ) as IGroupLayoutOverrides;
+
+    this.overridesChange.emit(
+      Object.keys(overrides).length ? overrides : undefined
+    );
+  }
+
+  /**
+   * Spacing entered in a number input, empty or invalid input inherits
+   * @private
+   */
+  private readSpacing(event: Event): number | undefined {
+    const target = event.target as HTMLInputElement;
+    const value = target.valueAsNumber;
+
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+}
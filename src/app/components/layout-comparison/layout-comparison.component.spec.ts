@@ -0,0 +1,199 @@
+import {
+  Component,
+  EventEmitter,
+  forwardRef,
+  Input,
+  Output,
+} from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { FCanvasChangeEvent } from '@foblex/flow';
+import { LayoutComparisonComponent } from './layout-comparison.component';
+import { LayoutPaneComponent } from '../layout-pane/layout-pane.component';
+import { ILayoutInput } from '../../models/graph.interface';
+import { ILayoutMetrics } from '../../models/layout-metrics.interface';
+import {
+  DEFAULT_LAYOUT_CONFIG,
+  LayoutConfig,
+} from '../../models/layout-config.interface';
+
+// Stands in for the canvas, keeps the viewport it was moved to
+@Component({
+  selector: 'app-layout-pane',
+  standalone: true,
+  template: '',
+  providers: [
+    {
+      provide: LayoutPaneComponent,
+      useExisting: forwardRef(() => FakeLayoutPaneComponent),
+    },
+  ],
+})
+class FakeLayoutPaneComponent {
+  @Input() input!: ILayoutInput;
+  @Input() config!: LayoutConfig;
+  @Input() fitOnLayout = true;
+  @Output() metricsChange = new EventEmitter<ILayoutMetrics>();
+  @Output() viewportChange = new EventEmitter<FCanvasChangeEvent>();
+
+  viewport = new FCanvasChangeEvent({ x: 0, y: 0 }, 1);
+
+  getViewport(): FCanvasChangeEvent {
+    return this.viewport;
+  }
+
+  setViewport(viewport: FCanvasChangeEvent): void {
+    this.viewport = viewport;
+  }
+}
+
+describe('LayoutComparisonComponent', () => {
+  let fixture: ComponentFixture<LayoutComparisonComponent>;
+  let component: LayoutComparisonComponent;
+
+  const input: ILayoutInput = {
+    groups: [],
+    nodes: [],
+    edges: [],
+    enableGroups: false,
+  };
+  const metrics = (edgeCrossings: number): ILayoutMetrics => ({
+    edgeCrossings,
+    totalEdgeLength: 0,
+    averageEdgeLength: 0,
+    bendCount: 0,
+    nodeOverlaps: 0,
+    nodeEdgeOverlaps: 0,
+    boundingBox: { width: 100, height: 100 },
+    area: 0.01,
+    aspectRatio: 1,
+    layoutTime: 10,
+  });
+
+  const panes = () =>
+    fixture.debugElement
+      .queryAll(By.directive(FakeLayoutPaneComponent))
+      .map(pane => pane.componentInstance as FakeLayoutPaneComponent);
+  const select = (pane: number, title: string, value: string) => {
+    const element = fixture.debugElement.queryAll(
+      By.css(`select[title="${title}"]`)
+    )[pane].nativeElement as HTMLSelectElement;
+    element.value = value;
+    element.dispatchEvent(new Event('change'));
+    fixture.detectChanges();
+  };
+  const setLinked = (linked: boolean) => {
+    const checkbox = fixture.debugElement.query(By.css('#linkViewports'))
+      .nativeElement as HTMLInputElement;
+    checkbox.checked = linked;
+    checkbox.dispatchEvent(new Event('change'));
+    fixture.detectChanges();
+  };
+
+  const create = (config: LayoutConfig) => {
+    fixture = TestBed.createComponent(LayoutComparisonComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('input', input);
+    fixture.componentRef.setInput('config', config);
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [LayoutComparisonComponent],
+    }).overrideComponent(LayoutComparisonComponent, {
+      remove: { imports: [LayoutPaneComponent] },
+      add: { imports: [FakeLayoutPaneComponent] },
+    });
+  });
+
+  it('should start with the current settings and another algorithm', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+
+    expect(panes().map(pane => pane.config)).toEqual([
+      DEFAULT_LAYOUT_CONFIG,
+      { ...DEFAULT_LAYOUT_CONFIG, algorithm: 'force' },
+    ]);
+    expect(panes().every(pane => pane.input === input)).toBeTrue();
+  });
+
+  it('should compare force with layered', () => {
+    create({ ...DEFAULT_LAYOUT_CONFIG, algorithm: 'force' });
+
+    expect(panes()[1].config.algorithm).toBe('layered');
+  });
+
+  it('should change the settings of one pane only', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+    select(1, 'Layout Algorithm', 'mrtree');
+    select(1, 'Direction', 'LEFT');
+    select(0, 'Edge Routing', 'SPLINES');
+    select(0, 'Node Placement', 'LINEAR_SEGMENTS');
+
+    expect(panes()[0].config).toEqual({
+      ...DEFAULT_LAYOUT_CONFIG,
+      edgeRouting: 'SPLINES',
+      nodePlacement: 'LINEAR_SEGMENTS',
+    });
+    expect(panes()[1].config).toEqual({
+      ...DEFAULT_LAYOUT_CONFIG,
+      algorithm: 'mrtree',
+      direction: 'LEFT',
+    });
+  });
+
+  it('should compare the metrics of each pane with the other one', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+    panes()[0].metricsChange.emit(metrics(3));
+    panes()[1].metricsChange.emit(metrics(5));
+    fixture.detectChanges();
+
+    expect(component.metrics()).toEqual([metrics(3), metrics(5)]);
+    expect(fixture.nativeElement.textContent).toContain('Left Layout');
+    expect(fixture.nativeElement.textContent).toContain('Right Layout');
+  });
+
+  it('should move the other pane along while linked', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+    const viewport = new FCanvasChangeEvent({ x: 30, y: 40 }, 0.5);
+
+    panes()[1].viewportChange.emit(viewport);
+
+    expect(panes()[0].viewport).toBe(viewport);
+    expect(panes()[1].fitOnLayout).toBeFalse();
+  });
+
+  it('should leave the other pane alone when unlinked', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+    setLinked(false);
+    const viewport = new FCanvasChangeEvent({ x: 30, y: 40 }, 0.5);
+
+    panes()[0].viewportChange.emit(viewport);
+
+    expect(panes()[1].viewport).not.toBe(viewport);
+    expect(panes()[1].fitOnLayout).toBeTrue();
+  });
+
+  it('should give the right pane the view of the left one when linked again', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+    setLinked(false);
+    const viewport = new FCanvasChangeEvent({ x: 30, y: 40 }, 0.5);
+    panes()[0].viewport = viewport;
+
+    setLinked(true);
+
+    expect(panes()[1].viewport).toBe(viewport);
+  });
+
+  it('should ask to be dismissed when closed', () => {
+    create(DEFAULT_LAYOUT_CONFIG);
+    const dismiss = jasmine.createSpy('dismiss');
+    component.dismiss.subscribe(dismiss);
+
+    fixture.debugElement
+      .query(By.css('.toolbar button'))
+      .nativeElement.dispatchEvent(new Event('click'));
+
+    expect(dismiss).toHaveBeenCalled();
+  });
+});
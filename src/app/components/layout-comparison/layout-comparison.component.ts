@@ -0,0 +1,135 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  QueryList,
+  signal,
+  ViewChildren,
+} from '@angular/core';
+import { FCanvasChangeEvent } from '@foblex/flow';
+import { ILayoutInput } from '../../models/graph.interface';
+import { ILayoutMetrics } from '../../models/layout-metrics.interface';
+import {
+  DIRECTION_OPTIONS,
+  EDGE_ROUTING_OPTIONS,
+  NODE_PLACEMENT_OPTIONS,
+} from '../../registry/elk-option.registry';
+import { ALGORITHM_OPTIONS } from '../layout-controls/layout-controls.component';
+import { LayoutConfig } from '../../models/layout-config.interface';
+import { LayoutMetricsComponent } from '../layout-metrics/layout-metrics.component';
+import { LayoutPaneComponent } from '../layout-pane/layout-pane.component';
+
+type PaneIndex = 0 | 1;
+
+/**
+ * Lays the same graph out with two configurations side by side
+ * The left pane starts with the current settings, the right one with another algorithm.
+ * Metrics of each pane show their difference to the other pane.
+ */
+@Component({
+  selector: 'app-layout-comparison',
+  standalone: true,
+  imports: [LayoutPaneComponent, LayoutMetricsComponent],
+  templateUrl: './layout-comparison.component.html',
+  styleUrl: './layout-comparison.component.scss',
+})
+export class LayoutComparisonComponent implements OnInit {
+  @Input() input!: ILayoutInput;
+  @Input() config!: LayoutConfig;
+  @Output() dismiss = new EventEmitter<void>();
+
+  @ViewChildren(LayoutPaneComponent)
+  public panes!: QueryList<LayoutPaneComponent>;
+
+  public configs = signal<[LayoutConfig, LayoutConfig] | null>(null);
+  public metrics = signal<[ILayoutMetrics | null, ILayoutMetrics | null]>([
+    null,
+    null,
+  ]);
+  // The right pane follows pans and zooms of the left one and vice versa
+  public linked = signal(true);
+
+  // Options for dropdowns
+  algorithmOptions = ALGORITHM_OPTIONS;
+  directionOptions = DIRECTION_OPTIONS;
+  edgeRoutingOptions = EDGE_ROUTING_OPTIONS;
+  nodePlacementOptions = NODE_PLACEMENT_OPTIONS;
+
+  public ngOnInit(): void {
+    this.configs.set([
+      this.config,
+      {
+        ...this.config,
+        algorithm: this.config.algorithm === 'layered' ? 'force' : 'layered',
+      },
+    ]);
+  }
+
+  onConfigChange(pane: PaneIndex, changes: Partial<LayoutConfig>): void {
+    this.configs.update(configs => {
+      const result = [...configs!] as [LayoutConfig, LayoutConfig];
+      result[pane] = { ...result[pane], ...changes };
+      return result;
+    });
+  }
+
+  onAlgorithmChange(pane: PaneIndex, event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    const algorithm = target.value as LayoutConfig['algorithm'];
+    this.onConfigChange(pane, { algorithm });
+  }
+
+  onDirectionChange(pane: PaneIndex, event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    const direction = target.value as LayoutConfig['direction'];
+    this.onConfigChange(pane, { direction });
+  }
+
+  onEdgeRoutingChange(pane: PaneIndex, event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    const edgeRouting = target.value as LayoutConfig['edgeRouting'];
+    this.onConfigChange(pane, { edgeRouting });
+  }
+
+  onNodePlacementChange(pane: PaneIndex, event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    const nodePlacement = target.value as LayoutConfig['nodePlacement'];
+    this.onConfigChange(pane, { nodePlacement });
+  }
+
+  onMetricsChange(pane: PaneIndex, metrics: ILayoutMetrics): void {
+    this.metrics.update(current => {
+      const result = [...current] as [ILayoutMetrics, ILayoutMetrics];
+      result[pane] = metrics;
+      return result;
+    });
+  }
+
+  /**
+   * Moves the other pane along when pan and zoom are linked
+   */
+  onViewportChange(pane: PaneIndex, event: FCanvasChangeEvent): void {
+    if (this.linked()) {
+      this.panes.get(pane === 0 ? 1 : 0)?.setViewport(event);
+    }
+  }
+
+  /**
+   * Links pan and zoom, the right pane takes over the view of the left one
+   */
+  onLinkedChange(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    this.linked.set(target.checked);
+
+    if (target.checked) {
+      const [left, right] = this.panes.toArray();
+      right.setViewport(left.getViewport());
+    }
+  }
+
+  onCloseClick(): void {
+    this.dismiss.emit();
+  }
+}
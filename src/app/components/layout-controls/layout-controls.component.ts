@@ -1,16 +1,33 @@
 import { Component, EventEmitter, Input, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import {
+  ILayoutAnimationOptions,
+  LayoutEasing,
+} from '../../services/layout-animation.service';
+import {
+  ElkOptionDefinition,
+  ElkOptionValue,
+} from '../../models/elk-option.interface';
+import { LayoutConfig } from '../../models/layout-config.interface';
+import { getElkOptionDefinitions } from '../../registry/elk-option.registry';
+import {
+  getConfigOptionValue,
+  setConfigOptionValue,
+} from '../../utils/layout-options';
+import { ILayoutCacheStats } from '../../services/layout-cache.service';
 
-export interface LayoutConfig {
-  enableGroups: boolean;
-  algorithm: 'layered' | 'force' | 'stress' | 'mrtree';
-  direction: 'RIGHT' | 'DOWN' | 'LEFT' | 'UP';
-  edgeRouting: 'ORTHOGONAL' | 'POLYLINE' | 'SPLINES';
-  nodePlacement: 'NETWORK_SIMPLEX' | 'BRANDES_KOEPF' | 'LINEAR_SEGMENTS';
-  nodeSpacing: number;
-  layerSpacing: number;
-  groupPadding: number;
-}
+// Layout algorithms offered, shared with the comparison panes
+export const ALGORITHM_OPTIONS = [
+  { value: 'layered', label: 'Layered (Hierarchical)' },
+  { value: 'force', label: 'Force-Directed (Organic)' },
+  { value: 'stress', label: 'Stress (Minimized Edge Length)' },
+  { value: 'mrtree', label: 'Tree (MR-Tree)' },
+  { value: 'radial', label: 'Radial (Tree Around a Root)' },
+  { value: 'rectpacking', label: 'Rectangle Packing' },
+  { value: 'box', label: 'Box Packing' },
+  { value: 'sporeOverlap', label: 'SPOrE Overlap Removal' },
+  { value: 'sporeCompaction', label: 'SPOrE Compaction' },
+] as const;
 
 @Component({
   selector: 'app-layout-controls',
@@ -21,35 +38,79 @@ export interface LayoutConfig {
 })
 export class LayoutControlsComponent {
   @Input() config!: LayoutConfig;
+  @Input() pinnedCount = 0;
+  @Input() collapsedCount = 0;
+  @Input() importErrors: string[] = [];
+  @Input() canUndo = false;
+  @Input() canRedo = false;
+  @Input() undoLabel?: string;
+  @Input() redoLabel?: string;
+  @Input() selectedCount = 0;
+  @Input() autoLayout = false;
+  @Input() animation!: ILayoutAnimationOptions;
+  @Input() cacheStats!: ILayoutCacheStats;
   @Output() configChange = new EventEmitter<Partial<LayoutConfig>>();
+  @Output() configPreview = new EventEmitter<Partial<LayoutConfig>>(); // slider being dragged
+  @Output() animationChange = new EventEmitter<
+    Partial<ILayoutAnimationOptions>
+  >();
   @Output() regenerateGraph = new EventEmitter<boolean>();
+  @Output() unpinAll = new EventEmitter<void>();
+  @Output() collapseAll = new EventEmitter<void>();
+  @Output() expandAll = new EventEmitter<void>();
+  @Output() undo = new EventEmitter<void>();
+  @Output() redo = new EventEmitter<void>();
+  @Output() addNode = new EventEmitter<void>();
+  @Output() addGroup = new EventEmitter<void>();
+  @Output() deleteSelection = new EventEmitter<void>();
+  @Output() autoLayoutChange = new EventEmitter<boolean>();
+  @Output() importGraph = new EventEmitter<File>();
+  @Output() exportGraph = new EventEmitter<void>();
+  @Output() exportSvg = new EventEmitter<void>();
+  @Output() exportPng = new EventEmitter<number>();
+  @Output() resetDefaults = new EventEmitter<void>();
+  @Output() compare = new EventEmitter<void>();
+  @Output() cachePersistentChange = new EventEmitter<boolean>();
+  @Output() clearCache = new EventEmitter<void>();
+
+  // Resolution of PNG exports, in output pixels per diagram pixel
+  pngScale = 2;
 
   // Options for dropdowns
-  algorithmOptions = [
-    { value: 'layered', label: 'Layered (Hierarchical)' },
-    { value: 'force', label: 'Force-Directed (Organic)' },
-    { value: 'stress', label: 'Stress (Minimized Edge Length)' },
-    { value: 'mrtree', label: 'Tree (MR-Tree)' },
-  ] as const;
+  algorithmOptions = ALGORITHM_OPTIONS;
 
-  directionOptions = [
-    { value: 'RIGHT', label: 'Left to Right' },
-    { value: 'DOWN', label: 'Top to Bottom' },
-    { value: 'LEFT', label: 'Right to Left' },
-    { value: 'UP', label: 'Bottom to Top' },
-  ] as const;
+  pngScaleOptions = [1, 2, 3, 4] as const;
 
-  edgeRoutingOptions = [
-    { value: 'ORTHOGONAL', label: 'Orthogonal (90° angles)' },
-    { value: 'POLYLINE', label: 'Polyline (straight segments)' },
-    { value: 'SPLINES', label: 'Splines (curved)' },
+  easingOptions = [
+    { value: 'ease-in-out', label: 'Ease In Out' },
+    { value: 'ease-out', label: 'Ease Out' },
+    { value: 'linear', label: 'Linear' },
   ] as const;
 
-  nodePlacementOptions = [
-    { value: 'NETWORK_SIMPLEX', label: 'Network Simplex' },
-    { value: 'BRANDES_KOEPF', label: 'Brandes Koepf' },
-    { value: 'LINEAR_SEGMENTS', label: 'Linear Segments' },
-  ] as const;
+  onUndoClick(): void {
+    this.undo.emit();
+  }
+
+  onRedoClick(): void {
+    this.redo.emit();
+  }
+
+  onAddNodeClick(): void {
+    this.addNode.emit();
+  }
+
+  onAddGroupClick(): void {
+    this.addGroup.emit();
+  }
+
+  onDeleteClick(): void {
+    this.deleteSelection.emit();
+  }
+
+  onAutoLayoutChange(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    this.autoLayoutChange.emit(target.checked);
+  }
 
   onEnableGroupsChange(event: Event): void {
     const target = event.target as HTMLInputElement;
@@ -58,38 +119,121 @@ export class LayoutControlsComponent {
 
   onAlgorithmChange(event: Event): void {
     const target = event.target as HTMLSelectElement;
-    const algorithm = target.value as 'layered' | 'force' | 'stress' | 'mrtree';
+    const algorithm = target.value as LayoutConfig['algorithm'];
     this.configChange.emit({ algorithm });
   }
 
-  onDirectionChange(event: Event): void {
-    const target = event.target as HTMLSelectElement;
-    const direction = target.value as 'RIGHT' | 'DOWN' | 'LEFT' | 'UP';
-    this.configChange.emit({ direction });
+  onAnimationDurationChange(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    const duration = parseInt(target.value, 10);
+    this.animationChange.emit({ duration });
   }
 
-  onEdgeRoutingChange(event: Event): void {
+  onAnimationEasingChange(event: Event): void {
     const target = event.target as HTMLSelectElement;
-    const edgeRouting = target.value as 'ORTHOGONAL' | 'POLYLINE' | 'SPLINES';
-    this.configChange.emit({ edgeRouting });
+    const easing = target.value as LayoutEasing;
+    this.animationChange.emit({ easing });
   }
 
-  onNodePlacementChange(event: Event): void {
-    const target = event.target as HTMLSelectElement;
-    const nodePlacement = target.value as 'NETWORK_SIMPLEX' | 'BRANDES_KOEPF' | 'LINEAR_SEGMENTS';
-    this.configChange.emit({ nodePlacement });
+  /**
+   * Options of the chosen algorithm, from the option registry
+   */
+  get basicOptions(): readonly ElkOptionDefinition[] {
+    return getElkOptionDefinitions(this.config.algorithm).filter(
+      option => !option.advanced
+    );
+  }
+
+  get advancedOptions(): readonly ElkOptionDefinition[] {
+    return getElkOptionDefinitions(this.config.algorithm).filter(
+      option => option.advanced
+    );
+  }
+
+  /**
+   * Only force and stress lay out around pins; the other algorithms ignore
+   * them and pinned elements are moved back afterwards, possibly overlapping
+   */
+  get pinsRestoredAfterLayout(): boolean {
+    return (
+      this.config.algorithm !== 'force' && this.config.algorithm !== 'stress'
+    );
+  }
+
+  getOptionValue(option: ElkOptionDefinition): ElkOptionValue {
+    return getConfigOptionValue(this.config, option);
+  }
+
+  onOptionChange(option: ElkOptionDefinition, event: Event): void {
+    this.configChange.emit(this.getOptionChange(option, event));
+  }
+
+  onOptionInput(option: ElkOptionDefinition, event: Event): void {
+    this.configPreview.emit(this.getOptionChange(option, event));
+  }
+
+  onResetOptionsClick(): void {
+    const { [this.config.algorithm]: _, ...elkOptions } =
+      this.config.elkOptions ?? {};
+    this.configChange.emit({ elkOptions });
   }
 
-  onNodeSpacingChange(event: Event): void {
+  onUnpinAllClick(): void {
+    this.unpinAll.emit();
+  }
+
+  onCollapseAllClick(): void {
+    this.collapseAll.emit();
+  }
+
+  onExpandAllClick(): void {
+    this.expandAll.emit();
+  }
+
+  onImportFileChange(event: Event): void {
     const target = event.target as HTMLInputElement;
-    const nodeSpacing = parseInt(target.value, 10);
-    this.configChange.emit({ nodeSpacing });
+    const file = target.files?.[0];
+
+    if (file) {
+      this.importGraph.emit(file);
+    }
+
+    // Allow the same file to be picked again
+    target.value = '';
+  }
+
+  onExportClick(): void {
+    this.exportGraph.emit();
+  }
+
+  onExportSvgClick(): void {
+    this.exportSvg.emit();
+  }
+
+  onPngScaleChange(event: Event): void {
+    const target = event.target as HTMLSelectElement;
+    this.pngScale = parseInt(target.value, 10);
   }
 
-  onLayerSpacingChange(event: Event): void {
+  onExportPngClick(): void {
+    this.exportPng.emit(this.pngScale);
+  }
+
+  onCompareClick(): void {
+    this.compare.emit();
+  }
+
+  onResetDefaultsClick(): void {
+    this.resetDefaults.emit();
+  }
+
+  onCachePersistentChange(event: Event): void {
     const target = event.target as HTMLInputElement;
-    const layerSpacing = parseInt(target.value, 10);
-    this.configChange.emit({ layerSpacing });
+    this.cachePersistentChange.emit(target.checked);
+  }
+
+  onClearCacheClick(): void {
+    this.clearCache.emit();
   }
 
   onGroupPaddingChange(event: Event): void {
@@ -97,4 +241,29 @@ export class LayoutControlsComponent {
     const groupPadding = parseInt(target.value, 10);
     this.configChange.emit({ groupPadding });
   }
+
+  onGroupPaddingInput(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    const groupPadding = parseInt(target.value, 10);
+    this.configPreview.emit({ groupPadding });
+  }
+
+  /**
+   * Configuration change for the value of an option control
+   * @private
+   */
+  private getOptionChange(
+    option: ElkOptionDefinition,
+    event: Event
+  ): Partial<LayoutConfig> {
+    const target = event.target as HTMLInputElement | HTMLSelectElement;
+    const value =
+      option.type === 'number'
+        ? Number(target.value)
+        : option.type === 'boolean'
+          ? (target as HTMLInputElement).checked
+          : target.value;
+
+    return setConfigOptionValue(this.config, option, value);
+  }
 }
\ No newline at end of file
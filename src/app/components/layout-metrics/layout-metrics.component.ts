@@ -0,0 +1,84 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ILayoutMetrics } from '../../models/layout-metrics.interface';
+
+type ComparedMetric = Exclude<keyof ILayoutMetrics, 'boundingBox'>;
+
+// Decimals shown for differences, matching the precision of the values
+const DELTA_DIGITS: Record<ComparedMetric, number> = {
+  edgeCrossings: 0,
+  totalEdgeLength: 0,
+  averageEdgeLength: 0,
+  bendCount: 0,
+  nodeOverlaps: 0,
+  nodeEdgeOverlaps: 0,
+  area: 2,
+  aspectRatio: 2,
+  layoutTime: 0,
+};
+
+@Component({
+  selector: 'app-layout-metrics',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './layout-metrics.component.html',
+  styleUrl: './layout-metrics.component.scss',
+})
+export class LayoutMetricsComponent {
+  @Input() metrics: ILayoutMetrics | null = null;
+  // Metrics of another layout, differences to it are shown next to each value
+  @Input() baseline: ILayoutMetrics | null = null;
+  @Input() title = 'Layout Metrics';
+
+  /**
+   * Signed difference to the baseline, e.g. "+3", empty without a difference
+   */
+  getDelta(key: ComparedMetric): string {
+    const delta = this.getDifference(key);
+    const value =
+      key === 'area'
+        ? delta / 1000000 // shown in Mpx² like the value
+        : delta;
+    const text = Math.abs(value).toFixed(DELTA_DIGITS[key]);
+
+    if (!Number(text)) {
+      return '';
+    }
+
+    return `${value > 0 ? '+' : '−'}${text}`;
+  }
+
+  /**
+   * Whether this layout does better than the baseline on a metric
+   * Lower is better, except the aspect ratio which is best close to 1
+   */
+  isBetter(key: ComparedMetric): boolean {
+    if (key === 'aspectRatio') {
+      return (
+        this.getDistortion(this.metrics) < this.getDistortion(this.baseline)
+      );
+    }
+
+    return this.getDifference(key) < 0;
+  }
+
+  /**
+   * Value minus the baseline value, 0 without a baseline
+   * @private
+   */
+  private getDifference(key: ComparedMetric): number {
+    if (!this.metrics || !this.baseline) {
+      return 0;
+    }
+
+    return this.metrics[key] - this.baseline[key];
+  }
+
+  /**
+   * How far the aspect ratio is from a square, the same for 1:2 and 2:1
+   * @private
+   */
+  private getDistortion(metrics: ILayoutMetrics | null): number {
+    return metrics?.aspectRatio ? Math.abs(Math.log(metrics.aspectRatio)) : 0;
+  }
+}
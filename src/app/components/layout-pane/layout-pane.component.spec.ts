@@ -0,0 +1,141 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FCanvasChangeEvent } from '@foblex/flow';
+import { LayoutPaneComponent } from './layout-pane.component';
+import {
+  ElkLayoutService,
+  LayoutCancelledError,
+} from '../../services/elk-layout.service';
+import { ILayoutInput, ILayoutOutput } from '../../models/graph.interface';
+import { ILayoutMetrics } from '../../models/layout-metrics.interface';
+import {
+  DEFAULT_LAYOUT_CONFIG,
+  LayoutConfig,
+} from '../../models/layout-config.interface';
+import { getElkLayoutOptions } from '../../utils/layout-options';
+
+describe('LayoutPaneComponent', () => {
+  let fixture: ComponentFixture<LayoutPaneComponent>;
+  let elkLayoutService: jasmine.SpyObj<ElkLayoutService>;
+  let metrics: ILayoutMetrics[];
+
+  const input: ILayoutInput = {
+    groups: [],
+    nodes: [
+      { id: 'a', label: 'A', size: { width: 100, height: 50 }, parentId: null },
+    ],
+    edges: [],
+    enableGroups: false,
+  };
+  const output: ILayoutOutput = {
+    groups: [],
+    nodes: [{ ...input.nodes[0], position: { x: 10, y: 20 } }],
+    edges: [],
+  };
+  const config: LayoutConfig = { ...DEFAULT_LAYOUT_CONFIG, algorithm: 'force' };
+
+  // Lets the layout promise settle and renders the result
+  const settle = async () => {
+    await fixture.whenStable();
+    fixture.detectChanges();
+  };
+
+  // Renders the pane with a layout run that ends with the result or error
+  const create = (result: ILayoutOutput | Error) => {
+    if (result instanceof Error) {
+      elkLayoutService.calculateLayout.and.rejectWith(result);
+    } else {
+      elkLayoutService.calculateLayout.and.resolveTo(result);
+    }
+
+    fixture = TestBed.createComponent(LayoutPaneComponent);
+    fixture.componentRef.setInput('input', input);
+    fixture.componentRef.setInput('config', config);
+    fixture.componentInstance.metricsChange.subscribe(value =>
+      metrics.push(value)
+    );
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    metrics = [];
+    elkLayoutService = jasmine.createSpyObj<ElkLayoutService>(
+      'ElkLayoutService',
+      ['calculateLayout']
+    );
+
+    TestBed.configureTestingModule({
+      imports: [LayoutPaneComponent],
+    }).overrideProvider(ElkLayoutService, { useValue: elkLayoutService });
+  });
+
+  it('should lay the graph out with its own configuration', async () => {
+    create(output);
+    await settle();
+
+    expect(elkLayoutService.calculateLayout).toHaveBeenCalledOnceWith(
+      input,
+      getElkLayoutOptions(config)
+    );
+    expect(fixture.componentInstance.layout()).toBe(output);
+    expect(fixture.nativeElement.textContent).toContain('A');
+  });
+
+  it('should report the metrics of each layout', async () => {
+    create(output);
+    await settle();
+
+    expect(metrics.length).toBe(1);
+    expect(metrics[0].edgeCrossings).toBe(0);
+  });
+
+  it('should lay the graph out again when its configuration changes', async () => {
+    create(output);
+    await settle();
+    fixture.componentRef.setInput('config', { ...config, nodeSpacing: 20 });
+    fixture.detectChanges();
+    await settle();
+
+    expect(elkLayoutService.calculateLayout).toHaveBeenCalledTimes(2);
+    expect(metrics.length).toBe(2);
+  });
+
+  it('should show why a layout failed', async () => {
+    spyOn(console, 'error');
+    create(new Error('broken graph'));
+    await settle();
+
+    expect(fixture.componentInstance.layoutError()).toBe(
+      'Layout calculation failed: broken graph'
+    );
+    expect(
+      fixture.nativeElement.querySelector('.layout-error').textContent
+    ).toContain('broken graph');
+    expect(metrics).toEqual([]);
+  });
+
+  it('should ignore layouts superseded by a newer one', async () => {
+    create(new LayoutCancelledError());
+    await settle();
+
+    expect(fixture.componentInstance.layoutError()).toBeNull();
+    expect(metrics).toEqual([]);
+  });
+
+  it('should move and zoom its canvas without announcing it', async () => {
+    create(output);
+    await settle();
+    const changes: FCanvasChangeEvent[] = [];
+    fixture.componentInstance.viewportChange.subscribe(event =>
+      changes.push(event)
+    );
+
+    fixture.componentInstance.setViewport(
+      new FCanvasChangeEvent({ x: 30, y: 40 }, 0.5)
+    );
+
+    const viewport = fixture.componentInstance.getViewport();
+    expect(viewport.position).toEqual({ x: 30, y: 40 });
+    expect(viewport.scale).toBe(0.5);
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  afterNextRender,
+  Component,
+  EventEmitter,
+  inject,
+  Injector,
+  Input,
+  OnChanges,
+  Output,
+  signal,
+  SimpleChanges,
+  ViewChild,
+} from '@angular/core';
+import {
+  EFConnectableSide,
+  FCanvasChangeEvent,
+  FCanvasComponent,
+  FFlowModule,
+  F_CONNECTION_BUILDERS,
+} from '@foblex/flow';
+import { PointExtensions } from '@foblex/2d';
+import {
+  ILayoutInput,
+  ILayoutOutput,
+  PortSide,
+} from '../../models/graph.interface';
+import { ILayoutMetrics } from '../../models/layout-metrics.interface';
+import {
+  ElkLayoutService,
+  LayoutCancelledError,
+} from '../../services/elk-layout.service';
+import { LayoutMetricsService } from '../../services/layout-metrics.service';
+import {
+  ELK_ROUTE_CONNECTION_TYPE,
+  ElkRouteConnectionBuilder,
+} from '../../builders/elk-route-connection.builder';
+import { getElkLayoutOptions } from '../../utils/layout-options';
+import { LayoutConfig } from '../../models/layout-config.interface';
+
+/**
+ * Read-only canvas showing one layout of a graph
+ * Each pane has its own layout worker and routes, so panes lay out in parallel
+ * without cancelling each other
+ */
+@Component({
+  selector: 'app-layout-pane',
+  standalone: true,
+  imports: [FFlowModule],
+  templateUrl: './layout-pane.component.html',
+  styleUrl: './layout-pane.component.scss',
+  providers: [
+    ElkLayoutService,
+    ElkRouteConnectionBuilder,
+    {
+      provide: F_CONNECTION_BUILDERS,
+      useFactory: () => ({
+        [ELK_ROUTE_CONNECTION_TYPE]: inject(ElkRouteConnectionBuilder),
+      }),
+    },
+  ],
+})
+export class LayoutPaneComponent implements OnChanges {
+  private readonly elkLayoutService = inject(ElkLayoutService);
+  private readonly elkRouteBuilder = inject(ElkRouteConnectionBuilder);
+  private readonly layoutMetricsService = inject(LayoutMetricsService);
+  private readonly injector = inject(Injector);
+
+  @Input() input!: ILayoutInput;
+  @Input() config!: LayoutConfig;
+  // Fit each new layout to the pane, off when the viewport follows another pane
+  @Input() fitOnLayout = true;
+  @Output() metricsChange = new EventEmitter<ILayoutMetrics>();
+  @Output() viewportChange = new EventEmitter<FCanvasChangeEvent>();
+
+  @ViewChild(FCanvasComponent, { static: true })
+  public fCanvas!: FCanvasComponent;
+
+  protected readonly elkRouteConnectionType = ELK_ROUTE_CONNECTION_TYPE;
+  protected readonly portConnectableSide: Record<PortSide, EFConnectableSide> =
+    {
+      NORTH: EFConnectableSide.TOP,
+      EAST: EFConnectableSide.RIGHT,
+      SOUTH: EFConnectableSide.BOTTOM,
+      WEST: EFConnectableSide.LEFT,
+    };
+
+  public layout = signal<ILayoutOutput>({ groups: [], nodes: [], edges: [] });
+  public layoutError = signal<string | null>(null);
+
+  public ngOnChanges(changes: SimpleChanges): void {
+    if (changes['input'] || changes['config']) {
+      this.elkLayout();
+    }
+  }
+
+  /**
+   * Current position and scale of the canvas
+   */
+  public getViewport(): FCanvasChangeEvent {
+    const { position, scaledPosition, scale } = this.fCanvas.transform;
+
+    return new FCanvasChangeEvent(
+      PointExtensions.sum(position, scaledPosition),
+      scale
+    );
+  }
+
+  /**
+   * Moves and zooms the canvas, e.g. to follow another pane
+   * No change event is emitted, so linked panes don't echo each other
+   */
+  public setViewport({ position, scale }: FCanvasChangeEvent): void {
+    this.fCanvas.transform.scale = scale;
+    this.fCanvas.transform.scaledPosition = PointExtensions.initialize();
+    this.fCanvas.setPosition(position);
+    this.fCanvas.redraw();
+  }
+
+  public onCanvasChange(event: FCanvasChangeEvent): void {
+    this.viewportChange.emit(event);
+  }
+
+  /**
+   * Lays the graph out with the pane's configuration and measures the result
+   * @private
+   */
+  private async elkLayout(): Promise<void> {
+    try {
+      const startedAt = performance.now();
+      const layoutResult = await this.elkLayoutService.calculateLayout(
+        this.input,
+        getElkLayoutOptions(this.config)
+      );
+
+      this.metricsChange.emit(
+        this.layoutMetricsService.measure(
+          layoutResult,
+          performance.now() - startedAt
+        )
+      );
+
+      // Routes must be known before connections are drawn
+      this.elkRouteBuilder.setLayout(layoutResult);
+      this.layout.set(layoutResult);
+      this.layoutError.set(null);
+
+      // Fitted once the new layout is on screen, its size is unknown before
+      if (this.fitOnLayout) {
+        afterNextRender(
+          () =>
+            this.fCanvas.fitToScreen(PointExtensions.initialize(40, 40), false),
+          { injector: this.injector }
+        );
+      }
+    } catch (error) {
+      // A newer layout run superseded this one, its result is applied instead
+      if (error instanceof LayoutCancelledError) {
+        return;
+      }
+
+      console.error('Layout calculation failed:', error);
+      this.layoutError.set(
+        `Layout calculation failed: ${(error as Error).message}`
+      );
+    }
+  }
+}
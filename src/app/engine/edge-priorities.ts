@@ -0,0 +1,25 @@
+import { EdgeKind, IEdge, IEdgePriorities } from '../models/graph.interface';
+
+/**
+ * Layered priorities of each edge kind: data edges stay straight and short,
+ * dependencies bend around them
+ */
+export const EDGE_KIND_PRIORITIES: Record<EdgeKind, IEdgePriorities> = {
+  data: { direction: 10, straightness: 10, shortness: 10 },
+  control: { direction: 2, straightness: 2, shortness: 2 },
+  dependency: { direction: 0, straightness: 0, shortness: 0 },
+};
+
+/**
+ * Layered priorities of an edge, its weight and priority win over its kind's
+ * @returns Undefined priorities for edges without kind, weight or priority
+ */
+export function getEdgePriorities(edge: IEdge): Partial<IEdgePriorities> {
+  const defaults = edge.kind ? EDGE_KIND_PRIORITIES[edge.kind] : undefined;
+
+  return {
+    direction: edge.priority ?? defaults?.direction,
+    straightness: edge.priority ?? defaults?.straightness,
+    shortness: edge.weight ?? defaults?.shortness,
+  };
+}
@@ -0,0 +1,605 @@
+import ELK from 'elkjs/lib/elk.bundled.js';
+import {
+  ELK_PORT_SIZE,
+  ElkLayoutEngine,
+  IElkLayoutGroup,
+  IElkLayoutNode,
+} from './elk-layout.engine';
+import {
+  IEdge,
+  IElkLayoutOptions,
+  IGroup,
+  ILayoutInput,
+  ILayoutOutput,
+  INode,
+  IPort,
+  PortSide,
+} from '../models/graph.interface';
+
+describe('ElkLayoutEngine', () => {
+  let engine: ElkLayoutEngine;
+
+  const group = (
+    id: string,
+    parentId: string | null,
+    fields: Partial<IGroup> = {}
+  ): IGroup => ({
+    id,
+    size: { width: 200, height: 200 },
+    parentId,
+    ...fields,
+  });
+  const node = (
+    id: string,
+    parentId: string | null,
+    fields: Partial<INode> = {}
+  ): INode => ({
+    id,
+    size: { width: 100, height: 50 },
+    parentId,
+    ...fields,
+  });
+  const edge = (
+    id: string,
+    source: string,
+    target: string,
+    fields: Partial<IEdge> = {}
+  ): IEdge => ({
+    id,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+    ...fields,
+  });
+  const layout = (
+    input: ILayoutInput,
+    options?: Partial<IElkLayoutOptions>
+  ): Promise<ILayoutOutput> =>
+    engine.calculateLayout(new ELK(), input, options);
+
+  // Whether an element lies within a group, both in absolute coordinates
+  const isInside = (element: INode | IGroup, parent: IGroup): boolean =>
+    element.position!.x >= parent.position!.x &&
+    element.position!.y >= parent.position!.y &&
+    element.position!.x + element.size.width <=
+      parent.position!.x + parent.size.width &&
+    element.position!.y + element.size.height <=
+      parent.position!.y + parent.size.height;
+
+  // system → subsystem → component, with edges within and across levels
+  const nested: ILayoutInput = {
+    groups: [group('system', null), group('subsystem', 'system')],
+    nodes: [
+      node('component', 'subsystem'),
+      node('helper', 'subsystem'),
+      node('service', 'system'),
+      node('client', null),
+    ],
+    edges: [
+      edge('e1', 'component', 'helper'),
+      edge('e2', 'helper', 'service'),
+      edge('e3', 'client', 'component'),
+    ],
+    enableGroups: true,
+  };
+
+  // A switch with two inputs on its west side and outputs on the east and
+  // south sides, wired to a source and two sinks
+  const port = (id: string, side: PortSide, order: number): IPort => ({
+    id,
+    side,
+    order,
+  });
+  const ported: ILayoutInput = {
+    groups: [],
+    nodes: [
+      node('source', null),
+      node('switch', null, {
+        size: { width: 120, height: 80 },
+        inputs: [port('in1', 'WEST', 0), port('in2', 'WEST', 1)],
+        outputs: [
+          port('out1', 'EAST', 0),
+          port('out2', 'SOUTH', 0),
+          port('out3', 'SOUTH', 1),
+        ],
+      }),
+      node('sink1', null),
+      node('sink2', null),
+    ],
+    edges: [
+      edge('e1', 'source', 'switch', { targetHandle: 'in1' }),
+      edge('e2', 'source', 'switch', { targetHandle: 'in2' }),
+      edge('e3', 'switch', 'sink1', { sourceHandle: 'out1' }),
+      edge('e4', 'switch', 'sink2', { sourceHandle: 'out3' }),
+    ],
+    enableGroups: false,
+  };
+
+  beforeEach(() => {
+    engine = new ElkLayoutEngine();
+  });
+
+  describe('nested groups', () => {
+    it('should nest groups to any depth in the ELK graph', () => {
+      const graph = engine.buildElkGraph(nested, engine.resolveOptions());
+      const system = graph.children.find(
+        child => child.id === 'system'
+      ) as IElkLayoutGroup;
+      const subsystem = system.children.find(
+        child => child.id === 'subsystem'
+      ) as IElkLayoutGroup;
+
+      expect(graph.children.map(({ id }) => id)).toEqual(['system', 'client']);
+      expect(system.children.map(({ id }) => id)).toEqual([
+        'subsystem',
+        'service',
+      ]);
+      expect(subsystem.children.map(({ id }) => id)).toEqual([
+        'component',
+        'helper',
+      ]);
+    });
+
+    it('should add the offsets of all enclosing groups', () => {
+      const original = (id: string) =>
+        [...nested.groups, ...nested.nodes].find(element => element.id === id);
+      const result = {
+        id: 'root',
+        children: [
+          {
+            id: 'system',
+            x: 10,
+            y: 20,
+            width: 400,
+            height: 300,
+            type: 'group',
+            original: original('system'),
+            children: [
+              {
+                id: 'subsystem',
+                x: 30,
+                y: 40,
+                width: 200,
+                height: 150,
+                type: 'group',
+                original: original('subsystem'),
+                children: [
+                  {
+                    id: 'component',
+                    x: 5,
+                    y: 6,
+                    original: original('component'),
+                  },
+                ],
+                edges: [
+                  {
+                    id: 'e1',
+                    original: nested.edges[0],
+                    sections: [
+                      { startPoint: { x: 1, y: 2 }, endPoint: { x: 3, y: 4 } },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const output = engine.extractLayoutResults(
+        result,
+        engine.resolveOptions()
+      );
+
+      expect(output.groups.map(({ position }) => position)).toEqual([
+        { x: 10, y: 20 },
+        { x: 40, y: 60 },
+      ]);
+      expect(output.nodes[0].position).toEqual({ x: 45, y: 66 });
+      expect(output.edges[0].route?.points).toEqual([
+        { x: 41, y: 62 },
+        { x: 43, y: 64 },
+      ]);
+    });
+
+    for (const algorithm of ['layered', 'force'] as const) {
+      it(`should place every element inside its group with ${algorithm}`, async () => {
+        const output = await layout(nested, { algorithm });
+        const groups = new Map(output.groups.map(g => [g.id, g]));
+
+        [...output.groups, ...output.nodes]
+          .filter(element => element.parentId)
+          .forEach(element =>
+            expect(isInside(element, groups.get(element.parentId!)!))
+              .withContext(element.id)
+              .toBeTrue()
+          );
+      });
+    }
+
+    it('should lay nested nodes out at root level when groups are off', () => {
+      const graph = engine.buildElkGraph(
+        { ...nested, enableGroups: false },
+        engine.resolveOptions({ algorithm: 'force' })
+      );
+
+      expect(graph.children.map(({ id }) => id)).toEqual([
+        'component',
+        'helper',
+        'service',
+        'client',
+      ]);
+    });
+  });
+
+  describe('ports', () => {
+    const buildSwitch = () =>
+      engine
+        .buildElkGraph(ported, engine.resolveOptions())
+        .children.find(child => child.id === 'switch') as IElkLayoutNode;
+
+    it('should hand ports to ELK on their sides in clockwise order', () => {
+      const elkSwitch = buildSwitch();
+
+      expect(elkSwitch.layoutOptions['elk.portConstraints']).toBe(
+        'FIXED_ORDER'
+      );
+      expect(
+        elkSwitch.ports!.map(({ id, layoutOptions }) => [
+          id,
+          layoutOptions['elk.port.side'],
+          layoutOptions['elk.port.index'],
+        ])
+      ).toEqual([
+        ['out1', 'EAST', '0'],
+        ['out3', 'SOUTH', '1'],
+        ['out2', 'SOUTH', '2'],
+        ['in2', 'WEST', '3'],
+        ['in1', 'WEST', '4'],
+      ]);
+    });
+
+    it('should connect edges to the ports their handles reference', () => {
+      const graph = engine.buildElkGraph(ported, engine.resolveOptions());
+
+      expect(
+        graph.edges.map(({ sources, targets }) => [sources[0], targets[0]])
+      ).toEqual([
+        ['source', 'in1'],
+        ['source', 'in2'],
+        ['out1', 'sink1'],
+        ['out3', 'sink2'],
+      ]);
+    });
+
+    it('should read back port positions on the declared sides', async () => {
+      const output = await layout(ported);
+      const laidOut = output.nodes.find(({ id }) => id === 'switch')!;
+      const { width, height } = laidOut.size;
+      const position = (ports: IPort[] | undefined, id: string) =>
+        ports!.find(port => port.id === id)!.position!;
+
+      expect(position(laidOut.inputs, 'in1').x).toBe(-ELK_PORT_SIZE);
+      expect(position(laidOut.inputs, 'in2').x).toBe(-ELK_PORT_SIZE);
+      expect(position(laidOut.inputs, 'in1').y).toBeLessThan(
+        position(laidOut.inputs, 'in2').y
+      );
+      expect(position(laidOut.outputs, 'out1').x).toBe(width);
+      expect(position(laidOut.outputs, 'out2').y).toBe(height);
+      expect(position(laidOut.outputs, 'out2').x).toBeLessThan(
+        position(laidOut.outputs, 'out3').x
+      );
+    });
+  });
+
+  describe('pins', () => {
+    const pinned: ILayoutInput = {
+      groups: [
+        group('g', null, { pinned: true, position: { x: 600, y: 400 } }),
+      ],
+      nodes: [
+        node('a', null, { pinned: true, position: { x: 400, y: 300 } }),
+        node('b', null),
+        node('c', 'g'),
+        node('d', 'g', { pinned: true, position: { x: 650, y: 450 } }),
+      ],
+      edges: [edge('e1', 'a', 'b'), edge('e2', 'b', 'c'), edge('e3', 'c', 'd')],
+      enableGroups: true,
+    };
+
+    it('should hand root-level pins to ELK as fixed start positions', () => {
+      const graph = engine.buildElkGraph(
+        pinned,
+        engine.resolveOptions({ algorithm: 'stress' })
+      );
+      const a = graph.children.find(({ id }) => id === 'a') as IElkLayoutNode;
+      const g = graph.children.find(({ id }) => id === 'g') as IElkLayoutGroup;
+      const d = g.children.find(({ id }) => id === 'd') as IElkLayoutNode;
+
+      expect([a.x, a.y]).toEqual([400, 300]);
+      expect(a.layoutOptions['elk.stress.fixed']).toBe('true');
+      expect([g.x, g.y]).toEqual([600, 400]);
+      // Nested pins are only enforced on the result
+      expect(d.layoutOptions?.['elk.stress.fixed']).toBeUndefined();
+    });
+
+    for (const algorithm of ['force', 'stress'] as const) {
+      it(`should keep pinned elements in place with ${algorithm}`, async () => {
+        const output = await layout(pinned, { algorithm });
+        const position = (id: string) =>
+          [...output.groups, ...output.nodes].find(
+            element => element.id === id
+          )!.position;
+
+        expect(position('a')).toEqual({ x: 400, y: 300 });
+        expect(position('g')).toEqual({ x: 600, y: 400 });
+        expect(position('d')).toEqual({ x: 650, y: 450 });
+      });
+    }
+
+    it('should move the content of a pinned group along', async () => {
+      const output = await layout(pinned, { algorithm: 'force' });
+      const g = output.groups[0];
+
+      output.nodes
+        .filter(({ parentId }) => parentId === 'g')
+        .forEach(child =>
+          expect(isInside(child, g)).withContext(child.id).toBeTrue()
+        );
+    });
+
+    it('should move routes along with their pinned ends or reroute them', () => {
+      const laidOut: ILayoutOutput = {
+        groups: [group('g', null, { position: { x: 0, y: 0 } })],
+        nodes: [
+          node('a', null, { position: { x: 0, y: 300 } }),
+          node('b', null, { position: { x: 300, y: 300 } }),
+          node('c', 'g', { position: { x: 20, y: 20 } }),
+          node('d', 'g', { position: { x: 20, y: 120 } }),
+        ],
+        edges: [
+          edge('e1', 'a', 'b', {
+            route: {
+              points: [
+                { x: 100, y: 325 },
+                { x: 300, y: 325 },
+              ],
+              curved: false,
+            },
+          }),
+          edge('e3', 'c', 'd', {
+            route: {
+              points: [
+                { x: 70, y: 70 },
+                { x: 70, y: 120 },
+              ],
+              curved: false,
+            },
+          }),
+        ],
+      };
+      // a is pinned to the top left corner, g and its content 100px further
+      const input: ILayoutInput = {
+        groups: [
+          group('g', null, { pinned: true, position: { x: 100, y: 100 } }),
+        ],
+        nodes: [
+          node('a', null, { pinned: true, position: { x: 0, y: 0 } }),
+          node('b', null),
+          node('c', 'g'),
+          node('d', 'g'),
+        ],
+        edges: laidOut.edges,
+        enableGroups: true,
+      };
+
+      const output = engine.applyPinnedPositions(
+        input,
+        laidOut,
+        engine.resolveOptions({ algorithm: 'force' })
+      );
+
+      // c and d moved with their group, their edge along with them
+      expect(output.edges[1].route?.points).toEqual([
+        { x: 170, y: 170 },
+        { x: 170, y: 220 },
+      ]);
+      // a moved away from b, its edge runs straight from a to b again
+      expect(output.edges[0].route?.points).toEqual([
+        { x: 100, y: 25 },
+        { x: 300, y: 325 },
+      ]);
+    });
+  });
+
+  describe('layout overrides', () => {
+    // platform holds services, which has its own layout and holds workers,
+    // and storage, which follows the global layout
+    const overridden: ILayoutInput = {
+      groups: [
+        group('platform', null),
+        group('services', 'platform', {
+          layoutOverrides: {
+            algorithm: 'mrtree',
+            direction: 'UP',
+            nodeSpacing: 40,
+          },
+        }),
+        group('workers', 'services'),
+        group('storage', 'platform'),
+      ],
+      nodes: [
+        node('api', 'services'),
+        node('worker', 'workers'),
+        node('queue', 'workers'),
+        node('database', 'storage'),
+        node('cache', 'storage'),
+      ],
+      edges: [
+        edge('e1', 'api', 'worker'),
+        edge('e2', 'worker', 'queue'),
+        edge('e3', 'database', 'cache'),
+      ],
+      enableGroups: true,
+    };
+
+    // Finds a group at any depth of the ELK graph
+    const findGroup = (
+      children: (IElkLayoutNode | IElkLayoutGroup)[],
+      id: string
+    ): IElkLayoutGroup | undefined => {
+      for (const child of children) {
+        if (child.id === id) {
+          return child as IElkLayoutGroup;
+        }
+
+        const found =
+          'children' in child ? findGroup(child.children, id) : undefined;
+
+        if (found) {
+          return found;
+        }
+      }
+
+      return undefined;
+    };
+    const buildGroupOptions = (algorithm: 'layered' | 'force', id: string) =>
+      findGroup(
+        engine.buildElkGraph(
+          overridden,
+          engine.resolveOptions({
+            algorithm,
+            elkOptions: { 'elk.layered.thoroughness': 20 },
+          })
+        ).children,
+        id
+      )!.layoutOptions;
+
+    for (const algorithm of ['layered', 'force'] as const) {
+      describe(`with ${algorithm}`, () => {
+        it('should lay the overridden group out on its own', () => {
+          expect(buildGroupOptions(algorithm, 'services')).toEqual(
+            jasmine.objectContaining({
+              'elk.algorithm': 'mrtree',
+              'elk.direction': 'UP',
+              'elk.spacing.nodeNode': '40',
+              'elk.hierarchyHandling': 'SEPARATE_CHILDREN',
+            })
+          );
+        });
+
+        it('should hand the overrides down to sub-groups', () => {
+          expect(buildGroupOptions(algorithm, 'workers')).toEqual(
+            jasmine.objectContaining({
+              'elk.algorithm': 'mrtree',
+              'elk.direction': 'UP',
+              'elk.spacing.nodeNode': '40',
+              'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+            })
+          );
+        });
+
+        it('should leave sibling and enclosing groups alone', () => {
+          for (const id of ['platform', 'storage']) {
+            const options = buildGroupOptions(algorithm, id);
+
+            expect(options['elk.hierarchyHandling'])
+              .withContext(id)
+              .toBe('INCLUDE_CHILDREN');
+            expect(options['elk.algorithm']).withContext(id).not.toBe('mrtree');
+            expect(options['elk.direction']).withContext(id).not.toBe('UP');
+          }
+        });
+      });
+    }
+
+    it('should drop options tuned for the global algorithm', () => {
+      expect(
+        buildGroupOptions('force', 'services')['elk.layered.thoroughness']
+      ).toBeUndefined();
+    });
+
+    it('should keep the content of the overridden group inside it', async () => {
+      const output = await layout(overridden);
+      const groups = new Map(output.groups.map(g => [g.id, g]));
+
+      [...output.groups, ...output.nodes]
+        .filter(element => element.parentId)
+        .forEach(element =>
+          expect(isInside(element, groups.get(element.parentId!)!))
+            .withContext(element.id)
+            .toBeTrue()
+        );
+    });
+  });
+
+  describe('edge priorities', () => {
+    // Layout options ELK gets for each edge, by edge id
+    const buildEdgeOptions = (...edges: IEdge[]) =>
+      Object.fromEntries(
+        engine
+          .buildElkGraph(
+            {
+              groups: [],
+              nodes: [node('a', null), node('b', null)],
+              edges,
+              enableGroups: false,
+            },
+            engine.resolveOptions()
+          )
+          .edges.map(({ id, layoutOptions }) => [id, layoutOptions])
+      );
+    const priorities = (
+      direction: string,
+      straightness: string,
+      shortness: string
+    ) => ({
+      'elk.layered.priority.direction': direction,
+      'elk.layered.priority.straightness': straightness,
+      'elk.layered.priority.shortness': shortness,
+    });
+
+    it('should give each edge kind its priorities', () => {
+      expect(
+        buildEdgeOptions(
+          edge('data', 'a', 'b', { kind: 'data' }),
+          edge('control', 'a', 'b', { kind: 'control' }),
+          edge('dependency', 'a', 'b', { kind: 'dependency' })
+        )
+      ).toEqual({
+        data: priorities('10', '10', '10'),
+        control: priorities('2', '2', '2'),
+        dependency: priorities('0', '0', '0'),
+      });
+    });
+
+    it('should let weight and priority win over the kind', () => {
+      const { e } = buildEdgeOptions(
+        edge('e', 'a', 'b', { kind: 'data', priority: 4, weight: 1 })
+      );
+
+      expect(e).toEqual(priorities('4', '4', '1'));
+    });
+
+    it('should hand ELK whole, non-negative priorities', () => {
+      const { e } = buildEdgeOptions(
+        edge('e', 'a', 'b', { priority: -3, weight: 2.6 })
+      );
+
+      expect(e).toEqual(priorities('0', '0', '3'));
+    });
+
+    it('should set only the priorities given for edges without a kind', () => {
+      expect(
+        buildEdgeOptions(
+          edge('plain', 'a', 'b'),
+          edge('weighted', 'a', 'b', { weight: 5 })
+        )
+      ).toEqual({
+        plain: undefined,
+        weighted: { 'elk.layered.priority.shortness': '5' },
+      });
+    });
+  });
+});
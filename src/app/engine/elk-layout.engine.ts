@@ -0,0 +1,1544 @@
+import { IPoint, PointExtensions } from '@foblex/2d';
+import { ELK as ElkApi, ElkNode } from 'elkjs/lib/elk-api.js';
+import {
+  IEdge,
+  IEdgeRoute,
+  IElkLayoutOptions,
+  IGroup,
+  IGroupLayoutOverrides,
+  ILabelLayout,
+  ILayoutInput,
+  ILayoutOutput,
+  INode,
+  IPort,
+  PortSide,
+} from '../models/graph.interface';
+import { resolveElkOptions } from '../registry/elk-option.registry';
+import { getRouteCenter } from '../utils/route-path';
+import { measureText } from '../utils/text-measure';
+import { GraphValidationError, GraphValidator } from './graph-validator';
+import { getEdgePriorities } from './edge-priorities';
+import { collapseGroups } from './group-collapse';
+
+type GroupOrNode = 'group' | 'node';
+
+// End of a route computed without ELK, leaving its node along `direction`
+interface IRouteEnd {
+  point: IPoint;
+  direction: IPoint; // unit vector along an axis
+}
+
+/**
+ * Width and height (px) of every port handed to ELK
+ */
+export const ELK_PORT_SIZE = 8;
+
+// Clockwise order of sides used to derive ELK port indices
+const PORT_SIDE_ORDER: PortSide[] = ['NORTH', 'EAST', 'SOUTH', 'WEST'];
+
+// Node labels are centered, group labels sit in the top left corner
+const NODE_LABEL_PLACEMENT = 'INSIDE V_CENTER H_CENTER';
+const GROUP_LABEL_PLACEMENT = 'INSIDE V_TOP H_LEFT';
+
+export interface IElkLayout {
+  id: string;
+  layoutOptions: any;
+  children: (IElkLayoutNode | IElkLayoutGroup)[];
+  edges: IElkLayoutEdge[];
+  detachedEdges?: IElkLayoutEdge[]; // left out of the layout run, returned unrouted
+}
+
+export interface IElkLayoutGroup {
+  id: string;
+  height: number; // elk.js calculated height
+  width: number; // elk.js calculated width
+  x: number; // elk.js calculated x position
+  y: number; // elk.js calculated y position
+  original: IGroup;
+  layoutOptions: any;
+  children: (IElkLayoutNode | IElkLayoutGroup)[];
+  edges: IElkLayoutEdge[];
+  type: GroupOrNode;
+  labels?: IElkLayoutLabel[];
+}
+
+export interface IElkLayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  x: number; // elk.js calculated x position
+  y: number; // elk.js calculated y position
+  original: INode;
+  type: GroupOrNode;
+  ports?: IElkLayoutPort[];
+  labels?: IElkLayoutLabel[];
+  layoutOptions?: any;
+}
+
+export interface IElkLayoutPort {
+  id: string;
+  width: number;
+  height: number;
+  x: number; // elk.js calculated x position, relative to the node
+  y: number; // elk.js calculated y position, relative to the node
+  original: IPort;
+  layoutOptions: any;
+}
+
+export interface IElkLayoutEdge {
+  id: string;
+  sources: string[];
+  targets: string[];
+  original?: IEdge; // missing on edges that only exist for the layout
+  labels?: IElkLayoutLabel[];
+  detached?: boolean; // attached to a group laid out on its own, left unrouted
+  reversed?: boolean; // handed to ELK from target to source
+  layoutOptions?: any;
+}
+
+export interface IElkLayoutLabel {
+  id: string;
+  text: string;
+  width: number; // measured text width
+  height: number; // measured text height
+  x?: number; // elk.js calculated x position
+  y?: number; // elk.js calculated y position
+}
+
+/**
+ * Layout options used where the caller sets none
+ */
+export const DEFAULT_ELK_LAYOUT_OPTIONS: IElkLayoutOptions = {
+  algorithm: 'layered',
+  direction: 'RIGHT',
+  spacing: {
+    nodeNode: 80,
+    nodeNodeBetweenLayers: 80,
+    componentComponent: 100,
+    edgeNode: 40,
+    edgeEdge: 20,
+  },
+  groupPadding: {
+    top: 50,
+    right: 50,
+    bottom: 50,
+    left: 50,
+  },
+  edgeRouting: 'ORTHOGONAL',
+  nodePlacement: 'NETWORK_SIMPLEX',
+};
+
+/**
+ * Translates graphs to ELK graphs and ELK results back to positioned graphs
+ * Framework-free, so layouts run the same in the browser and in Node: the app
+ * hands the ELK graph to a Web Worker, headless callers to elk.bundled.js.
+ */
+export class ElkLayoutEngine {
+  private readonly graphValidator = new GraphValidator();
+
+  /**
+   * Validates and lays out a graph in one go
+   * @param elk - ELK instance the layout runs on
+   * @param input - Graph data with nodes, edges, and groups
+   * @param options - Optional layout configuration (merged with defaults)
+   * @throws GraphValidationError when the graph has errors, warnings are ignored
+   */
+  public async calculateLayout(
+    elk: ElkApi,
+    input: ILayoutInput,
+    options?: Partial<IElkLayoutOptions>
+  ): Promise<ILayoutOutput> {
+    this.validate(input);
+
+    const layoutOptions = this.resolveOptions(options);
+    const result = await elk.layout(
+      this.buildElkGraph(input, layoutOptions) as unknown as ElkNode
+    );
+
+    return this.applyPinnedPositions(
+      input,
+      this.extractLayoutResults(result, layoutOptions),
+      layoutOptions
+    );
+  }
+
+  /**
+   * Rejects graphs ELK can't lay out
+   * @throws GraphValidationError listing the errors, warnings are ignored
+   */
+  public validate(input: ILayoutInput): void {
+    const errors = this.graphValidator
+      .validate(input)
+      .filter(({ severity }) => severity === 'error');
+
+    if (errors.length) {
+      throw new GraphValidationError(errors);
+    }
+  }
+
+  /**
+   * Merges layout options over the defaults
+   */
+  public resolveOptions(
+    options?: Partial<IElkLayoutOptions>
+  ): IElkLayoutOptions {
+    return { ...DEFAULT_ELK_LAYOUT_OPTIONS, ...options };
+  }
+
+  /**
+   * Builds the ELK.js graph structure from input data
+   * Collapsed groups are laid out as single nodes, see collapseGroups
+   */
+  public buildElkGraph(
+    input: ILayoutInput,
+    options: IElkLayoutOptions
+  ): IElkLayout {
+    const graph = this.buildCollapsedElkGraph(collapseGroups(input), options);
+
+    if (options.incremental) {
+      this.applyStartPositions(
+        graph,
+        options.algorithm,
+        PointExtensions.initialize()
+      );
+    }
+
+    return graph;
+  }
+
+  /**
+   * Extracts layout results from ELK output
+   * Converts ELK's nested structure to flat arrays with absolute positions.
+   * Edges ELK left unrouted are routed directly between their ends.
+   */
+  public extractLayoutResults(
+    result: any,
+    options: IElkLayoutOptions
+  ): ILayoutOutput {
+    const groups: IGroup[] = [];
+    const nodes: INode[] = [];
+    const edges: IEdge[] = [];
+
+    // Absolute offsets of every container, used to resolve edge coordinates
+    const offsets = new Map<string, IPoint>([
+      [result?.id ?? 'root', PointExtensions.initialize()],
+    ]);
+
+    // Recursively extracts groups and nodes, converting positions to absolute
+    const extractChildren = (container: any, offset: IPoint) => {
+      (container.children || []).forEach((child: any) => {
+        const position = PointExtensions.initialize(
+          offset.x + (child.x || 0),
+          offset.y + (child.y || 0)
+        );
+
+        // Check if it's a group (has children or explicitly marked as group)
+        if (child.children || child.type === 'group') {
+          groups.push({
+            ...child.original,
+            size: {
+              width: child.width,
+              height: child.height,
+            },
+            position,
+            labelLayout: this.extractLabelLayout(child),
+          });
+          offsets.set(child.id, position);
+
+          // Extract nested groups and nodes of this group
+          extractChildren(child, position);
+        } else {
+          nodes.push({
+            ...child.original,
+            ...this.extractPorts(child),
+            position,
+            labelLayout: this.extractLabelLayout(child),
+          });
+        }
+      });
+    };
+
+    extractChildren(result, PointExtensions.initialize());
+
+    const curved = options.edgeRouting === 'SPLINES';
+
+    // Extract edges from root level (they should all be at root with INCLUDE_CHILDREN)
+    // and from groups at any depth (in case some are nested despite INCLUDE_CHILDREN)
+    const extractEdges = (container: any) => {
+      (container.edges || []).forEach((edge: any) => {
+        // Edges added only for the layout are not part of the graph
+        if (!edge.original) {
+          return;
+        }
+
+        // Check if this edge isn't already added
+        if (!edges.find(e => e.id === edge.id)) {
+          // Routes of detached edges end at a group, not at their nodes
+          const route = edge.detached
+            ? undefined
+            : this.extractEdgeRoute(
+                { container: container.id, ...edge },
+                offsets,
+                curved
+              );
+
+          edges.push({
+            ...edge.original,
+            route,
+            // Labels of unrouted edges are left unplaced by ELK
+            labelLayout: route
+              ? this.extractLabelLayout(
+                  edge,
+                  offsets.get(edge.container ?? container.id)
+                )
+              : undefined,
+          });
+        }
+      });
+
+      (container.children || []).forEach((child: any) => {
+        if (child.children || child.type === 'group') {
+          extractEdges(child);
+        }
+      });
+    };
+
+    extractEdges(result);
+
+    (result.detachedEdges || []).forEach((edge: any) =>
+      edges.push({ ...edge.original, route: undefined, labelLayout: undefined })
+    );
+
+    return {
+      groups,
+      nodes,
+      edges: this.routeUnroutedEdges(edges, nodes, options),
+    };
+  }
+
+  /**
+   * Moves pinned elements back to their pinned positions
+   * A pinned group takes its whole subtree along, edge routes are translated with
+   * their endpoints or routed directly when the endpoints moved apart
+   */
+  public applyPinnedPositions(
+    input: ILayoutInput,
+    output: ILayoutOutput,
+    options: IElkLayoutOptions
+  ): ILayoutOutput {
+    const pins = new Map<string, IPoint>(
+      [...input.groups, ...input.nodes]
+        .filter(element => element.pinned && element.position)
+        .map(element => [element.id, element.position!])
+    );
+
+    if (!pins.size) {
+      return output;
+    }
+
+    const zero = PointExtensions.initialize();
+    const deltas = new Map<string, IPoint>();
+    const move = <T extends IGroup | INode>(element: T): T => {
+      const pin = pins.get(element.id);
+      const position = element.position ?? zero;
+      const delta = pin
+        ? PointExtensions.sub(pin, position)
+        : (deltas.get(element.parentId ?? '') ?? zero);
+
+      deltas.set(element.id, delta);
+
+      return { ...element, position: PointExtensions.sum(position, delta) };
+    };
+
+    // Groups are extracted parents first, so a parent's delta is always known
+    const groups = output.groups.map(move);
+    const nodes = output.nodes.map(move);
+    const edges = output.edges.map(edge => {
+      const sourceDelta = deltas.get(edge.source) ?? zero;
+      const targetDelta = deltas.get(edge.target) ?? zero;
+
+      // Endpoints moved apart, the route and its label no longer fit
+      if (!PointExtensions.isEqual(sourceDelta, targetDelta)) {
+        return { ...edge, route: undefined, labelLayout: undefined };
+      }
+
+      // Endpoints moved together, the route and its label move along
+      return edge.route
+        ? {
+            ...edge,
+            route: {
+              ...edge.route,
+              points: edge.route.points.map(point =>
+                PointExtensions.sum(point, sourceDelta)
+              ),
+            },
+            labelLayout: edge.labelLayout && {
+              ...edge.labelLayout,
+              position: PointExtensions.sum(
+                edge.labelLayout.position,
+                sourceDelta
+              ),
+            },
+          }
+        : edge;
+    });
+
+    return {
+      groups,
+      nodes,
+      edges: this.routeUnroutedEdges(edges, nodes, options),
+    };
+  }
+
+  /**
+   * Builds the ELK graph of the graph as shown, with collapsed groups replaced
+   * @private
+   */
+  private buildCollapsedElkGraph(
+    input: ILayoutInput,
+    options: IElkLayoutOptions
+  ): IElkLayout {
+    const { groups, nodes, edges, enableGroups } = input;
+
+    // For layered algorithm with groups, use INCLUDE_CHILDREN for proper cross-hierarchical edges
+    if (enableGroups && options.algorithm === 'layered') {
+      // ALL edges at root level for cross-hierarchical support,
+      // except the ones inside groups laid out on their own
+      const elkEdges = this.buildContainedEdges(edges, nodes, groups, false);
+
+      // Build groups with hierarchy handling, nested to any depth
+      const elkGroups = this.buildIncludeChildrenGroups(
+        groups,
+        nodes,
+        elkEdges,
+        options
+      );
+
+      // Root nodes
+      const rootNodes: IElkLayoutNode[] = nodes
+        .filter(node => !node.parentId)
+        .map(node => this.buildElkNode(node));
+
+      return this.buildRadialTrees({
+        id: 'root',
+        layoutOptions: {
+          ...this.buildRootLayoutOptions(options),
+          // Critical: Set INCLUDE_CHILDREN on root to layout entire hierarchy in one run
+          'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+        },
+        children: [...elkGroups, ...rootNodes],
+        edges: elkEdges.get('root') ?? [],
+      });
+    }
+
+    // Original logic for other algorithms
+    // Edges between nodes of the same group go into that group
+    const elkEdges = enableGroups
+      ? this.buildContainedEdges(edges, nodes, groups, true)
+      : new Map([['root', edges.map(edge => this.buildElkEdge(edge, nodes))]]);
+
+    const elkGroups = enableGroups
+      ? this.buildGroupHierarchy(groups, nodes, elkEdges, options, {})
+      : [];
+
+    // Without groups every node is laid out at root level, out of its group
+    const rootNodes: IElkLayoutNode[] = enableGroups
+      ? nodes
+          .filter(node => !node.parentId)
+          .map(node => this.buildElkNode(node))
+      : nodes.map(node => this.buildElkNode({ ...node, parentId: null }));
+
+    return this.buildRadialTrees({
+      id: 'root',
+      layoutOptions: this.buildRootLayoutOptions(options),
+      children: [...elkGroups, ...rootNodes],
+      edges: elkEdges.get('root') ?? [],
+    });
+  }
+
+  /**
+   * Hands the positions of the input to ELK as the start of an incremental layout
+   * Positions are absolute, ELK takes them relative to the parent. Layered
+   * containers whose children all have a position keep their layers and
+   * cycle breaking, force and stress start from the positions. Children without
+   * one, e.g. of a group that was just expanded, are laid out from scratch.
+   * @param algorithm - Algorithm of the container, inherited when it sets none
+   * @private
+   */
+  private applyStartPositions(
+    container: IElkLayout | IElkLayoutGroup,
+    algorithm: IElkLayoutOptions['algorithm'],
+    offset: IPoint
+  ): void {
+    const containerAlgorithm =
+      container.layoutOptions['elk.algorithm'] ?? algorithm;
+    let positioned = 0;
+
+    container.children.forEach(child => {
+      const position = child.original.position;
+
+      if (position) {
+        child.x = position.x - offset.x;
+        child.y = position.y - offset.y;
+        positioned++;
+      }
+
+      if (child.type === 'group' && position) {
+        this.applyStartPositions(
+          child as IElkLayoutGroup,
+          containerAlgorithm,
+          position
+        );
+      }
+    });
+
+    if (!positioned || positioned < container.children.length) {
+      return;
+    }
+
+    if (containerAlgorithm === 'layered') {
+      container.layoutOptions = {
+        ...container.layoutOptions,
+        // Interactive crossing minimization isn't allowed in INCLUDE_CHILDREN runs
+        'elk.layered.layering.strategy': 'INTERACTIVE',
+        'elk.layered.cycleBreaking.strategy': 'INTERACTIVE',
+      };
+    } else if (
+      containerAlgorithm === 'force' ||
+      containerAlgorithm === 'stress'
+    ) {
+      container.layoutOptions = {
+        ...container.layoutOptions,
+        'elk.interactive': 'true',
+      };
+    }
+  }
+
+  /**
+   * Reduces the edges of every radially laid out container to a single tree
+   * Edges left out of the trees are kept on the graph and returned unrouted
+   * @private
+   */
+  private buildRadialTrees(graph: IElkLayout): IElkLayout {
+    const detachedEdges: IElkLayoutEdge[] = [];
+    this.buildRadialTree(graph, detachedEdges);
+
+    return detachedEdges.length ? { ...graph, detachedEdges } : graph;
+  }
+
+  /**
+   * Reduces the edges of a container to a tree if it's laid out radially
+   * ELK's radial algorithm only takes a single tree with edges pointing away
+   * from its root: edges against that direction are reversed, edges closing a
+   * cycle are detached, and unconnected parts hang off the root by edges that
+   * only exist for the layout
+   * @private
+   */
+  private buildRadialTree(
+    container: IElkLayout | IElkLayoutGroup,
+    detachedEdges: IElkLayoutEdge[]
+  ): void {
+    container.children.forEach(child => {
+      if (child.type === 'group') {
+        this.buildRadialTree(child as IElkLayoutGroup, detachedEdges);
+      }
+    });
+
+    if (
+      container.layoutOptions['elk.algorithm'] !== 'radial' ||
+      !container.children.length
+    ) {
+      return;
+    }
+
+    // Direct child of the container holding each element and port
+    const owners = new Map<string, string>();
+    const addOwner = (
+      element: IElkLayoutNode | IElkLayoutGroup,
+      owner: string
+    ) => {
+      owners.set(element.id, owner);
+      (element as IElkLayoutNode).ports?.forEach(port =>
+        owners.set(port.id, owner)
+      );
+      (element as IElkLayoutGroup).children?.forEach(child =>
+        addOwner(child, owner)
+      );
+    };
+    container.children.forEach(child => addOwner(child, child.id));
+
+    // Ends the container can connect to, its children and their ports
+    const directEnds = new Set(
+      container.children.flatMap(child => [
+        child.id,
+        ...((child as IElkLayoutNode).ports ?? []).map(port => port.id),
+      ])
+    );
+
+    const adjacent = new Map<string, IElkLayoutEdge[]>();
+    container.edges.forEach(edge => {
+      const source = owners.get(edge.sources[0]);
+      const target = owners.get(edge.targets[0]);
+
+      if (!source || !target || source === target) {
+        detachedEdges.push(edge);
+        return;
+      }
+
+      adjacent.set(source, [...(adjacent.get(source) ?? []), edge]);
+      adjacent.set(target, [...(adjacent.get(target) ?? []), edge]);
+    });
+
+    // Nodes without incoming edges make the best roots
+    const targets = new Set(
+      container.edges.map(edge => owners.get(edge.targets[0]))
+    );
+    const ids = container.children.map(child => child.id);
+    const roots = [...ids.filter(id => !targets.has(id)), ...ids];
+
+    const visited = new Set<string>();
+    const treeEdges: IElkLayoutEdge[] = [];
+
+    roots.forEach(root => {
+      if (visited.has(root)) {
+        return;
+      }
+
+      if (visited.size) {
+        treeEdges.push({
+          id: `${container.id}_radial_${root}`,
+          sources: [roots[0]],
+          targets: [root],
+        });
+      }
+
+      visited.add(root);
+      const queue = [root];
+
+      while (queue.length) {
+        const current = queue.shift()!;
+
+        adjacent.get(current)?.forEach(edge => {
+          const source = owners.get(edge.sources[0])!;
+          const target = owners.get(edge.targets[0])!;
+          const reversed = target === current;
+          const next = reversed ? source : target;
+
+          if (visited.has(next)) {
+            return;
+          }
+
+          visited.add(next);
+          queue.push(next);
+
+          // Ends nested in a child group are replaced by the group
+          const sources = directEnds.has(edge.sources[0])
+            ? edge.sources
+            : [source];
+          const targets = directEnds.has(edge.targets[0])
+            ? edge.targets
+            : [target];
+
+          treeEdges.push({
+            ...edge,
+            sources: reversed ? targets : sources,
+            targets: reversed ? sources : targets,
+            detached:
+              edge.detached ||
+              sources !== edge.sources ||
+              targets !== edge.targets,
+            reversed,
+          });
+        });
+      }
+    });
+
+    const inTree = new Set(treeEdges.map(edge => edge.id));
+    container.edges
+      .filter(edge => !inTree.has(edge.id) && !detachedEdges.includes(edge))
+      .forEach(edge => detachedEdges.push(edge));
+
+    container.edges = treeEdges;
+  }
+
+  /**
+   * Builds an ELK node from a graph node
+   * Nodes with ports keep them in a fixed order on their declared sides
+   * @private
+   */
+  private buildElkNode(node: INode): IElkLayoutNode {
+    const elkNode: IElkLayoutNode = {
+      id: node.id,
+      width: node.size.width,
+      height: node.size.height,
+      x: 0, // elk.js calculated x position
+      y: 0, // elk.js calculated y position
+      original: node,
+      type: 'node',
+      ...(node.label && {
+        labels: this.buildElkLabels(node),
+        layoutOptions: { 'elk.nodeLabels.placement': NODE_LABEL_PLACEMENT },
+      }),
+    };
+
+    const ports = [...(node.inputs || []), ...(node.outputs || [])];
+    if (!ports.length) {
+      return this.pinElkElement(elkNode, node);
+    }
+
+    return this.pinElkElement(
+      {
+        ...elkNode,
+        ports: this.buildElkPorts(node, ports),
+        layoutOptions: {
+          ...elkNode.layoutOptions,
+          'elk.portConstraints': 'FIXED_ORDER',
+        },
+      },
+      node
+    );
+  }
+
+  /**
+   * Hands the position of a pinned root-level element to ELK
+   * Interactive algorithms start from it and stress keeps it fixed. Nested
+   * elements get no hint since their parent's position isn't known up front,
+   * all pins are enforced on the result by applyPinnedPositions.
+   * @private
+   */
+  private pinElkElement<T extends IElkLayoutNode | IElkLayoutGroup>(
+    elkElement: T,
+    element: INode | IGroup
+  ): T {
+    if (!element.pinned || !element.position || element.parentId) {
+      return elkElement;
+    }
+
+    return {
+      ...elkElement,
+      x: element.position.x,
+      y: element.position.y,
+      layoutOptions: {
+        ...elkElement.layoutOptions,
+        'elk.stress.fixed': 'true',
+      },
+    };
+  }
+
+  /**
+   * Builds ELK ports with clockwise indices and default positions
+   * Default positions spread ports evenly along their side, they are kept
+   * by algorithms that don't place ports themselves
+   * @private
+   */
+  private buildElkPorts(node: INode, ports: IPort[]): IElkLayoutPort[] {
+    // Along a side ports are ordered left to right or top to bottom,
+    // ELK indices run clockwise, so south and west sides are reversed
+    const clockwisePorts = PORT_SIDE_ORDER.flatMap(side => {
+      const sidePorts = ports
+        .filter(port => port.side === side)
+        .sort((a, b) => a.order - b.order)
+        .map((port, index, all) => ({
+          port,
+          position: this.getDefaultPortPosition(
+            node,
+            side,
+            (index + 1) / (all.length + 1)
+          ),
+        }));
+
+      return side === 'SOUTH' || side === 'WEST'
+        ? sidePorts.reverse()
+        : sidePorts;
+    });
+
+    return clockwisePorts.map(({ port, position }, index) => ({
+      id: port.id,
+      width: ELK_PORT_SIZE,
+      height: ELK_PORT_SIZE,
+      x: position.x,
+      y: position.y,
+      original: port,
+      layoutOptions: {
+        'elk.port.side': port.side,
+        'elk.port.index': `${index}`,
+      },
+    }));
+  }
+
+  /**
+   * Returns a port position just outside the node border
+   * @param fraction - Relative position along the side (0..1)
+   * @private
+   */
+  private getDefaultPortPosition(
+    node: INode,
+    side: PortSide,
+    fraction: number
+  ): IPoint {
+    const { width, height } = node.size;
+    const alongX = width * fraction - ELK_PORT_SIZE / 2;
+    const alongY = height * fraction - ELK_PORT_SIZE / 2;
+
+    switch (side) {
+      case 'NORTH':
+        return PointExtensions.initialize(alongX, -ELK_PORT_SIZE);
+      case 'EAST':
+        return PointExtensions.initialize(width, alongY);
+      case 'SOUTH':
+        return PointExtensions.initialize(alongX, height);
+      case 'WEST':
+        return PointExtensions.initialize(-ELK_PORT_SIZE, alongY);
+    }
+  }
+
+  /**
+   * Builds the ELK label of a group, node or edge from its measured text
+   * @private
+   */
+  private buildElkLabels(element: IGroup | INode | IEdge): IElkLayoutLabel[] {
+    if (!element.label) {
+      return [];
+    }
+
+    return [
+      {
+        id: `${element.id}_label`,
+        text: element.label,
+        ...measureText(element.label),
+      },
+    ];
+  }
+
+  /**
+   * Builds an ELK edge, connecting to ports when the edge handles reference them
+   * @private
+   */
+  private buildElkEdge(edge: IEdge, nodes: INode[]): IElkLayoutEdge {
+    const sourceNode = nodes.find(n => n.id === edge.source);
+    const targetNode = nodes.find(n => n.id === edge.target);
+    const hasPort = (ports: IPort[] | undefined, handle: string) =>
+      !!ports?.some(port => port.id === handle);
+
+    return {
+      id: edge.id,
+      sources: [
+        hasPort(sourceNode?.outputs, edge.sourceHandle)
+          ? edge.sourceHandle
+          : edge.source,
+      ],
+      targets: [
+        hasPort(targetNode?.inputs, edge.targetHandle)
+          ? edge.targetHandle
+          : edge.target,
+      ],
+      labels: this.buildElkLabels(edge),
+      original: edge,
+      ...this.buildEdgePriorities(edge),
+    };
+  }
+
+  /**
+   * Layered priorities of an edge, from its kind, weight and priority
+   * ELK takes whole, non-negative priorities.
+   * @returns Options of the edge, nothing for edges without priorities
+   * @private
+   */
+  private buildEdgePriorities(
+    edge: IEdge
+  ): Pick<IElkLayoutEdge, 'layoutOptions'> {
+    const layoutOptions = Object.fromEntries(
+      Object.entries(getEdgePriorities(edge))
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [
+          `elk.layered.priority.${key}`,
+          `${Math.max(0, Math.round(value!))}`,
+        ])
+    );
+
+    return Object.keys(layoutOptions).length ? { layoutOptions } : {};
+  }
+
+  /**
+   * Builds the groups nested under a parent for a single INCLUDE_CHILDREN layout run
+   * Edges stay at root level, ELK routes them across the hierarchy. Groups with
+   * layout overrides leave the run and are laid out on their own.
+   * @private
+   */
+  private buildIncludeChildrenGroups(
+    groups: IGroup[],
+    nodes: INode[],
+    edges: Map<string, IElkLayoutEdge[]>,
+    options: IElkLayoutOptions,
+    parentId: string | null = null
+  ): IElkLayoutGroup[] {
+    return groups
+      .filter(group => (group.parentId ?? null) === parentId)
+      .map(group => {
+        if (this.hasLayoutOverrides(group)) {
+          return this.buildLayoutGroup(
+            group,
+            groups,
+            nodes,
+            edges,
+            options,
+            {}
+          );
+        }
+
+        const groupChildren: (IElkLayoutNode | IElkLayoutGroup)[] = [
+          ...this.buildIncludeChildrenGroups(
+            groups,
+            nodes,
+            edges,
+            options,
+            group.id
+          ),
+          ...nodes
+            .filter(node => node.parentId === group.id)
+            .map(node => this.buildElkNode(node)),
+        ];
+
+        const elkGroup: IElkLayoutGroup = {
+          id: group.id,
+          height: 0, // elk.js calculated height
+          width: 0, // elk.js calculated width
+          x: 0, // elk.js calculated x position
+          y: 0, // elk.js calculated y position
+          // Set INCLUDE_CHILDREN on groups to include them in single layout run
+          layoutOptions: {
+            'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+            'elk.padding': '[top=60,left=60,bottom=60,right=60]',
+            // Reserves room for the label on top of the padding
+            'elk.nodeSize.constraints': 'NODE_LABELS',
+            'elk.nodeLabels.placement': GROUP_LABEL_PLACEMENT,
+          },
+          labels: this.buildElkLabels(group),
+          children: groupChildren,
+          edges: [], // Edges will be at root level
+          original: group,
+          type: 'group',
+        };
+
+        return this.pinElkElement(elkGroup, group);
+      });
+  }
+
+  /**
+   * Builds the group hierarchy with nested children, recursing into sub-groups
+   * @param overrides - Layout overrides inherited from the enclosing groups
+   * @private
+   */
+  private buildGroupHierarchy(
+    groups: IGroup[],
+    nodes: INode[],
+    edges: Map<string, IElkLayoutEdge[]>,
+    options: IElkLayoutOptions,
+    overrides: IGroupLayoutOverrides,
+    parentId: string | null = null
+  ): IElkLayoutGroup[] {
+    return groups
+      .filter(group => (group.parentId ?? null) === parentId)
+      .map(group =>
+        this.buildLayoutGroup(group, groups, nodes, edges, options, overrides)
+      );
+  }
+
+  /**
+   * Builds a group with its own layout options, its overrides merged over the
+   * inherited ones, and recurses into its sub-groups
+   * @private
+   */
+  private buildLayoutGroup(
+    group: IGroup,
+    groups: IGroup[],
+    nodes: INode[],
+    edges: Map<string, IElkLayoutEdge[]>,
+    options: IElkLayoutOptions,
+    inherited: IGroupLayoutOverrides
+  ): IElkLayoutGroup {
+    const overrides = { ...inherited, ...group.layoutOverrides };
+    const children: (IElkLayoutNode | IElkLayoutGroup)[] = [
+      ...this.buildGroupHierarchy(
+        groups,
+        nodes,
+        edges,
+        options,
+        overrides,
+        group.id
+      ),
+      ...nodes
+        .filter(node => node.parentId === group.id)
+        .map(node => this.buildElkNode(node)),
+    ];
+
+    const elkGroup: IElkLayoutGroup = {
+      id: group.id,
+      height: 0, // elk.js calculated height
+      width: 0, // elk.js calculated width
+      x: 0, // elk.js calculated x position
+      y: 0, // elk.js calculated y position
+      layoutOptions: {
+        ...this.buildGroupLayoutOptions(
+          this.mergeLayoutOverrides(options, overrides)
+        ),
+        ...this.buildOverrideOptions(overrides),
+        // An own layout run, INCLUDE_CHILDREN would lay the content out
+        // together with the parent and flatten the overrides away
+        ...(this.hasLayoutOverrides(group) && {
+          'elk.hierarchyHandling': 'SEPARATE_CHILDREN',
+        }),
+        'elk.nodeLabels.placement': GROUP_LABEL_PLACEMENT,
+      },
+      labels: this.buildElkLabels(group),
+      children,
+      edges: edges.get(group.id) ?? [],
+      original: group,
+      type: 'group',
+    };
+
+    return this.pinElkElement(elkGroup, group);
+  }
+
+  /**
+   * Builds the ELK edges, keyed by the id of the graph or group containing them
+   * Edges inside a group laid out on its own stay in that group. ELK can't route
+   * an edge between separate layout runs, so an end inside such a group the
+   * edge's container is outside of is attached to the group and left unrouted.
+   * Outside of an INCLUDE_CHILDREN run, edges between levels are left unrouted
+   * too, some algorithms route them in the coordinates of the wrong level.
+   * Unrouted edges are routed directly once the nodes are placed.
+   * @param siblingsInGroup - Whether edges between siblings go into their group
+   * @private
+   */
+  private buildContainedEdges(
+    edges: IEdge[],
+    nodes: INode[],
+    groups: IGroup[],
+    siblingsInGroup: boolean
+  ): Map<string, IElkLayoutEdge[]> {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+    const groupsById = new Map(groups.map(group => [group.id, group]));
+    const contained = new Map<string, IElkLayoutEdge[]>();
+
+    // Groups laid out on their own that enclose a parent, outermost first
+    const getLayoutRuns = (parentId: string | null): string[] => {
+      const runs: string[] = [];
+
+      for (let id = parentId; id; id = groupsById.get(id)?.parentId ?? null) {
+        const group = groupsById.get(id);
+
+        if (group && this.hasLayoutOverrides(group)) {
+          runs.unshift(group.id);
+        }
+      }
+
+      return runs;
+    };
+
+    edges.forEach(edge => {
+      const sourceParent = nodesById.get(edge.source)?.parentId ?? null;
+      const targetParent = nodesById.get(edge.target)?.parentId ?? null;
+      const sourceRuns = getLayoutRuns(sourceParent);
+      const targetRuns = getLayoutRuns(targetParent);
+
+      let shared = 0;
+      while (
+        shared < sourceRuns.length &&
+        sourceRuns[shared] === targetRuns[shared]
+      ) {
+        shared++;
+      }
+
+      const run = shared ? sourceRuns[shared - 1] : 'root';
+      const container =
+        sourceParent &&
+        sourceParent === targetParent &&
+        (siblingsInGroup || run !== 'root')
+          ? sourceParent
+          : run;
+
+      const elkEdge = this.buildElkEdge(edge, nodes);
+      const sourceRun = sourceRuns[shared];
+      const targetRun = targetRuns[shared];
+      const crossesLevels =
+        sourceParent !== targetParent && (siblingsInGroup || run !== 'root');
+
+      contained.set(container, [
+        ...(contained.get(container) ?? []),
+        sourceRun || targetRun || crossesLevels
+          ? {
+              ...elkEdge,
+              sources: sourceRun ? [sourceRun] : elkEdge.sources,
+              targets: targetRun ? [targetRun] : elkEdge.targets,
+              detached: true,
+            }
+          : elkEdge,
+      ]);
+    });
+
+    return contained;
+  }
+
+  /**
+   * Whether a group has layout overrides and is laid out on its own
+   * @private
+   */
+  private hasLayoutOverrides(group: IGroup): boolean {
+    return Object.values(group.layoutOverrides ?? {}).some(
+      value => value !== undefined
+    );
+  }
+
+  /**
+   * Merges group layout overrides over the global layout options
+   * Tuned options belong to the global algorithm and are dropped when the group
+   * uses another one
+   * @private
+   */
+  private mergeLayoutOverrides(
+    options: IElkLayoutOptions,
+    overrides: IGroupLayoutOverrides
+  ): IElkLayoutOptions {
+    const algorithm = overrides.algorithm ?? options.algorithm;
+
+    return {
+      ...options,
+      algorithm,
+      direction: overrides.direction ?? options.direction,
+      spacing: {
+        ...options.spacing,
+        nodeNode: overrides.nodeSpacing ?? options.spacing?.nodeNode,
+        nodeNodeBetweenLayers:
+          overrides.layerSpacing ?? options.spacing?.nodeNodeBetweenLayers,
+      },
+      elkOptions:
+        algorithm === options.algorithm ? options.elkOptions : undefined,
+    };
+  }
+
+  /**
+   * ELK options of the spacing overrides, which win over the group defaults
+   * @private
+   */
+  private buildOverrideOptions(
+    overrides: IGroupLayoutOverrides
+  ): Record<string, string> {
+    return {
+      ...(overrides.nodeSpacing !== undefined && {
+        'elk.spacing.nodeNode': `${overrides.nodeSpacing}`,
+      }),
+      ...(overrides.layerSpacing !== undefined && {
+        'elk.layered.spacing.nodeNodeBetweenLayers': `${overrides.layerSpacing}`,
+      }),
+    };
+  }
+
+  /**
+   * Builds root-level layout options
+   * Tunable options come from the option registry, the rest keeps the
+   * diagram structure (hierarchy, ports, pinned positions) working
+   * @private
+   */
+  private buildRootLayoutOptions(options: IElkLayoutOptions): any {
+    const baseOptions: any = {
+      'elk.algorithm': options.algorithm,
+      'elk.separateConnectedComponents': 'true',
+      'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+      ...this.buildRegistryOptions(options),
+    };
+
+    // Add algorithm-specific options
+    if (options.algorithm === 'layered') {
+      return {
+        ...baseOptions,
+        'elk.portConstraints': 'FIXED_SIDE',
+        'elk.interactiveLayout': 'true',
+      };
+    } else if (options.algorithm === 'mrtree') {
+      return {
+        ...baseOptions,
+        'elk.edgeRouting': 'ORTHOGONAL',
+      };
+    } else if (options.algorithm === 'force') {
+      return {
+        ...baseOptions,
+        'elk.interactive': 'true',
+      };
+    } else if (options.algorithm === 'radial') {
+      return {
+        ...baseOptions,
+        // All parts are joined into a single tree before the layout
+        'elk.separateConnectedComponents': 'false',
+      };
+    } else if (
+      options.algorithm === 'rectpacking' ||
+      options.algorithm === 'box'
+    ) {
+      return {
+        ...baseOptions,
+        // Packing ignores edges, every node is packed in one go
+        'elk.separateConnectedComponents': 'false',
+      };
+    }
+
+    return baseOptions;
+  }
+
+  /**
+   * Builds group-level layout options
+   * Groups use the registry options too, with tighter spacing than the root
+   * @private
+   */
+  private buildGroupLayoutOptions(options: IElkLayoutOptions): any {
+    const padding = options.groupPadding;
+    const baseGroupOptions: any = {
+      ...this.buildRegistryOptions(options),
+      'elk.algorithm': options.algorithm,
+      'elk.padding': `[top=${padding?.top},left=${padding?.left},bottom=${padding?.bottom},right=${padding?.right}]`,
+      'elk.spacing.nodeNode': '50',
+      'elk.spacing.componentComponent': '70',
+      'elk.nodeSize.constraints': 'NODE_LABELS MINIMUM_SIZE',
+      'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+    };
+
+    // Add algorithm-specific options for groups
+    if (options.algorithm === 'layered') {
+      return {
+        ...baseGroupOptions,
+        'elk.layered.spacing.nodeNodeBetweenLayers': '50',
+        'elk.portConstraints': 'FIXED_SIDE',
+      };
+    } else if (options.algorithm === 'mrtree') {
+      return {
+        ...baseGroupOptions,
+        'elk.spacing.nodeNode': '40',
+        'elk.edgeRouting': 'ORTHOGONAL',
+      };
+    } else if (options.algorithm === 'force') {
+      return {
+        ...baseGroupOptions,
+        'elk.spacing.nodeNode': '80',
+      };
+    } else if (options.algorithm === 'stress') {
+      return {
+        ...baseGroupOptions,
+        'elk.stress.desiredEdgeLength': '60',
+      };
+    } else if (options.algorithm === 'radial') {
+      // Radial sizes the group from its content, size constraints would shrink
+      // it to the label and leave the content outside
+      const { 'elk.nodeSize.constraints': _, ...radialGroupOptions } =
+        baseGroupOptions;
+
+      return {
+        ...radialGroupOptions,
+        'elk.separateConnectedComponents': 'false',
+      };
+    } else if (
+      options.algorithm === 'rectpacking' ||
+      options.algorithm === 'box'
+    ) {
+      return {
+        ...baseGroupOptions,
+        'elk.spacing.nodeNode': '30',
+        'elk.separateConnectedComponents': 'false',
+      };
+    }
+
+    return baseGroupOptions;
+  }
+
+  /**
+   * Resolves the registry options of the algorithm as ELK option strings
+   * @private
+   */
+  private buildRegistryOptions(
+    options: IElkLayoutOptions
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(resolveElkOptions(options)).map(([id, value]) => [
+        id,
+        `${value}`,
+      ])
+    );
+  }
+
+  /**
+   * Reads back the port positions ELK calculated, relative to the node
+   * @private
+   */
+  private extractPorts(node: any): Pick<INode, 'inputs' | 'outputs'> {
+    const positions = new Map<string, IPoint>(
+      (node.ports || []).map((port: any) => [
+        port.id,
+        PointExtensions.initialize(port.x || 0, port.y || 0),
+      ])
+    );
+    const withPosition = (ports: IPort[] | undefined) =>
+      ports?.map(port => ({ ...port, position: positions.get(port.id) }));
+
+    return {
+      inputs: withPosition(node.original.inputs),
+      outputs: withPosition(node.original.outputs),
+    };
+  }
+
+  /**
+   * Reads back the label position ELK calculated
+   * @param offset - Added to the position, ELK reports it relative to the owner
+   * or, for edges, to the edge's container node
+   * @private
+   */
+  private extractLabelLayout(
+    element: any,
+    offset: IPoint = PointExtensions.initialize()
+  ): ILabelLayout | undefined {
+    const label = element.labels?.[0];
+
+    if (!label) {
+      return undefined;
+    }
+
+    return {
+      position: PointExtensions.initialize(
+        offset.x + (label.x || 0),
+        offset.y + (label.y || 0)
+      ),
+      size: { width: label.width, height: label.height },
+    };
+  }
+
+  /**
+   * Converts ELK edge sections into a single route with absolute coordinates
+   * ELK reports section points relative to the edge's container node
+   * @private
+   */
+  private extractEdgeRoute(
+    edge: any,
+    offsets: Map<string, IPoint>,
+    curved: boolean
+  ): IEdgeRoute | undefined {
+    if (!edge.sections?.length) {
+      return undefined;
+    }
+
+    const offset = offsets.get(edge.container) ?? PointExtensions.initialize();
+    const points: IPoint[] = [];
+
+    edge.sections.forEach((section: any) => {
+      [section.startPoint, ...(section.bendPoints || []), section.endPoint]
+        .map((point: IPoint) => PointExtensions.sum(point, offset))
+        .forEach(point => {
+          // Consecutive sections share their junction point
+          const last = points[points.length - 1];
+          if (!last || !PointExtensions.isEqual(last, point)) {
+            points.push(point);
+          }
+        });
+    });
+
+    // Edges handed to ELK the other way around run back from target to source
+    return { points: edge.reversed ? points.reverse() : points, curved };
+  }
+
+  /**
+   * Routes the edges ELK left unrouted straight between their ends
+   * ELK only routes edges within a layout run, so this covers edges between
+   * groups laid out on their own or between levels outside of INCLUDE_CHILDREN
+   * runs, see buildContainedEdges, edges detached from radial trees and edges
+   * of algorithms that don't route. The routes may cross other nodes.
+   * @private
+   */
+  private routeUnroutedEdges(
+    edges: IEdge[],
+    nodes: INode[],
+    options: IElkLayoutOptions
+  ): IEdge[] {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+    return edges.map(edge => {
+      const source = nodesById.get(edge.source);
+      const target = nodesById.get(edge.target);
+
+      // Self-loops have no straight route
+      if (edge.route || !source || !target || source === target) {
+        return edge;
+      }
+
+      const route = this.buildDirectRoute(edge, source, target, options);
+      const center = getRouteCenter(route.points);
+      const size = edge.label ? measureText(edge.label) : undefined;
+
+      return {
+        ...edge,
+        route,
+        labelLayout: size && {
+          position: PointExtensions.initialize(
+            center.x - size.width / 2,
+            center.y - size.height / 2
+          ),
+          size,
+        },
+      };
+    });
+  }
+
+  /**
+   * Builds a route between two placed nodes in the style ELK routes the layout
+   * with: orthogonal for orthogonal layered and tree layouts, a single curve
+   * for splines, a straight line otherwise
+   * @private
+   */
+  private buildDirectRoute(
+    edge: IEdge,
+    source: INode,
+    target: INode,
+    options: IElkLayoutOptions
+  ): IEdgeRoute {
+    const routing =
+      options.algorithm === 'mrtree'
+        ? 'ORTHOGONAL'
+        : options.algorithm === 'layered'
+          ? options.edgeRouting
+          : 'POLYLINE';
+    const start = this.getRouteEnd(
+      source,
+      target,
+      source.outputs?.find(port => port.id === edge.sourceHandle),
+      options
+    );
+    const end = this.getRouteEnd(
+      target,
+      source,
+      target.inputs?.find(port => port.id === edge.targetHandle),
+      options
+    );
+
+    if (routing === 'SPLINES') {
+      const reach = PointExtensions.distance(start.point, end.point) / 2;
+      const control = ({ point, direction }: IRouteEnd) =>
+        PointExtensions.initialize(
+          point.x + direction.x * reach,
+          point.y + direction.y * reach
+        );
+
+      return {
+        points: [start.point, control(start), control(end), end.point],
+        curved: true,
+      };
+    }
+
+    if (routing !== 'ORTHOGONAL') {
+      return { points: [start.point, end.point], curved: false };
+    }
+
+    const from = start.point;
+    const to = end.point;
+    const startsVertical = start.direction.x === 0;
+    const endsVertical = end.direction.x === 0;
+    const middle = PointExtensions.initialize(
+      (from.x + to.x) / 2,
+      (from.y + to.y) / 2
+    );
+    const bends =
+      startsVertical && endsVertical
+        ? [
+            PointExtensions.initialize(from.x, middle.y),
+            PointExtensions.initialize(to.x, middle.y),
+          ]
+        : !startsVertical && !endsVertical
+          ? [
+              PointExtensions.initialize(middle.x, from.y),
+              PointExtensions.initialize(middle.x, to.y),
+            ]
+          : [
+              startsVertical
+                ? PointExtensions.initialize(from.x, to.y)
+                : PointExtensions.initialize(to.x, from.y),
+            ];
+
+    // Aligned ends need no bends
+    const points = [from, ...bends, to].filter(
+      (point, index, all) =>
+        !index || !PointExtensions.isEqual(point, all[index - 1])
+    );
+
+    return { points, curved: false };
+  }
+
+  /**
+   * Returns where a directly routed edge leaves or enters a node
+   * Edges on ports start at the port, others at the middle of the side facing
+   * the other node: a side across the layout direction when the nodes are
+   * apart along both axes, otherwise the side along which they are apart.
+   * @param port - Port the edge connects to, if any
+   * @private
+   */
+  private getRouteEnd(
+    node: INode,
+    other: INode,
+    port: IPort | undefined,
+    options: IElkLayoutOptions
+  ): IRouteEnd {
+    const position = node.position ?? PointExtensions.initialize();
+    const { width, height } = node.size;
+
+    if (port?.position) {
+      const directions: Record<PortSide, IPoint> = {
+        NORTH: PointExtensions.initialize(0, -1),
+        EAST: PointExtensions.initialize(1, 0),
+        SOUTH: PointExtensions.initialize(0, 1),
+        WEST: PointExtensions.initialize(-1, 0),
+      };
+
+      return {
+        point: PointExtensions.initialize(
+          position.x + port.position.x + ELK_PORT_SIZE / 2,
+          position.y + port.position.y + ELK_PORT_SIZE / 2
+        ),
+        direction: directions[port.side],
+      };
+    }
+
+    const otherPosition = other.position ?? PointExtensions.initialize();
+    const center = PointExtensions.initialize(
+      position.x + width / 2,
+      position.y + height / 2
+    );
+    const otherCenter = PointExtensions.initialize(
+      otherPosition.x + other.size.width / 2,
+      otherPosition.y + other.size.height / 2
+    );
+    const gapX =
+      Math.abs(otherCenter.x - center.x) - (width + other.size.width) / 2;
+    const gapY =
+      Math.abs(otherCenter.y - center.y) - (height + other.size.height) / 2;
+    const vertical =
+      gapX > 0 && gapY > 0
+        ? options.direction === 'DOWN' || options.direction === 'UP'
+        : gapY > gapX;
+
+    if (vertical) {
+      const sign = otherCenter.y < center.y ? -1 : 1;
+
+      return {
+        point: PointExtensions.initialize(
+          center.x,
+          center.y + (sign * height) / 2
+        ),
+        direction: PointExtensions.initialize(0, sign),
+      };
+    }
+
+    const sign = otherCenter.x < center.x ? -1 : 1;
+
+    return {
+      point: PointExtensions.initialize(
+        center.x + (sign * width) / 2,
+        center.y
+      ),
+      direction: PointExtensions.initialize(sign, 0),
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { GraphAnalyzer, MAX_CYCLES } from './graph-analyzer';
+import { IEdge, INode } from '../models/graph.interface';
+
+describe('GraphAnalyzer', () => {
+  let analyzer: GraphAnalyzer;
+
+  const node = (id: string, x = 0, y = 0): INode => ({
+    id,
+    size: { width: 100, height: 50 },
+    position: { x, y },
+    parentId: null,
+  });
+  const edge = (source: string, target: string): IEdge => ({
+    id: `${source}${target}`,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+  });
+
+  // Cycles a → b → c → a and d ⇄ e, joined by c → d. b → f ends the only
+  // longest path once the cycles are broken, g stands apart and the edge to
+  // the missing node x is left out.
+  const nodes = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(id => node(id));
+  const edges = [
+    edge('a', 'b'),
+    edge('b', 'c'),
+    edge('c', 'a'),
+    edge('c', 'd'),
+    edge('d', 'e'),
+    edge('e', 'd'),
+    edge('d', 'f'),
+    edge('a', 'f'),
+    edge('b', 'f'),
+    edge('a', 'x'),
+  ];
+
+  beforeEach(() => {
+    analyzer = new GraphAnalyzer();
+  });
+
+  it('should find the strongly connected components with a cycle', () => {
+    const analysis = analyzer.analyze(nodes, edges);
+
+    expect(analysis.stronglyConnectedComponents).toEqual([
+      ['a', 'b', 'c'],
+      ['d', 'e'],
+    ]);
+  });
+
+  it('should list the elementary cycles', () => {
+    const analysis = analyzer.analyze(nodes, edges);
+
+    expect(analysis.cycles).toEqual([
+      { nodeIds: ['a', 'b', 'c'], edgeIds: ['ab', 'bc', 'ca'] },
+      { nodeIds: ['d', 'e'], edgeIds: ['de', 'ed'] },
+    ]);
+    expect(analysis.cyclesTruncated).toBeFalse();
+  });
+
+  it('should pick one feedback edge per cycle', () => {
+    const analysis = analyzer.analyze(nodes, edges);
+
+    expect(analysis.feedbackEdgeIds).toEqual(['bc', 'ed']);
+  });
+
+  it('should layer the graph without its feedback edges', () => {
+    const analysis = analyzer.analyze(nodes, edges);
+
+    expect(analysis.layers).toEqual([
+      ['c', 'g'],
+      ['a', 'd'],
+      ['b', 'e'],
+      ['f'],
+    ]);
+  });
+
+  it('should find the longest and the critical path', () => {
+    const analysis = analyzer.analyze(nodes, edges);
+
+    expect(analysis.longestPath).toEqual({
+      nodeIds: ['c', 'a', 'b', 'f'],
+      edgeIds: ['ca', 'ab', 'bf'],
+    });
+    expect(analysis.criticalPath).toEqual({
+      nodeIds: ['a', 'b', 'c', 'f'],
+      edgeIds: ['ab', 'ca', 'bf'],
+    });
+  });
+
+  it('should find the disconnected parts', () => {
+    const analysis = analyzer.analyze(nodes, edges);
+
+    expect(analysis.components).toEqual([
+      ['a', 'b', 'c', 'd', 'e', 'f'],
+      ['g'],
+    ]);
+  });
+
+  it('should stop listing cycles at MAX_CYCLES', () => {
+    // A complete directed graph on 6 nodes has 409 elementary cycles
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const complete = ids.flatMap(source =>
+      ids
+        .filter(target => target !== source)
+        .map(target => edge(source, target))
+    );
+    const analysis = analyzer.analyze(
+      ids.map(id => node(id)),
+      complete
+    );
+
+    expect(analysis.cycles.length).toBe(MAX_CYCLES);
+    expect(analysis.cyclesTruncated).toBeTrue();
+  });
+
+  it('should find the edges a layout drew against its direction', () => {
+    const laidOut = [node('a', 0, 0), node('b', 0, 100), node('c', 200, 0)];
+    const reversed = analyzer.findReversedEdges(
+      laidOut,
+      [edge('a', 'b'), edge('b', 'a'), edge('a', 'c')],
+      'DOWN'
+    );
+
+    expect(reversed).toEqual(['ba']);
+    expect(
+      analyzer.findReversedEdges(laidOut, [edge('c', 'a')], 'RIGHT')
+    ).toEqual(['ca']);
+  });
+});
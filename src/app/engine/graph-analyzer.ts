@@ -0,0 +1,550 @@
+import {
+  IGraphAnalysis,
+  IGraphElements,
+} from '../models/graph-analysis.interface';
+import { IEdge, IElkLayoutOptions, INode } from '../models/graph.interface';
+
+/**
+ * Cycles listed at most, their number can grow exponentially with the edges
+ */
+export const MAX_CYCLES = 100;
+
+/**
+ * Edges followed at most while listing cycles, more may exist when reached
+ */
+export const MAX_CYCLE_STEPS = 100000;
+
+/**
+ * Outgoing edges of every node, edges with an unknown end are left out
+ */
+type Adjacency = Map<string, IEdge[]>;
+
+/**
+ * Finds cycles, layers, longest paths and disconnected parts of a graph
+ * Works on the graph as shown, so collapsed groups count as nodes. Runs in
+ * linear time except for listing cycles, which stops after MAX_CYCLES.
+ */
+export class GraphAnalyzer {
+  /**
+   * Analyzes the edges between the given nodes
+   */
+  public analyze(nodes: INode[], edges: IEdge[]): IGraphAnalysis {
+    const nodeIds = nodes.map(({ id }) => id);
+    const known = new Set(nodeIds);
+    const graphEdges = edges.filter(
+      ({ source, target }) => known.has(source) && known.has(target)
+    );
+    const components = this.findStronglyConnectedComponents(
+      nodeIds,
+      this.getAdjacency(nodeIds, graphEdges)
+    );
+    const componentOf = new Map(
+      components.flatMap((component, index) =>
+        component.map(id => [id, index] as const)
+      )
+    );
+    // Self-loops are a cycle of their own
+    const cyclic = components.filter(
+      component =>
+        component.length > 1 ||
+        graphEdges.some(
+          ({ source, target }) => source === component[0] && source === target
+        )
+    );
+    const { cycles, truncated } = this.findCycles(
+      nodeIds,
+      graphEdges.filter(
+        ({ source, target }) =>
+          componentOf.get(source) === componentOf.get(target)
+      )
+    );
+    const feedbackEdgeIds = this.findFeedbackEdges(nodeIds, graphEdges);
+    const feedback = new Set(feedbackEdgeIds);
+    const acyclicEdges = graphEdges.filter(
+      ({ id, source, target }) => !feedback.has(id) && source !== target
+    );
+    const { longestPath, criticalPath } = this.findLongestPaths(
+      nodeIds,
+      acyclicEdges
+    );
+
+    return {
+      stronglyConnectedComponents: this.bySize(cyclic),
+      cycles,
+      cyclesTruncated: truncated,
+      feedbackEdgeIds,
+      layers: this.findLayers(nodeIds, acyclicEdges),
+      longestPath,
+      criticalPath,
+      components: this.findComponents(nodeIds, graphEdges),
+    };
+  }
+
+  /**
+   * Edges a layered layout drew against its direction, i.e. reversed to break cycles
+   * The target lies entirely before the source along the layout direction,
+   * so edges between nodes of the same layer don't count.
+   * @param nodes - Laid-out nodes, positions are absolute
+   */
+  public findReversedEdges(
+    nodes: INode[],
+    edges: IEdge[],
+    direction: NonNullable<IElkLayoutOptions['direction']>
+  ): string[] {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+    const horizontal = direction === 'RIGHT' || direction === 'LEFT';
+    const forward = direction === 'RIGHT' || direction === 'DOWN';
+    // Start and end of a node along the layout direction
+    const extent = ({ position, size }: INode): [number, number] => {
+      const start = horizontal ? position!.x : position!.y;
+      return [start, start + (horizontal ? size.width : size.height)];
+    };
+
+    return edges
+      .filter(({ source, target }) => {
+        const from = nodesById.get(source);
+        const to = nodesById.get(target);
+
+        if (!from?.position || !to?.position || source === target) {
+          return false;
+        }
+
+        const [fromStart, fromEnd] = extent(from);
+        const [toStart, toEnd] = extent(to);
+
+        return forward ? toEnd <= fromStart : toStart >= fromEnd;
+      })
+      .map(({ id }) => id);
+  }
+
+  /**
+   * Strongly connected components, with Tarjan's algorithm
+   * Iterative, so long chains don't exhaust the call stack.
+   * @returns Every node in exactly one component, single nodes included
+   * @private
+   */
+  private findStronglyConnectedComponents(
+    nodeIds: string[],
+    adjacency: Adjacency
+  ): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    nodeIds.forEach(root => {
+      if (index.has(root)) {
+        return;
+      }
+
+      // Nodes being visited with the number of edges followed so far
+      const visits: [string, number][] = [[root, 0]];
+
+      while (visits.length) {
+        const visit = visits[visits.length - 1];
+        const [id, followed] = visit;
+
+        if (followed === 0) {
+          index.set(id, index.size);
+          lowLink.set(id, index.get(id)!);
+          stack.push(id);
+          onStack.add(id);
+        }
+
+        const edge = adjacency.get(id)![followed];
+
+        if (edge) {
+          visit[1]++;
+
+          if (!index.has(edge.target)) {
+            visits.push([edge.target, 0]);
+          } else if (onStack.has(edge.target)) {
+            lowLink.set(
+              id,
+              Math.min(lowLink.get(id)!, index.get(edge.target)!)
+            );
+          }
+
+          continue;
+        }
+
+        visits.pop();
+
+        if (visits.length) {
+          const [parent] = visits[visits.length - 1];
+          lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(id)!));
+        }
+
+        if (lowLink.get(id) === index.get(id)) {
+          const component: string[] = [];
+          let member: string;
+
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== id);
+
+          components.push(component.reverse());
+        }
+      }
+    });
+
+    return components;
+  }
+
+  /**
+   * Elementary cycles, with Johnson's algorithm
+   * Cycles through each node are found among the nodes after it, so every
+   * cycle is listed once, starting at its first node. Parallel edges make
+   * separate cycles. Iterative, so long cycles don't exhaust the call stack.
+   * @param edges - Edges within strongly connected components, others lie on no cycle
+   * @returns Truncated when MAX_CYCLES were found or MAX_CYCLE_STEPS edges followed
+   * @private
+   */
+  private findCycles(
+    nodeIds: string[],
+    edges: IEdge[]
+  ): { cycles: IGraphElements[]; truncated: boolean } {
+    const adjacency = this.getAdjacency(nodeIds, edges);
+    const order = new Map(nodeIds.map((id, index) => [id, index]));
+    const cycles: IGraphElements[] = [];
+    let steps = 0;
+    let truncated = false;
+
+    nodeIds.forEach((start, startIndex) => {
+      const blocked = new Set<string>();
+      const blockedBy = new Map<string, Set<string>>();
+      const path: IEdge[] = [];
+      // Nodes on the path with their edges, the next one to follow and whether
+      // a cycle was found through them
+      const frames: {
+        id: string;
+        edges: IEdge[];
+        next: number;
+        found: boolean;
+      }[] = [];
+      const enter = (id: string) => {
+        blocked.add(id);
+        frames.push({
+          id,
+          edges: adjacency
+            .get(id)!
+            .filter(({ target }) => order.get(target)! >= startIndex),
+          next: 0,
+          found: false,
+        });
+      };
+      const unblock = (id: string) => {
+        const pending = [id];
+
+        while (pending.length) {
+          const next = pending.pop()!;
+
+          blocked.delete(next);
+          blockedBy.get(next)?.forEach(other => {
+            if (blocked.has(other)) {
+              pending.push(other);
+            }
+          });
+          blockedBy.delete(next);
+        }
+      };
+
+      if (!truncated) {
+        enter(start);
+      }
+
+      while (frames.length && !truncated) {
+        const frame = frames[frames.length - 1];
+        const edge = frame.edges[frame.next++];
+
+        if (edge) {
+          truncated = ++steps > MAX_CYCLE_STEPS;
+
+          if (edge.target === start) {
+            truncated ||= cycles.length === MAX_CYCLES;
+
+            if (!truncated) {
+              const cycle = [...path, edge];
+
+              cycles.push({
+                nodeIds: cycle.map(({ source }) => source),
+                edgeIds: cycle.map(({ id }) => id),
+              });
+              frame.found = true;
+            }
+          } else if (!blocked.has(edge.target)) {
+            path.push(edge);
+            enter(edge.target);
+          }
+
+          continue;
+        }
+
+        frames.pop();
+
+        if (frame.found) {
+          unblock(frame.id);
+        } else {
+          frame.edges.forEach(({ target }) =>
+            blockedBy.set(
+              target,
+              (blockedBy.get(target) ?? new Set()).add(frame.id)
+            )
+          );
+        }
+
+        if (frames.length) {
+          path.pop();
+          frames[frames.length - 1].found ||= frame.found;
+        }
+      }
+    });
+
+    return { cycles, truncated };
+  }
+
+  /**
+   * Edges to reverse so no cycle is left, with the heuristic of Eades, Lin and Smyth
+   * The same heuristic drives ELK's GREEDY cycle breaking: sinks are ordered
+   * last, sources first, and otherwise the node with the most outgoing over
+   * incoming edges comes next. Edges pointing backwards in that order are reversed.
+   * @private
+   */
+  private findFeedbackEdges(nodeIds: string[], edges: IEdge[]): string[] {
+    const links = edges.filter(({ source, target }) => source !== target);
+    const inDegree = new Map(nodeIds.map(id => [id, 0]));
+    const outDegree = new Map(nodeIds.map(id => [id, 0]));
+    const incoming = new Map(nodeIds.map(id => [id, [] as IEdge[]]));
+    const outgoing = new Map(nodeIds.map(id => [id, [] as IEdge[]]));
+
+    links.forEach(edge => {
+      outDegree.set(edge.source, outDegree.get(edge.source)! + 1);
+      inDegree.set(edge.target, inDegree.get(edge.target)! + 1);
+      outgoing.get(edge.source)!.push(edge);
+      incoming.get(edge.target)!.push(edge);
+    });
+
+    const remaining = new Set(nodeIds);
+    const first: string[] = [];
+    const last: string[] = [];
+    // Nodes that became sinks or sources, some may be placed already
+    const sinks = nodeIds.filter(id => !outDegree.get(id));
+    const sources = nodeIds.filter(id => !inDegree.get(id));
+    const take = (candidates: string[]): string | undefined => {
+      while (candidates.length) {
+        const id = candidates.pop()!;
+
+        if (remaining.has(id)) {
+          return id;
+        }
+      }
+
+      return undefined;
+    };
+    const remove = (id: string) => {
+      remaining.delete(id);
+      outgoing.get(id)!.forEach(({ target }) => {
+        inDegree.set(target, inDegree.get(target)! - 1);
+
+        if (!inDegree.get(target)) {
+          sources.push(target);
+        }
+      });
+      incoming.get(id)!.forEach(({ source }) => {
+        outDegree.set(source, outDegree.get(source)! - 1);
+
+        if (!outDegree.get(source)) {
+          sinks.push(source);
+        }
+      });
+    };
+
+    while (remaining.size) {
+      const sink = take(sinks);
+
+      if (sink !== undefined) {
+        last.push(sink);
+        remove(sink);
+        continue;
+      }
+
+      const next =
+        take(sources) ??
+        [...remaining].reduce((best, id) =>
+          outDegree.get(id)! - inDegree.get(id)! >
+          outDegree.get(best)! - inDegree.get(best)!
+            ? id
+            : best
+        );
+
+      first.push(next);
+      remove(next);
+    }
+
+    const rank = new Map(
+      [...first, ...last.reverse()].map((id, index) => [id, index])
+    );
+
+    return links
+      .filter(({ source, target }) => rank.get(source)! > rank.get(target)!)
+      .map(({ id }) => id);
+  }
+
+  /**
+   * Layers of an acyclic graph, each node one layer after its furthest predecessor
+   * @private
+   */
+  private findLayers(nodeIds: string[], edges: IEdge[]): string[][] {
+    const layers: string[][] = [];
+
+    this.getTopologicalLayers(nodeIds, edges).forEach((layer, id) => {
+      (layers[layer] ??= []).push(id);
+    });
+
+    return layers;
+  }
+
+  /**
+   * Longest path of an acyclic graph, and the elements of all equally long ones
+   * @private
+   */
+  private findLongestPaths(
+    nodeIds: string[],
+    edges: IEdge[]
+  ): { longestPath: IGraphElements; criticalPath: IGraphElements } {
+    const empty = { nodeIds: [], edgeIds: [] };
+    // Edges on the longest paths ending, and starting, at each node
+    const before = this.getTopologicalLayers(nodeIds, edges);
+    const after = this.getTopologicalLayers(
+      nodeIds,
+      edges.map(edge => ({ ...edge, source: edge.target, target: edge.source }))
+    );
+    const length = Math.max(0, ...before.values());
+
+    if (!length) {
+      return { longestPath: empty, criticalPath: empty };
+    }
+
+    const critical = edges.filter(
+      ({ source, target }) =>
+        before.get(source)! + 1 + after.get(target)! === length
+    );
+    const criticalNodes = new Set(
+      critical.flatMap(({ source, target }) => [source, target])
+    );
+
+    // Follows critical edges from a start of a longest path
+    const criticalFrom = this.getAdjacency(nodeIds, critical);
+    const path: IEdge[] = [];
+    let id = nodeIds.find(
+      start => criticalNodes.has(start) && before.get(start) === 0
+    )!;
+
+    while (path.length < length) {
+      const [edge] = criticalFrom.get(id)!;
+
+      path.push(edge);
+      id = edge.target;
+    }
+
+    return {
+      longestPath: {
+        nodeIds: [path[0].source, ...path.map(({ target }) => target)],
+        edgeIds: path.map(({ id }) => id),
+      },
+      criticalPath: {
+        nodeIds: nodeIds.filter(id => criticalNodes.has(id)),
+        edgeIds: critical.map(({ id }) => id),
+      },
+    };
+  }
+
+  /**
+   * Node ids of the weakly connected components, with union-find
+   * @private
+   */
+  private findComponents(nodeIds: string[], edges: IEdge[]): string[][] {
+    const parents = new Map(nodeIds.map(id => [id, id]));
+    const find = (id: string): string => {
+      while (parents.get(id) !== id) {
+        parents.set(id, parents.get(parents.get(id)!)!);
+        id = parents.get(id)!;
+      }
+      return id;
+    };
+
+    edges.forEach(({ source, target }) =>
+      parents.set(find(source), find(target))
+    );
+
+    const components = new Map<string, string[]>();
+
+    nodeIds.forEach(id => {
+      const root = find(id);
+
+      if (!components.has(root)) {
+        components.set(root, []);
+      }
+
+      components.get(root)!.push(id);
+    });
+
+    return this.bySize([...components.values()]);
+  }
+
+  /**
+   * Number of edges on the longest path ending at each node of an acyclic graph
+   * @private
+   */
+  private getTopologicalLayers(
+    nodeIds: string[],
+    edges: IEdge[]
+  ): Map<string, number> {
+    const adjacency = this.getAdjacency(nodeIds, edges);
+    const inDegree = new Map(nodeIds.map(id => [id, 0]));
+    const layers = new Map(nodeIds.map(id => [id, 0]));
+
+    edges.forEach(({ target }) =>
+      inDegree.set(target, inDegree.get(target)! + 1)
+    );
+
+    const queue = nodeIds.filter(id => !inDegree.get(id));
+
+    for (let i = 0; i < queue.length; i++) {
+      adjacency.get(queue[i])!.forEach(({ target }) => {
+        layers.set(
+          target,
+          Math.max(layers.get(target)!, layers.get(queue[i])! + 1)
+        );
+        inDegree.set(target, inDegree.get(target)! - 1);
+
+        if (!inDegree.get(target)) {
+          queue.push(target);
+        }
+      });
+    }
+
+    return layers;
+  }
+
+  /**
+   * @private
+   */
+  private getAdjacency(nodeIds: string[], edges: IEdge[]): Adjacency {
+    const adjacency: Adjacency = new Map(nodeIds.map(id => [id, []]));
+
+    edges.forEach(edge => adjacency.get(edge.source)?.push(edge));
+
+    return adjacency;
+  }
+
+  /**
+   * @private
+   */
+  private bySize(components: string[][]): string[][] {
+    return [...components].sort((a, b) => b.length - a.length);
+  }
+}
@@ -0,0 +1,263 @@
+import { GraphValidator } from './graph-validator';
+import { IEdge, IGroup, ILayoutInput, INode } from '../models/graph.interface';
+
+describe('GraphValidator', () => {
+  let validator: GraphValidator;
+
+  const group = (id: string, parentId: string | null = null): IGroup => ({
+    id,
+    size: { width: 200, height: 200 },
+    parentId,
+  });
+  const node = (id: string, parentId: string | null = null): INode => ({
+    id,
+    size: { width: 120, height: 60 },
+    parentId,
+  });
+  const edge = (id: string, source: string, target: string): IEdge => ({
+    id,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+  });
+  const graph = (input: Partial<ILayoutInput>): ILayoutInput => ({
+    groups: [],
+    nodes: [],
+    edges: [],
+    enableGroups: true,
+    ...input,
+  });
+
+  beforeEach(() => {
+    validator = new GraphValidator();
+  });
+
+  it('should accept a valid graph', () => {
+    const input = graph({
+      groups: [group('g1'), group('g2', 'g1')],
+      nodes: [node('a', 'g2'), node('b')],
+      edges: [edge('e1', 'a', 'b')],
+    });
+
+    expect(validator.validate(input)).toEqual([]);
+  });
+
+  describe('duplicate-id', () => {
+    const input = graph({
+      groups: [group('x')],
+      nodes: [node('x'), node('a'), node('b')],
+      edges: [edge('a', 'a', 'b')],
+    });
+
+    it('should report ids used by several elements', () => {
+      expect(validator.validate(input)).toEqual([
+        {
+          code: 'duplicate-id',
+          severity: 'error',
+          message: 'Id "x" is used by 2 elements',
+          ids: ['x'],
+        },
+        {
+          code: 'duplicate-id',
+          severity: 'error',
+          message: 'Id "a" is used by 2 elements',
+          ids: ['a'],
+        },
+      ]);
+    });
+
+    it('should rename the later elements, references keep the first', () => {
+      const repaired = validator.repair(input, ['duplicate-id']);
+
+      expect(repaired.groups.map(({ id }) => id)).toEqual(['x']);
+      expect(repaired.nodes.map(({ id }) => id)).toEqual(['x_2', 'a', 'b']);
+      expect(repaired.edges.map(({ id }) => id)).toEqual(['a_2']);
+      expect(validator.validate(repaired)).toEqual([]);
+    });
+  });
+
+  describe('invalid-size', () => {
+    const input = graph({
+      nodes: [
+        { ...node('a'), size: { width: NaN, height: 60 } },
+        { ...node('b'), size: { width: 0, height: 60 } },
+      ],
+    });
+
+    it('should report invalid sizes as errors and empty ones as warnings', () => {
+      expect(
+        validator.validate(input).map(({ severity, ids }) => [severity, ids])
+      ).toEqual([
+        ['error', ['a']],
+        ['warning', ['b']],
+      ]);
+    });
+
+    it('should size the nodes to their labels', () => {
+      const repaired = validator.repair(input, ['invalid-size']);
+
+      repaired.nodes.forEach(({ size }) => {
+        expect(size.width).toBeGreaterThan(0);
+        expect(size.height).toBeGreaterThan(0);
+      });
+      expect(validator.validate(repaired)).toEqual([]);
+    });
+  });
+
+  describe('missing-parent', () => {
+    const input = graph({
+      groups: [group('g1', 'gone')],
+      nodes: [node('a', 'gone'), node('b', 'g1')],
+    });
+
+    it('should report elements in missing groups', () => {
+      expect(validator.validate(input).map(({ message }) => message)).toEqual([
+        'Group "g1" is in missing group "gone"',
+        'Node "a" is in missing group "gone"',
+      ]);
+    });
+
+    it('should only check parents with groups enabled', () => {
+      expect(validator.validate({ ...input, enableGroups: false })).toEqual([]);
+    });
+
+    it('should move the elements to root level', () => {
+      const repaired = validator.repair(input, ['missing-parent']);
+
+      expect(repaired.groups[0].parentId).toBeNull();
+      expect(repaired.nodes.map(({ parentId }) => parentId)).toEqual([
+        null,
+        'g1',
+      ]);
+    });
+  });
+
+  describe('parent-cycle', () => {
+    const input = graph({
+      groups: [group('g1', 'g3'), group('g2', 'g1'), group('g3', 'g2')],
+    });
+
+    it('should report each cycle once with all its groups', () => {
+      expect(validator.validate(input)).toEqual([
+        {
+          code: 'parent-cycle',
+          severity: 'error',
+          message: 'Groups "g1", "g3", "g2" contain each other',
+          ids: ['g1', 'g3', 'g2'],
+        },
+      ]);
+    });
+
+    it('should move the first group of the cycle to root level', () => {
+      const repaired = validator.repair(input, ['parent-cycle']);
+
+      expect(repaired.groups.map(({ parentId }) => parentId)).toEqual([
+        null,
+        'g1',
+        'g2',
+      ]);
+    });
+  });
+
+  describe('dangling-edge', () => {
+    const input = graph({
+      nodes: [node('a')],
+      edges: [edge('e1', 'a', 'gone'), edge('e2', 'x', 'y')],
+    });
+
+    it('should report edges to missing nodes', () => {
+      expect(validator.validate(input).map(({ message }) => message)).toEqual([
+        'Edge "e1" connects missing node "gone"',
+        'Edge "e2" connects missing node "x" and "y"',
+      ]);
+    });
+
+    it('should drop the edges', () => {
+      expect(validator.repair(input, ['dangling-edge']).edges).toEqual([]);
+    });
+  });
+
+  describe('unknown-port', () => {
+    const input = graph({
+      nodes: [
+        {
+          ...node('a'),
+          outputs: [{ id: 'a-out', side: 'SOUTH', order: 0 }],
+        },
+        node('b'),
+      ],
+      edges: [{ ...edge('e1', 'a', 'b'), targetHandle: 'b-in' }],
+    });
+
+    it('should report handles that are no ports of the nodes as warnings', () => {
+      expect(validator.validate(input)).toEqual([
+        {
+          code: 'unknown-port',
+          severity: 'warning',
+          message:
+            'Edge "e1" uses unknown port "a" and "b-in", it is attached to the node instead',
+          ids: ['e1'],
+        },
+      ]);
+    });
+
+    it('should connect to the first port or the node itself', () => {
+      const [repaired] = validator.repair(input, ['unknown-port']).edges;
+
+      expect(repaired.sourceHandle).toBe('a-out');
+      expect(repaired.targetHandle).toBe('b');
+    });
+  });
+
+  describe('self-loop', () => {
+    const input = graph({
+      nodes: [node('a')],
+      edges: [edge('e1', 'a', 'a')],
+    });
+
+    it('should report loops as warnings', () => {
+      expect(validator.validate(input)).toEqual([
+        {
+          code: 'self-loop',
+          severity: 'warning',
+          message: 'Edge "e1" connects node "a" to itself',
+          ids: ['e1'],
+        },
+      ]);
+    });
+
+    it('should drop the edges', () => {
+      expect(validator.repair(input, ['self-loop']).edges).toEqual([]);
+    });
+  });
+
+  it('should repair every kind of problem in one call by default', () => {
+    const input = graph({
+      groups: [group('g1', 'g2'), group('g2', 'g1')],
+      nodes: [
+        node('a', 'gone'),
+        node('a'),
+        { ...node('b'), size: { width: -1, height: 10 } },
+      ],
+      edges: [
+        edge('e1', 'a', 'b'),
+        edge('e2', 'b', 'b'),
+        edge('e3', 'b', 'gone'),
+      ],
+    });
+
+    expect(validator.validate(validator.repair(input))).toEqual([]);
+  });
+
+  it('should only repair the given kinds', () => {
+    const input = graph({
+      nodes: [node('a')],
+      edges: [edge('e1', 'a', 'a'), edge('e2', 'a', 'gone')],
+    });
+
+    expect(
+      validator.repair(input, ['self-loop']).edges.map(({ id }) => id)
+    ).toEqual(['e2']);
+  });
+});
@@ -0,0 +1,455 @@
+import {
+  GraphDiagnosticCode,
+  IGraphDiagnostic,
+} from '../models/graph-diagnostic.interface';
+import { IEdge, IGroup, ILayoutInput, INode } from '../models/graph.interface';
+import { getNodeSizeForLabel } from '../utils/text-measure';
+
+// Kinds of problems repaired when no kinds are given
+const DIAGNOSTIC_CODES: GraphDiagnosticCode[] = [
+  'duplicate-id',
+  'invalid-size',
+  'missing-parent',
+  'parent-cycle',
+  'dangling-edge',
+  'self-loop',
+  'unknown-port',
+];
+
+/**
+ * Raised when a graph can't be laid out, lists the errors found
+ */
+export class GraphValidationError extends Error {
+  constructor(public readonly diagnostics: IGraphDiagnostic[]) {
+    super(
+      `Invalid graph:\n${diagnostics.map(({ message }) => message).join('\n')}`
+    );
+    this.name = 'GraphValidationError';
+  }
+}
+
+/**
+ * Checks graphs before layout and repairs the problems found
+ * ELK throws on broken references and duplicate ids and lays out invalid sizes
+ * as NaN, so these are reported up front with the elements involved.
+ */
+export class GraphValidator {
+  /**
+   * Finds the problems of a graph, parents are only checked with groups enabled
+   * @returns Diagnostics in graph order, empty when the graph is valid
+   */
+  public validate(input: ILayoutInput): IGraphDiagnostic[] {
+    return [
+      ...this.findDuplicateIds(input),
+      ...this.findInvalidSizes(input.nodes),
+      ...(input.enableGroups
+        ? [
+            ...this.findMissingParents(input.groups, input.nodes),
+            ...this.findParentCycles(input.groups),
+          ]
+        : []),
+      ...this.findEdgeProblems(input.nodes, input.edges),
+    ];
+  }
+
+  /**
+   * Repairs the problems of the given kinds, all kinds by default
+   * Problems are repaired in dependency order: ids are made unique before
+   * references are checked, so a single call leaves no repairable problem behind.
+   * @returns The repaired graph, unchanged elements are kept as they are
+   */
+  public repair(
+    input: ILayoutInput,
+    codes?: GraphDiagnosticCode[]
+  ): ILayoutInput {
+    const repairs = new Set(codes ?? DIAGNOSTIC_CODES);
+    let { groups, nodes, edges } = input;
+
+    if (repairs.has('duplicate-id')) {
+      ({ groups, nodes, edges } = this.renameDuplicates(groups, nodes, edges));
+    }
+
+    if (repairs.has('invalid-size')) {
+      nodes = nodes.map(node =>
+        this.getSizeProblem(node) ? this.resizeNode(node) : node
+      );
+    }
+
+    if (repairs.has('missing-parent')) {
+      const groupIds = new Set(groups.map(group => group.id));
+      const toRoot = <T extends IGroup | INode>(element: T): T =>
+        element.parentId && !groupIds.has(element.parentId)
+          ? { ...element, parentId: null }
+          : element;
+
+      groups = groups.map(toRoot);
+      nodes = nodes.map(toRoot);
+    }
+
+    if (repairs.has('parent-cycle')) {
+      groups = this.breakParentCycles(groups);
+    }
+
+    if (repairs.has('dangling-edge')) {
+      const nodeIds = new Set(nodes.map(node => node.id));
+      edges = edges.filter(
+        edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)
+      );
+    }
+
+    if (repairs.has('self-loop')) {
+      edges = edges.filter(edge => edge.source !== edge.target);
+    }
+
+    if (repairs.has('unknown-port')) {
+      edges = this.reconnectPorts(nodes, edges);
+    }
+
+    return { ...input, groups, nodes, edges };
+  }
+
+  /**
+   * Ids must be unique across groups, nodes, ports and edges, as in ELK
+   * @private
+   */
+  private findDuplicateIds(input: ILayoutInput): IGraphDiagnostic[] {
+    const counts = new Map<string, number>();
+
+    this.getElementIds(input).forEach(id =>
+      counts.set(id, (counts.get(id) ?? 0) + 1)
+    );
+
+    return [...counts]
+      .filter(([, count]) => count > 1)
+      .map(([id, count]) => ({
+        code: 'duplicate-id',
+        severity: 'error',
+        message: `Id "${id}" is used by ${count} elements`,
+        ids: [id],
+      }));
+  }
+
+  /**
+   * Sizes must be finite and positive, zero-sized nodes are laid out on top of each other
+   * @private
+   */
+  private findInvalidSizes(nodes: INode[]): IGraphDiagnostic[] {
+    return nodes.flatMap(node => {
+      const problem = this.getSizeProblem(node);
+
+      if (!problem) {
+        return [];
+      }
+
+      return [
+        {
+          code: 'invalid-size',
+          severity: problem === 'zero' ? 'warning' : 'error',
+          message:
+            problem === 'zero'
+              ? `Node "${node.id}" has zero width or height`
+              : `Node "${node.id}" has an invalid size`,
+          ids: [node.id],
+        },
+      ];
+    });
+  }
+
+  /**
+   * Parents must be existing groups
+   * @private
+   */
+  private findMissingParents(
+    groups: IGroup[],
+    nodes: INode[]
+  ): IGraphDiagnostic[] {
+    const groupIds = new Set(groups.map(group => group.id));
+
+    return [
+      ...groups.map(group => ({ element: group, kind: 'Group' })),
+      ...nodes.map(node => ({ element: node, kind: 'Node' })),
+    ]
+      .filter(
+        ({ element }) => element.parentId && !groupIds.has(element.parentId)
+      )
+      .map(({ element, kind }) => ({
+        code: 'missing-parent',
+        severity: 'error',
+        message: `${kind} "${element.id}" is in missing group "${element.parentId}"`,
+        ids: [element.id],
+      }));
+  }
+
+  /**
+   * A group can't contain itself, reports each cycle once with all its groups
+   * @private
+   */
+  private findParentCycles(groups: IGroup[]): IGraphDiagnostic[] {
+    return this.getParentCycles(groups).map(cycle => ({
+      code: 'parent-cycle',
+      severity: 'error',
+      message: `Groups ${cycle.map(id => `"${id}"`).join(', ')} contain each other`,
+      ids: cycle,
+    }));
+  }
+
+  /**
+   * Edges must connect existing nodes through their ports
+   * @private
+   */
+  private findEdgeProblems(nodes: INode[], edges: IEdge[]): IGraphDiagnostic[] {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+    return edges.flatMap<IGraphDiagnostic>(edge => {
+      const missing = [edge.source, edge.target].filter(
+        id => !nodesById.has(id)
+      );
+
+      if (missing.length) {
+        return [
+          {
+            code: 'dangling-edge',
+            severity: 'error',
+            message: `Edge "${edge.id}" connects missing node ${missing.map(id => `"${id}"`).join(' and ')}`,
+            ids: [edge.id],
+          },
+        ];
+      }
+
+      const diagnostics: IGraphDiagnostic[] = [];
+      const unknownHandles = this.getUnknownHandles(edge, nodesById);
+
+      if (unknownHandles.length) {
+        diagnostics.push({
+          code: 'unknown-port',
+          severity: 'warning',
+          message: `Edge "${edge.id}" uses unknown port ${unknownHandles.map(id => `"${id}"`).join(' and ')}, it is attached to the node instead`,
+          ids: [edge.id],
+        });
+      }
+
+      if (edge.source === edge.target) {
+        diagnostics.push({
+          code: 'self-loop',
+          severity: 'warning',
+          message: `Edge "${edge.id}" connects node "${edge.source}" to itself`,
+          ids: [edge.id],
+        });
+      }
+
+      return diagnostics;
+    });
+  }
+
+  /**
+   * Ids of all laid out elements in graph order, ports after their node
+   * @private
+   */
+  private getElementIds({ groups, nodes, edges }: ILayoutInput): string[] {
+    return [
+      ...groups.map(group => group.id),
+      ...nodes.flatMap(node => [
+        node.id,
+        ...[...(node.inputs ?? []), ...(node.outputs ?? [])].map(
+          port => port.id
+        ),
+      ]),
+      ...edges.map(edge => edge.id),
+    ];
+  }
+
+  /**
+   * @returns 'invalid' for missing, non-finite or negative sizes,
+   * 'zero' for an empty width or height, null for a valid size
+   * @private
+   */
+  private getSizeProblem(node: INode): 'invalid' | 'zero' | null {
+    const { width, height } = node.size ?? {};
+    const isValid = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    if (!isValid(width) || !isValid(height)) {
+      return 'invalid';
+    }
+
+    return width === 0 || height === 0 ? 'zero' : null;
+  }
+
+  /**
+   * Handles of an edge that aren't ports of its nodes
+   * Nodes without ports of a kind are connected through their own id
+   * @private
+   */
+  private getUnknownHandles(
+    edge: IEdge,
+    nodesById: Map<string, INode>
+  ): string[] {
+    const source = nodesById.get(edge.source)!;
+    const target = nodesById.get(edge.target)!;
+    const outputs = source.outputs?.map(port => port.id) ?? [source.id];
+    const inputs = target.inputs?.map(port => port.id) ?? [target.id];
+
+    return [
+      ...(outputs.includes(edge.sourceHandle) ? [] : [edge.sourceHandle]),
+      ...(inputs.includes(edge.targetHandle) ? [] : [edge.targetHandle]),
+    ];
+  }
+
+  /**
+   * Groups of each parent cycle, in parent order starting from the first one listed
+   * @private
+   */
+  private getParentCycles(groups: IGroup[]): string[][] {
+    const groupsById = new Map(groups.map(group => [group.id, group]));
+    const visited = new Set<string>();
+    const cycles: string[][] = [];
+
+    groups.forEach(group => {
+      // Follows the parent chain until it reaches root, a visited group or itself
+      const chain: string[] = [];
+      let id: string | null | undefined = group.id;
+
+      while (id && groupsById.has(id) && !visited.has(id)) {
+        visited.add(id);
+        chain.push(id);
+        id = groupsById.get(id)!.parentId;
+      }
+
+      const start = id ? chain.indexOf(id) : -1;
+      if (start >= 0) {
+        cycles.push(chain.slice(start));
+      }
+    });
+
+    return cycles;
+  }
+
+  /**
+   * Gives later elements with an id already in use a new unique id
+   * References keep pointing to the first element, except port handles of edges
+   * attached to the renamed port's node
+   * @private
+   */
+  private renameDuplicates(
+    groups: IGroup[],
+    nodes: INode[],
+    edges: IEdge[]
+  ): Pick<ILayoutInput, 'groups' | 'nodes' | 'edges'> {
+    const used = new Set(
+      this.getElementIds({ groups, nodes, edges } as ILayoutInput)
+    );
+    const seen = new Set<string>();
+    const rename = (id: string): string => {
+      if (!seen.has(id)) {
+        seen.add(id);
+        return id;
+      }
+
+      let index = 2;
+      while (used.has(`${id}_${index}`)) {
+        index++;
+      }
+
+      const unique = `${id}_${index}`;
+      used.add(unique);
+      seen.add(unique);
+      return unique;
+    };
+    const withId = <T extends { id: string }>(element: T): T => {
+      const id = rename(element.id);
+      return id === element.id ? element : { ...element, id };
+    };
+
+    // Renamed ports by node id and old port id
+    const portIds = new Map<string, Map<string, string>>();
+    const renamePorts = (node: INode, key: 'inputs' | 'outputs') =>
+      node[key]?.map(port => {
+        const renamed = withId(port);
+        if (renamed !== port) {
+          const ports = portIds.get(node.id) ?? new Map<string, string>();
+          portIds.set(node.id, ports.set(port.id, renamed.id));
+        }
+        return renamed;
+      });
+
+    const renamedGroups = groups.map(withId);
+    const renamedNodes = nodes.map(node => {
+      const renamed = withId(node);
+      const inputs = renamePorts(node, 'inputs');
+      const outputs = renamePorts(node, 'outputs');
+
+      return inputs === node.inputs && outputs === node.outputs
+        ? renamed
+        : { ...renamed, inputs, outputs };
+    });
+    const renamedEdges = edges.map(edge => {
+      const renamed = withId(edge);
+      const sourceHandle =
+        portIds.get(edge.source)?.get(edge.sourceHandle) ?? edge.sourceHandle;
+      const targetHandle =
+        portIds.get(edge.target)?.get(edge.targetHandle) ?? edge.targetHandle;
+
+      return sourceHandle === edge.sourceHandle &&
+        targetHandle === edge.targetHandle
+        ? renamed
+        : { ...renamed, sourceHandle, targetHandle };
+    });
+
+    return { groups: renamedGroups, nodes: renamedNodes, edges: renamedEdges };
+  }
+
+  /**
+   * Sizes a node to fit its label, or its id when it has none
+   * @private
+   */
+  private resizeNode(node: INode): INode {
+    return { ...node, size: getNodeSizeForLabel(node.label ?? node.id) };
+  }
+
+  /**
+   * Moves the first group of every parent cycle to root level
+   * @private
+   */
+  private breakParentCycles(groups: IGroup[]): IGroup[] {
+    const roots = new Set(this.getParentCycles(groups).map(([id]) => id));
+
+    return groups.map(group =>
+      roots.has(group.id) ? { ...group, parentId: null } : group
+    );
+  }
+
+  /**
+   * Attaches edges with unknown handles to the first port of the right kind,
+   * or to the node itself when it has no such ports
+   * @private
+   */
+  private reconnectPorts(nodes: INode[], edges: IEdge[]): IEdge[] {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+    return edges.map(edge => {
+      const source = nodesById.get(edge.source);
+      const target = nodesById.get(edge.target);
+
+      if (
+        !source ||
+        !target ||
+        !this.getUnknownHandles(edge, nodesById).length
+      ) {
+        return edge;
+      }
+
+      const outputs = source.outputs?.map(port => port.id) ?? [source.id];
+      const inputs = target.inputs?.map(port => port.id) ?? [target.id];
+
+      return {
+        ...edge,
+        sourceHandle: outputs.includes(edge.sourceHandle)
+          ? edge.sourceHandle
+          : (outputs[0] ?? source.id),
+        targetHandle: inputs.includes(edge.targetHandle)
+          ? edge.targetHandle
+          : (inputs[0] ?? target.id),
+      };
+    });
+  }
+}
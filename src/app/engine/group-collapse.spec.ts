@@ -0,0 +1,144 @@
+import { collapseGroups, COLLAPSED_GROUP_MIN_SIZE } from './group-collapse';
+import { IEdge, IGroup, ILayoutInput, INode } from '../models/graph.interface';
+
+describe('collapseGroups', () => {
+  const group = (
+    id: string,
+    parentId: string | null,
+    collapsed = false
+  ): IGroup => ({
+    id,
+    size: { width: 200, height: 200 },
+    position: { x: 10, y: 20 },
+    parentId,
+    collapsed,
+  });
+  const node = (id: string, parentId: string | null): INode => ({
+    id,
+    size: { width: 120, height: 60 },
+    parentId,
+  });
+  const edge = (
+    id: string,
+    source: string,
+    target: string,
+    fields: Partial<IEdge> = {}
+  ): IEdge => ({
+    id,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+    ...fields,
+  });
+
+  // g1 is collapsed with g2 inside it, g3 is collapsed on its own
+  const input: ILayoutInput = {
+    groups: [
+      group('g1', null, true),
+      group('g2', 'g1'),
+      group('g3', null, true),
+    ],
+    nodes: [
+      node('a', 'g1'),
+      node('b', 'g2'),
+      node('c', null),
+      node('d', null),
+      node('e', 'g3'),
+    ],
+    edges: [
+      edge('e1', 'a', 'c', { kind: 'data' }),
+      edge('e2', 'b', 'c', { weight: 3 }),
+      edge('e3', 'c', 'a', { priority: 7, label: 'back' }),
+      edge('e4', 'a', 'b'),
+      edge('e5', 'c', 'd'),
+      edge('e6', 'b', 'e', { kind: 'control' }),
+    ],
+    enableGroups: true,
+  };
+
+  it('should return the input when no group is collapsed', () => {
+    const expanded = {
+      ...input,
+      groups: input.groups.map(group => ({ ...group, collapsed: false })),
+    };
+
+    expect(collapseGroups(expanded)).toBe(expanded);
+    expect(collapseGroups({ ...input, enableGroups: false }).nodes).toBe(
+      input.nodes
+    );
+  });
+
+  it('should replace collapsed groups by nodes counting their content', () => {
+    const { groups, nodes } = collapseGroups(input);
+
+    expect(groups).toEqual([]);
+    expect(nodes.map(({ id }) => id)).toEqual(['g1', 'g3', 'c', 'd']);
+    expect(nodes[0]).toEqual(
+      jasmine.objectContaining({
+        id: 'g1',
+        position: { x: 10, y: 20 },
+        parentId: null,
+        collapsed: { groups: 1, nodes: 2 },
+      })
+    );
+    expect(nodes[1].collapsed).toEqual({ groups: 0, nodes: 1 });
+    expect(nodes[0].size.width).toBeGreaterThanOrEqual(
+      COLLAPSED_GROUP_MIN_SIZE.width
+    );
+  });
+
+  it('should aggregate edges by external end and direction', () => {
+    const { edges } = collapseGroups(input);
+
+    expect(
+      edges.map(({ id, aggregatedEdgeIds }) => [id, aggregatedEdgeIds])
+    ).toEqual([
+      ['e5', undefined],
+      ['collapsed:g1->c', ['e1', 'e2']],
+      ['collapsed:c->g1', ['e3']],
+      ['collapsed:g1->g3', ['e6']],
+    ]);
+  });
+
+  it('should label aggregated edges with their count or keep a single label', () => {
+    const [, outgoing, incoming] = collapseGroups(input).edges;
+
+    expect(outgoing.label).toBe('×2');
+    expect(incoming.label).toBe('back');
+  });
+
+  it('should add up weights and keep the highest priority', () => {
+    const [, outgoing, incoming] = collapseGroups(input).edges;
+
+    // data kind weight 10 plus weight 3, the data kind's priority of 10
+    expect(outgoing.weight).toBe(13);
+    expect(outgoing.priority).toBe(10);
+    // An edge without a weight counts as 1
+    expect(incoming.weight).toBe(1);
+    expect(incoming.priority).toBe(7);
+  });
+
+  it('should keep the kind only when all aggregated edges share it', () => {
+    const [, outgoing, incoming, between] = collapseGroups(input).edges;
+
+    expect(outgoing.kind).toBeUndefined();
+    expect(incoming.kind).toBeUndefined();
+    expect(between.kind).toBe('control');
+    expect(between.weight).toBe(2);
+    expect(between.priority).toBe(2);
+  });
+
+  it('should connect aggregated edges to the collapsed group nodes', () => {
+    const [, outgoing] = collapseGroups(input).edges;
+
+    expect(outgoing).toEqual(
+      jasmine.objectContaining({
+        source: 'g1',
+        target: 'c',
+        sourceHandle: 'g1',
+        targetHandle: 'c',
+      })
+    );
+  });
+});
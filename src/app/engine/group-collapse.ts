@@ -0,0 +1,180 @@
+import { ISize } from '@foblex/2d';
+import {
+  ICollapsedContent,
+  IEdge,
+  IGroup,
+  ILayoutInput,
+  INode,
+} from '../models/graph.interface';
+import { getNodeSizeForLabel } from '../utils/text-measure';
+import { getEdgePriorities } from './edge-priorities';
+
+/**
+ * Smallest node drawn for a collapsed group, leaves room for its toggle and summary
+ */
+export const COLLAPSED_GROUP_MIN_SIZE: ISize = { width: 160, height: 90 };
+
+/**
+ * Replaces collapsed groups by single nodes, the graph as it is laid out and shown
+ * A collapsed group becomes a node with the group's id, its content is left out.
+ * Edges crossing its boundary are aggregated into one edge per external endpoint
+ * (node, port or other collapsed group) and direction, edges inside it are left
+ * out. Groups nested in a collapsed group are hidden with it, collapsed or not.
+ * @returns The input itself when no group is collapsed or groups are disabled
+ */
+export function collapseGroups(input: ILayoutInput): ILayoutInput {
+  const { groups, nodes, edges, enableGroups } = input;
+
+  if (!enableGroups || !groups.some(group => group.collapsed)) {
+    return input;
+  }
+
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+
+  // Outermost collapsed group enclosing a parent, including the parent itself
+  const getCollapsedOwner = (parentId?: string | null): IGroup | undefined => {
+    let owner: IGroup | undefined;
+    const visited = new Set<string>();
+
+    for (let id = parentId; id && !visited.has(id); ) {
+      const group = groupsById.get(id);
+      visited.add(id);
+
+      if (group?.collapsed) {
+        owner = group;
+      }
+
+      id = group?.parentId;
+    }
+
+    return owner;
+  };
+
+  const content = new Map<string, ICollapsedContent>();
+  const count = (owner: IGroup, key: keyof ICollapsedContent) => {
+    const counts = content.get(owner.id) ?? { groups: 0, nodes: 0 };
+    content.set(owner.id, { ...counts, [key]: counts[key] + 1 });
+  };
+
+  const visibleGroups: IGroup[] = [];
+  const collapsedGroups: IGroup[] = [];
+
+  groups.forEach(group => {
+    const owner = getCollapsedOwner(group.parentId);
+
+    if (owner) {
+      count(owner, 'groups');
+    } else if (group.collapsed) {
+      collapsedGroups.push(group);
+    } else {
+      visibleGroups.push(group);
+    }
+  });
+
+  // Hidden nodes are represented by their collapsed group
+  const representatives = new Map<string, string>();
+  const visibleNodes: INode[] = [];
+
+  nodes.forEach(node => {
+    const owner = getCollapsedOwner(node.parentId);
+
+    if (owner) {
+      count(owner, 'nodes');
+      representatives.set(node.id, owner.id);
+    } else {
+      visibleNodes.push(node);
+    }
+  });
+
+  const visibleEdges: IEdge[] = [];
+  const aggregated = new Map<string, IEdge[]>();
+
+  edges.forEach(edge => {
+    const source = representatives.get(edge.source);
+    const target = representatives.get(edge.target);
+
+    if (!source && !target) {
+      visibleEdges.push(edge);
+      return;
+    }
+
+    // Both ends are hidden in the same collapsed group
+    if (source && source === target) {
+      return;
+    }
+
+    const aggregate: IEdge = {
+      ...edge,
+      source: source ?? edge.source,
+      target: target ?? edge.target,
+      sourceHandle: source ?? edge.sourceHandle,
+      targetHandle: target ?? edge.targetHandle,
+    };
+    const key = `${aggregate.sourceHandle}->${aggregate.targetHandle}`;
+
+    aggregated.set(key, [...(aggregated.get(key) ?? []), aggregate]);
+  });
+
+  aggregated.forEach((members, key) => {
+    const [first] = members;
+    const priorities = members.map(getEdgePriorities);
+    const directions = priorities
+      .map(({ direction }) => direction)
+      .filter(direction => direction !== undefined);
+
+    visibleEdges.push({
+      id: `collapsed:${key}`,
+      source: first.source,
+      target: first.target,
+      sourceHandle: first.sourceHandle,
+      targetHandle: first.targetHandle,
+      // A single edge keeps its label, several are labelled with their count
+      label: members.length > 1 ? `×${members.length}` : first.label,
+      aggregatedEdgeIds: members.map(({ id }) => id),
+      // Weights, the kind's included, add up and an edge without one counts
+      // as 1. The highest priority wins, the kind is kept when all share it.
+      weight: priorities.reduce(
+        (sum, { shortness }) => sum + (shortness ?? 1),
+        0
+      ),
+      ...(directions.length > 0 && { priority: Math.max(...directions) }),
+      ...(members.every(({ kind }) => kind === first.kind) &&
+        first.kind && { kind: first.kind }),
+    });
+  });
+
+  return {
+    groups: visibleGroups,
+    nodes: [
+      ...collapsedGroups.map(group =>
+        createCollapsedNode(
+          group,
+          content.get(group.id) ?? { groups: 0, nodes: 0 }
+        )
+      ),
+      ...visibleNodes,
+    ],
+    edges: visibleEdges,
+    enableGroups,
+  };
+}
+
+/**
+ * Node standing for a collapsed group, it keeps the group's id, position and pin
+ */
+function createCollapsedNode(
+  group: IGroup,
+  collapsed: ICollapsedContent
+): INode {
+  const label = group.label ?? 'Group';
+
+  return {
+    id: group.id,
+    label,
+    size: getNodeSizeForLabel(label, COLLAPSED_GROUP_MIN_SIZE),
+    position: group.position,
+    parentId: group.parentId ?? null,
+    pinned: group.pinned,
+    collapsed,
+  };
+}
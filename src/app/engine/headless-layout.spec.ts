@@ -0,0 +1,275 @@
+import { ElkLayoutEngine } from './elk-layout.engine';
+import { GraphValidationError } from './graph-validator';
+import {
+  getHeadlessLayoutErrorResponse,
+  HeadlessLayout,
+  HeadlessLayoutError,
+  parseHeadlessLayoutRequest,
+} from './headless-layout';
+import { IGraphDocument } from '../models/graph-document.interface';
+import { ILayoutOutput } from '../models/graph.interface';
+import { DEFAULT_LAYOUT_CONFIG } from '../models/layout-config.interface';
+import { getNodeSizeForLabel } from '../utils/text-measure';
+
+describe('HeadlessLayout', () => {
+  let headlessLayout: HeadlessLayout;
+
+  // Two nodes joined by an edge, sizes and handles left to the layout
+  const plain = {
+    nodes: [
+      { id: 'a', label: 'Gateway' },
+      { id: 'b', label: 'Database' },
+    ],
+    edges: [{ id: 'e', source: 'a', target: 'b' }],
+  };
+  const document: IGraphDocument = {
+    version: 2,
+    config: {
+      ...DEFAULT_LAYOUT_CONFIG,
+      enableGroups: false,
+      elkOptions: {
+        layered: { 'elk.layered.thoroughness': 20 },
+        force: { 'elk.force.iterations': 50 },
+      },
+    },
+    groups: [],
+    nodes: [
+      {
+        id: 'a',
+        size: { width: 100, height: 50 },
+        parentId: null,
+      },
+      {
+        id: 'b',
+        size: { width: 100, height: 50 },
+        parentId: null,
+      },
+    ],
+    edges: [
+      {
+        id: 'e',
+        source: 'a',
+        target: 'b',
+        sourceHandle: 'a',
+        targetHandle: 'b',
+      },
+    ],
+  };
+
+  const parse = (body: string): ILayoutOutput => JSON.parse(body);
+  // Options the engine was asked to lay the graph out with
+  const engineOptions = () =>
+    (
+      ElkLayoutEngine.prototype.calculateLayout as jasmine.Spy
+    ).calls.mostRecent().args[2];
+
+  beforeEach(() => {
+    headlessLayout = new HeadlessLayout();
+    spyOn(ElkLayoutEngine.prototype, 'calculateLayout').and.callThrough();
+  });
+
+  describe('parseHeadlessLayoutRequest', () => {
+    it('should leave unset options to the graph', () => {
+      expect(parseHeadlessLayoutRequest({})).toEqual({
+        format: undefined,
+        repair: false,
+        options: {},
+      });
+    });
+
+    it('should read flags and query parameters', () => {
+      expect(
+        parseHeadlessLayoutRequest({
+          format: 'svg',
+          repair: '',
+          algorithm: 'force',
+          direction: 'UP',
+        })
+      ).toEqual({
+        format: 'svg',
+        repair: true,
+        options: { algorithm: 'force', direction: 'UP' },
+      });
+      expect(parseHeadlessLayoutRequest({ repair: true }).repair).toBeTrue();
+      expect(parseHeadlessLayoutRequest({ repair: 'no' }).repair).toBeFalse();
+    });
+
+    it('should reject unknown values', () => {
+      expect(() => parseHeadlessLayoutRequest({ format: 'png' })).toThrowError(
+        HeadlessLayoutError,
+        'Unknown format "png", expected one of json, svg'
+      );
+      expect(() =>
+        parseHeadlessLayoutRequest({ algorithm: 'circle' })
+      ).toThrowError(HeadlessLayoutError);
+    });
+  });
+
+  describe('layout', () => {
+    it('should lay a plain graph out as JSON', async () => {
+      const result = await headlessLayout.layout(plain);
+      const output = parse(result.body);
+
+      expect(result.contentType).toBe('application/json');
+      expect(result.diagnostics).toEqual([]);
+      expect(output.nodes.every(node => node.position)).toBeTrue();
+      expect(output.nodes[0].size).toEqual(getNodeSizeForLabel('Gateway'));
+      expect(output.edges[0].route?.points.length).toBeGreaterThan(1);
+    });
+
+    it('should render an SVG image', async () => {
+      const result = await headlessLayout.layout(plain, { format: 'svg' });
+
+      expect(result.contentType).toBe('image/svg+xml');
+      expect(result.body).toMatch(/^<svg /);
+      expect(result.body).toContain('Gateway');
+    });
+
+    it('should apply the options of a plain graph below the ones of the request', async () => {
+      await headlessLayout.layout(
+        { ...plain, options: { algorithm: 'mrtree', direction: 'LEFT' } },
+        { options: { direction: 'UP' } }
+      );
+
+      expect(engineOptions()).toEqual({ algorithm: 'mrtree', direction: 'UP' });
+    });
+
+    it('should lay a document out with its settings', async () => {
+      await headlessLayout.layout(document);
+
+      expect(engineOptions()).toEqual(
+        jasmine.objectContaining({
+          algorithm: 'layered',
+          direction: 'DOWN',
+          elkOptions: { 'elk.layered.thoroughness': 20 },
+        })
+      );
+    });
+
+    it('should apply the option values a document keeps for the requested algorithm', async () => {
+      await headlessLayout.layout(document, {
+        options: { algorithm: 'force' },
+      });
+
+      expect(engineOptions()).toEqual(
+        jasmine.objectContaining({
+          algorithm: 'force',
+          elkOptions: { 'elk.force.iterations': 50 },
+        })
+      );
+    });
+
+    it('should check the options of a plain graph against the requested algorithm', async () => {
+      const graph = {
+        ...plain,
+        options: { elkOptions: { 'elk.layered.thoroughness': 20 } },
+      };
+
+      await expectAsync(headlessLayout.layout(graph)).toBeResolved();
+      await expectAsync(
+        headlessLayout.layout(graph, { options: { algorithm: 'force' } })
+      ).toBeRejectedWithError(
+        HeadlessLayoutError,
+        'Option "elk.layered.thoroughness" is not an option of force'
+      );
+    });
+
+    it('should reject option values out of range', async () => {
+      await expectAsync(
+        headlessLayout.layout({
+          ...plain,
+          options: { elkOptions: { 'elk.layered.thoroughness': 0 } },
+        })
+      ).toBeRejectedWithError(
+        HeadlessLayoutError,
+        'Option "elk.layered.thoroughness" must be between 1 and 50'
+      );
+      await expectAsync(
+        headlessLayout.layout({ ...plain, options: { direction: 'NORTH' } })
+      ).toBeRejectedWithError(HeadlessLayoutError);
+    });
+
+    it('should reject graphs it can not read', async () => {
+      await expectAsync(headlessLayout.layout([])).toBeRejectedWithError(
+        HeadlessLayoutError,
+        'Graph must be a JSON object'
+      );
+      await expectAsync(headlessLayout.layout({})).toBeRejectedWithError(
+        HeadlessLayoutError,
+        'nodes must be an array'
+      );
+      await expectAsync(
+        headlessLayout.layout({ nodes: [{ label: 'no id' }] })
+      ).toBeRejectedWithError(
+        HeadlessLayoutError,
+        'nodes[0] must be an object with a string id'
+      );
+    });
+
+    it('should reject graphs with errors unless repaired', async () => {
+      const broken = {
+        ...plain,
+        edges: [...plain.edges, { id: 'dangling', source: 'a', target: 'x' }],
+      };
+
+      await expectAsync(headlessLayout.layout(broken)).toBeRejectedWithError(
+        GraphValidationError
+      );
+
+      const result = await headlessLayout.layout(broken, { repair: true });
+
+      expect(result.diagnostics.map(({ code }) => code)).toEqual([
+        'dangling-edge',
+      ]);
+      expect(parse(result.body).edges.map(({ id }) => id)).toEqual(['e']);
+    });
+  });
+
+  describe('getHeadlessLayoutErrorResponse', () => {
+    it('should answer graphs with errors with a 422 listing them', () => {
+      const diagnostics = [
+        {
+          code: 'dangling-edge' as const,
+          severity: 'error' as const,
+          message: 'Edge "e" connects missing node "x"',
+          ids: ['e'],
+        },
+      ];
+
+      expect(
+        getHeadlessLayoutErrorResponse(new GraphValidationError(diagnostics))
+      ).toEqual({
+        status: 422,
+        body: {
+          error: 'Graph has errors, repair it or post it with ?repair=true',
+          diagnostics,
+        },
+      });
+    });
+
+    it('should answer unreadable requests with a 400', () => {
+      expect(
+        getHeadlessLayoutErrorResponse(new HeadlessLayoutError('bad graph'))
+      ).toEqual({ status: 400, body: { error: 'bad graph' } });
+      expect(
+        getHeadlessLayoutErrorResponse(new SyntaxError('Unexpected token'))
+      ).toEqual({
+        status: 400,
+        body: { error: 'Invalid JSON: Unexpected token' },
+      });
+    });
+
+    it('should answer graphs above the size limit with a 413', () => {
+      expect(
+        getHeadlessLayoutErrorResponse({ type: 'entity.too.large' })
+      ).toEqual({ status: 413, body: { error: 'Graph is larger than 10mb' } });
+    });
+
+    it('should leave other errors to the server', () => {
+      expect(
+        getHeadlessLayoutErrorResponse(new Error('ELK failed'))
+      ).toBeNull();
+      expect(getHeadlessLayoutErrorResponse(null)).toBeNull();
+    });
+  });
+});
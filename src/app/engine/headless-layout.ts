@@ -0,0 +1,345 @@
+import ELK, { ELK as ElkApi } from 'elkjs/lib/elk.bundled.js';
+import { ElkAlgorithm } from '../models/elk-option.interface';
+import { IGraphDiagnostic } from '../models/graph-diagnostic.interface';
+import {
+  IEdge,
+  IElkLayoutOptions,
+  IGroup,
+  ILayoutInput,
+  INode,
+} from '../models/graph.interface';
+import { LayoutConfig } from '../models/layout-config.interface';
+import {
+  DIRECTION_OPTIONS,
+  EDGE_ROUTING_OPTIONS,
+  ELK_OPTION_REGISTRY,
+  getElkOptionDefinitions,
+  NODE_PLACEMENT_OPTIONS,
+  validateElkOptionValue,
+} from '../registry/elk-option.registry';
+import { getElkLayoutOptions } from '../utils/layout-options';
+import { getNodeSizeForLabel } from '../utils/text-measure';
+import { ElkLayoutEngine } from './elk-layout.engine';
+import { GraphValidationError, GraphValidator } from './graph-validator';
+import { SvgDiagramRenderer } from './svg-diagram.renderer';
+
+export type HeadlessLayoutFormat = 'json' | 'svg';
+
+/**
+ * Largest graph accepted over HTTP
+ */
+export const HEADLESS_LAYOUT_BODY_LIMIT = '10mb';
+
+const FORMATS: HeadlessLayoutFormat[] = ['json', 'svg'];
+
+const ALGORITHMS = Object.keys(ELK_OPTION_REGISTRY) as ElkAlgorithm[];
+const DIRECTIONS = DIRECTION_OPTIONS.map(({ value }) => value);
+const EDGE_ROUTINGS = EDGE_ROUTING_OPTIONS.map(({ value }) => value);
+const NODE_PLACEMENTS = NODE_PLACEMENT_OPTIONS.map(({ value }) => value);
+
+/**
+ * How a headless layout is run and what it returns
+ */
+export interface IHeadlessLayoutRequest {
+  format?: HeadlessLayoutFormat; // laid-out graph as JSON (default) or an SVG image
+  repair?: boolean; // repairs graph errors instead of rejecting the graph
+  options?: Partial<IElkLayoutOptions>; // win over the settings stored in the graph
+}
+
+/**
+ * Laid-out graph, ready to be written to a file or an HTTP response
+ */
+export interface IHeadlessLayoutResult {
+  contentType: string;
+  body: string;
+  diagnostics: IGraphDiagnostic[]; // problems found before layout, repaired ones included
+}
+
+/**
+ * Raised when a graph or a request can't be read, e.g. the graph lacks nodes
+ */
+export class HeadlessLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HeadlessLayoutError';
+  }
+}
+
+/**
+ * HTTP answer to a layout request that failed
+ */
+export interface IHeadlessLayoutErrorResponse {
+  status: number;
+  body: { error: string; diagnostics?: IGraphDiagnostic[] };
+}
+
+/**
+ * Reads request settings given as text, e.g. CLI flags or URL query parameters
+ * @param params - format, repair ('true' or empty to enable), algorithm, direction
+ * @throws HeadlessLayoutError for unknown values
+ */
+export function parseHeadlessLayoutRequest(
+  params: Record<string, string | boolean | undefined>
+): IHeadlessLayoutRequest {
+  const { format, repair, algorithm, direction } = params;
+  const layoutAlgorithm = expectOneOf('algorithm', algorithm, ALGORITHMS);
+  const layoutDirection = expectOneOf('direction', direction, DIRECTIONS);
+
+  return {
+    format: expectOneOf('format', format, FORMATS),
+    repair: repair === true || repair === '' || repair === 'true',
+    // Unset options must not override the ones stored in the graph
+    options: {
+      ...(layoutAlgorithm && { algorithm: layoutAlgorithm }),
+      ...(layoutDirection && { direction: layoutDirection }),
+    },
+  };
+}
+
+/**
+ * Answers a failed layout request, errors of the JSON body parser included
+ * Unreadable requests get a 400, graphs too large a 413 and graphs with
+ * errors a 422 listing them.
+ * @returns The answer, null for errors the request isn't to blame for
+ */
+export function getHeadlessLayoutErrorResponse(
+  error: unknown
+): IHeadlessLayoutErrorResponse | null {
+  if (error instanceof GraphValidationError) {
+    return {
+      status: 422,
+      body: {
+        error: 'Graph has errors, repair it or post it with ?repair=true',
+        diagnostics: error.diagnostics,
+      },
+    };
+  }
+
+  if (error instanceof HeadlessLayoutError) {
+    return { status: 400, body: { error: error.message } };
+  }
+
+  if (error instanceof SyntaxError) {
+    return { status: 400, body: { error: `Invalid JSON: ${error.message}` } };
+  }
+
+  if ((error as { type?: string } | null)?.type === 'entity.too.large') {
+    return {
+      status: 413,
+      body: { error: `Graph is larger than ${HEADLESS_LAYOUT_BODY_LIMIT}` },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks a setting against its allowed values
+ * @throws HeadlessLayoutError for unknown values
+ */
+function expectOneOf<T extends string>(
+  name: string,
+  value: unknown,
+  allowed: readonly T[]
+): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!allowed.includes(value as T)) {
+    throw new HeadlessLayoutError(
+      `Unknown ${name} "${value}", expected one of ${allowed.join(', ')}`
+    );
+  }
+
+  return value as T;
+}
+
+/**
+ * Lays graphs out without a browser, e.g. from a CLI or an HTTP endpoint
+ * Framework-free: runs ELK from elk.bundled.js on the calling thread.
+ */
+export class HeadlessLayout {
+  private readonly elk: ElkApi = new ELK();
+  private readonly engine = new ElkLayoutEngine();
+  private readonly graphValidator = new GraphValidator();
+  private readonly svgRenderer = new SvgDiagramRenderer();
+
+  /**
+   * Lays a parsed graph file out
+   * @param data - Graph document exported by the app, or a plain graph
+   * @throws HeadlessLayoutError when the graph can't be read,
+   * GraphValidationError when it has errors and repair is off
+   */
+  public async layout(
+    data: unknown,
+    request: IHeadlessLayoutRequest = {}
+  ): Promise<IHeadlessLayoutResult> {
+    const input = this.readGraph(data);
+    const options = this.resolveOptions(
+      data as Record<string, unknown>,
+      request
+    );
+    this.validateOptions(options);
+    const diagnostics = this.graphValidator.validate(input);
+    const graph = request.repair
+      ? this.graphValidator.repair(input, [
+          ...new Set(diagnostics.map(({ code }) => code)),
+        ])
+      : input;
+    const output = await this.engine.calculateLayout(this.elk, graph, options);
+
+    if (request.format === 'svg') {
+      return {
+        contentType: 'image/svg+xml',
+        body: this.svgRenderer.render(output),
+        diagnostics,
+      };
+    }
+
+    return {
+      contentType: 'application/json',
+      body: JSON.stringify(output, null, 2),
+      diagnostics,
+    };
+  }
+
+  /**
+   * Reads the graph of a document exported by the app or of a plain graph
+   * `{ groups?, nodes, edges?, options? }`. Nodes without a size are fitted to
+   * their labels, edges without handles connect the nodes themselves.
+   * @private
+   */
+  private readGraph(data: unknown): ILayoutInput {
+    if (!this.isObject(data)) {
+      throw new HeadlessLayoutError('Graph must be a JSON object');
+    }
+
+    const groups = this.readElements<IGroup>(data, 'groups').map(group => ({
+      ...group,
+      size: group.size ?? { width: 200, height: 200 }, // ELK fits it to its children
+    }));
+    const nodes = this.readElements<INode>(data, 'nodes', true).map(node => ({
+      ...node,
+      parentId: node.parentId ?? null,
+      size: node.size ?? getNodeSizeForLabel(node.label ?? node.id),
+    }));
+    const edges = this.readElements<IEdge>(data, 'edges').map(edge => ({
+      ...edge,
+      sourceHandle: edge.sourceHandle ?? edge.source,
+      targetHandle: edge.targetHandle ?? edge.target,
+    }));
+    const config = data['config'];
+
+    return {
+      groups,
+      nodes,
+      edges,
+      enableGroups: this.isObject(config)
+        ? config['enableGroups'] !== false
+        : groups.length > 0,
+    };
+  }
+
+  /**
+   * Combines the layout settings of the graph with the ones of the request
+   * Documents exported by the app carry their configuration, plain graphs may
+   * carry ELK layout options. A document keeps option values for every
+   * algorithm, the ones of the algorithm finally used are applied.
+   * @param data - Graph already read by readGraph
+   * @private
+   */
+  private resolveOptions(
+    data: Record<string, unknown>,
+    request: IHeadlessLayoutRequest
+  ): Partial<IElkLayoutOptions> {
+    const config = data['config'];
+
+    // Documents exported by the app always carry a complete configuration
+    if (this.isObject(config)) {
+      const layoutConfig = config as unknown as LayoutConfig;
+
+      return {
+        ...getElkLayoutOptions({
+          ...layoutConfig,
+          algorithm: request.options?.algorithm ?? layoutConfig.algorithm,
+        }),
+        ...request.options,
+      };
+    }
+
+    return {
+      ...(this.isObject(data['options']) &&
+        (data['options'] as Partial<IElkLayoutOptions>)),
+      ...request.options,
+    };
+  }
+
+  /**
+   * Checks the layout options of a graph and request against the option registry
+   * ELK would fail on unknown values with a stack trace instead.
+   * @throws HeadlessLayoutError for unknown or out of range values
+   * @private
+   */
+  private validateOptions(options: Partial<IElkLayoutOptions>): void {
+    const algorithm = expectOneOf('algorithm', options.algorithm, ALGORITHMS);
+    expectOneOf('direction', options.direction, DIRECTIONS);
+    expectOneOf('edge routing', options.edgeRouting, EDGE_ROUTINGS);
+    expectOneOf('node placement', options.nodePlacement, NODE_PLACEMENTS);
+
+    if (options.elkOptions === undefined) {
+      return;
+    }
+
+    if (!this.isObject(options.elkOptions)) {
+      throw new HeadlessLayoutError('options.elkOptions must be an object');
+    }
+
+    const resolved = algorithm ?? this.engine.resolveOptions().algorithm!;
+    const definitions = getElkOptionDefinitions(resolved);
+    Object.entries(options.elkOptions).forEach(([id, value]) => {
+      const definition = definitions.find(option => option.id === id);
+      const problem = definition
+        ? validateElkOptionValue(definition, value)
+        : `is not an option of ${resolved}`;
+
+      if (problem) {
+        throw new HeadlessLayoutError(`Option "${id}" ${problem}`);
+      }
+    });
+  }
+
+  /**
+   * Reads an array of elements, each an object with a string id
+   * @private
+   */
+  private readElements<T extends { id: string }>(
+    data: Record<string, unknown>,
+    key: string,
+    required = false
+  ): T[] {
+    const elements = data[key];
+
+    if (elements === undefined && !required) {
+      return [];
+    }
+
+    if (!Array.isArray(elements)) {
+      throw new HeadlessLayoutError(`${key} must be an array`);
+    }
+
+    elements.forEach((element, index) => {
+      if (!this.isObject(element) || typeof element['id'] !== 'string') {
+        throw new HeadlessLayoutError(
+          `${key}[${index}] must be an object with a string id`
+        );
+      }
+    });
+
+    return elements as T[];
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
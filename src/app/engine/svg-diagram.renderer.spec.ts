@@ -0,0 +1,205 @@
+import { SvgDiagramRenderer } from './svg-diagram.renderer';
+import { ELK_PORT_SIZE } from './elk-layout.engine';
+import { IEdge, IGroup, ILayoutOutput, INode } from '../models/graph.interface';
+import { buildRoutePath } from '../utils/route-path';
+import { LABEL_FONT_SIZE, LABEL_LINE_HEIGHT } from '../utils/text-measure';
+
+describe('SvgDiagramRenderer', () => {
+  let renderer: SvgDiagramRenderer;
+
+  const group = (id: string, fields: Partial<IGroup> = {}): IGroup => ({
+    id,
+    size: { width: 300, height: 200 },
+    position: { x: 0, y: 0 },
+    parentId: null,
+    ...fields,
+  });
+  const node = (
+    id: string,
+    x: number,
+    y: number,
+    fields: Partial<INode> = {}
+  ): INode => ({
+    id,
+    size: { width: 100, height: 50 },
+    position: { x, y },
+    parentId: null,
+    ...fields,
+  });
+  const edge = (
+    id: string,
+    source: string,
+    target: string,
+    fields: Partial<IEdge> = {}
+  ): IEdge => ({
+    id,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+    ...fields,
+  });
+  const render = (layout: Partial<ILayoutOutput>) =>
+    renderer.render({ groups: [], nodes: [], edges: [], ...layout });
+
+  beforeEach(() => {
+    renderer = new SvgDiagramRenderer();
+  });
+
+  it('should size the document to the diagram with a margin', () => {
+    const svg = render({
+      nodes: [node('a', -50, -20), node('b', 200, 100)],
+    });
+
+    expect(svg).toContain('width="390" height="210" viewBox="0 0 390 210"');
+    expect(svg).toContain('<g transform="translate(70 40)">');
+  });
+
+  it('should include edge routes and labels in the bounds', () => {
+    const svg = render({
+      nodes: [node('a', 0, 0), node('b', 0, 100)],
+      edges: [
+        edge('e', 'a', 'b', {
+          label: 'around',
+          route: {
+            points: [
+              { x: 50, y: 50 },
+              { x: 400, y: 75 },
+              { x: 50, y: 100 },
+            ],
+            curved: false,
+          },
+          labelLayout: {
+            position: { x: 380, y: -30 },
+            size: { width: 60, height: 20 },
+          },
+        }),
+      ],
+    });
+
+    expect(svg).toContain('width="480" height="220"');
+  });
+
+  it('should render an empty layout', () => {
+    expect(render({})).toContain('width="40" height="40"');
+  });
+
+  it('should escape ids and labels', () => {
+    const svg = render({
+      groups: [group('g"1', { label: 'A & B' })],
+      nodes: [node('<n>', 10, 10, { label: '<script>' })],
+    });
+
+    expect(svg).toContain('data-group-id="g&quot;1"');
+    expect(svg).toContain('A &amp; B');
+    expect(svg).toContain('data-node-id="&lt;n&gt;"');
+    expect(svg).toContain('&lt;script&gt;');
+    expect(svg).not.toContain('<script>');
+  });
+
+  it('should render multi-line labels line by line', () => {
+    const svg = render({
+      nodes: [
+        node('a', 0, 0, {
+          label: 'first\nsecond',
+          labelLayout: {
+            position: { x: 20, y: 10 },
+            size: { width: 60, height: 30 },
+          },
+        }),
+      ],
+    });
+
+    expect(svg).toContain(
+      `<text x="20" y="${10 + LABEL_FONT_SIZE}" fill="rgba(60, 60, 67, 0.78)"><tspan x="20" dy="0">first</tspan><tspan x="20" dy="${LABEL_LINE_HEIGHT}">second</tspan></text>`
+    );
+  });
+
+  it('should name unlabelled elements and inset their labels', () => {
+    const svg = render({
+      groups: [group('g', { position: { x: 100, y: 100 } })],
+      nodes: [node('a', 0, 0)],
+    });
+
+    expect(svg).toContain('<tspan x="110" dy="0">Group 1</tspan>');
+    expect(svg).toContain('<tspan x="10" dy="0">Node 1</tspan>');
+  });
+
+  it('should draw edges along their routes with the stroke of their kind', () => {
+    const route = {
+      points: [
+        { x: 50, y: 50 },
+        { x: 50, y: 100 },
+      ],
+      curved: false,
+    };
+    const svg = render({
+      nodes: [node('a', 0, 0), node('b', 0, 100)],
+      edges: [edge('e', 'a', 'b', { route, kind: 'control' })],
+    });
+
+    expect(svg).toContain(
+      `d="${buildRoutePath(route)}" fill="none" stroke="rgba(60, 60, 67, 0.78)" stroke-width="2" stroke-dasharray="8 4"/>`
+    );
+  });
+
+  it('should draw unrouted edges between the node centers', () => {
+    const svg = render({
+      nodes: [node('a', 0, 0), node('b', 200, 100)],
+      edges: [edge('e', 'a', 'b', { label: 'hidden' })],
+    });
+
+    expect(svg).toContain('d="M 50 25 L 250 125"');
+    // Labels of unrouted edges have no place to go
+    expect(svg).not.toContain('hidden');
+  });
+
+  it('should skip edges whose nodes have no position', () => {
+    const svg = render({
+      nodes: [node('a', 0, 0), { ...node('b', 0, 0), position: undefined }],
+      edges: [edge('e', 'a', 'b')],
+    });
+
+    expect(svg).not.toContain('data-edge-id');
+  });
+
+  it('should center edge labels on their route when ELK placed none', () => {
+    const svg = render({
+      nodes: [node('a', 0, 0), node('b', 0, 200)],
+      edges: [
+        edge('e', 'a', 'b', {
+          label: 'flow',
+          route: {
+            points: [
+              { x: 50, y: 50 },
+              { x: 50, y: 200 },
+            ],
+            curved: false,
+          },
+        }),
+      ],
+    });
+
+    expect(svg).toContain('<tspan x="50" dy="0">flow</tspan>');
+    expect(svg).toContain('<text x="50" y="125" text-anchor="middle"');
+  });
+
+  it('should draw ports and fill collapsed groups like groups', () => {
+    const svg = render({
+      nodes: [
+        node('a', 10, 20, {
+          outputs: [
+            { id: 'out', side: 'EAST', order: 0, position: { x: 100, y: 21 } },
+          ],
+          collapsed: { groups: 0, nodes: 2 },
+        }),
+      ],
+    });
+    const radius = ELK_PORT_SIZE / 2;
+
+    expect(svg).toContain(
+      `<circle cx="${110 + radius}" cy="${41 + radius}" r="${radius}"`
+    );
+    expect(svg).toContain('fill="rgba(100, 108, 255, 0.14)"');
+  });
+});
@@ -0,0 +1,287 @@
+import { IPoint, PointExtensions } from '@foblex/2d';
+import {
+  EdgeKind,
+  IEdge,
+  IGroup,
+  ILabelLayout,
+  ILayoutOutput,
+  INode,
+} from '../models/graph.interface';
+import { buildRoutePath, getRouteCenter } from '../utils/route-path';
+import {
+  LABEL_FONT_FAMILY,
+  LABEL_FONT_SIZE,
+  LABEL_LINE_HEIGHT,
+} from '../utils/text-measure';
+import { ELK_PORT_SIZE } from './elk-layout.engine';
+
+// Light theme colors from common.scss and app.component.scss
+const COLORS = {
+  background: '#ffffff',
+  groupFill: 'rgba(100, 108, 255, 0.14)',
+  nodeFill: '#daa52098',
+  border: 'rgba(60, 60, 67, 0.36)',
+  text: 'rgba(60, 60, 67, 0.78)',
+  connection: 'rgba(60, 60, 67, 0.78)',
+  port: '#3451b2',
+};
+
+// Stroke of each edge kind, as styled in app.component.scss
+const EDGE_KIND_STROKES: Record<EdgeKind, string> = {
+  data: 'stroke-width="3"',
+  control: 'stroke-width="2" stroke-dasharray="8 4"',
+  dependency: 'stroke-width="2" stroke-dasharray="2 4" stroke-opacity="0.6"',
+};
+
+const TEXT_INSET = 10; // distance of unplaced labels from the top left corner
+const MARGIN = 20; // empty space around the diagram
+
+/**
+ * Renders laid-out diagrams to standalone SVG documents
+ * The SVG carries its own styling so it renders the same outside the app.
+ * Framework-free, used by the image export and by headless layouts.
+ */
+export class SvgDiagramRenderer {
+  /**
+   * Builds a standalone SVG document of a layout result
+   * @param layout - Groups, nodes and edges with positions and routes
+   */
+  public render(layout: ILayoutOutput): string {
+    const bounds = this.getBounds(layout);
+    const width = Math.ceil(bounds.max.x - bounds.min.x + MARGIN * 2);
+    const height = Math.ceil(bounds.max.y - bounds.min.y + MARGIN * 2);
+    const offset = PointExtensions.initialize(
+      MARGIN - bounds.min.x,
+      MARGIN - bounds.min.y
+    );
+    const nodes = new Map(layout.nodes.map(node => [node.id, node]));
+
+    // Groups are listed parents first, so children are painted over them
+    const content = [
+      ...layout.groups.map((group, index) => this.renderGroup(group, index)),
+      ...layout.edges.map(edge => this.renderEdge(edge, nodes)),
+      ...layout.nodes.map((node, index) => this.renderNode(node, index)),
+      ...layout.edges.map(edge => this.renderEdgeLabel(edge)),
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${LABEL_FONT_FAMILY}" font-size="${LABEL_FONT_SIZE}">`,
+      `<rect width="100%" height="100%" fill="${COLORS.background}"/>`,
+      `<g transform="translate(${offset.x} ${offset.y})">`,
+      content,
+      '</g>',
+      '</svg>',
+    ].join('\n');
+  }
+
+  /**
+   * Renders a group box with its title where ELK placed it
+   * @private
+   */
+  private renderGroup(group: IGroup, index: number): string {
+    const { x, y } = group.position ?? PointExtensions.initialize();
+
+    return [
+      `<g data-group-id="${this.escape(group.id)}">`,
+      `<rect x="${x}" y="${y}" width="${group.size.width}" height="${group.size.height}" rx="4" fill="${COLORS.groupFill}" stroke="${COLORS.border}"/>`,
+      this.renderText(
+        group.label ?? `Group ${index + 1}`,
+        x,
+        y,
+        group.labelLayout
+      ),
+      '</g>',
+    ].join('');
+  }
+
+  /**
+   * Renders a node rectangle with its label and port handles
+   * Nodes standing for collapsed groups are filled like groups
+   * @private
+   */
+  private renderNode(node: INode, index: number): string {
+    const { x, y } = node.position ?? PointExtensions.initialize();
+    const ports = [...(node.inputs ?? []), ...(node.outputs ?? [])]
+      .filter(port => port.position)
+      .map(port => {
+        const radius = ELK_PORT_SIZE / 2;
+        return `<circle cx="${x + port.position!.x + radius}" cy="${y + port.position!.y + radius}" r="${radius}" fill="${COLORS.port}"/>`;
+      });
+
+    return [
+      `<g data-node-id="${this.escape(node.id)}">`,
+      `<rect x="${x}" y="${y}" width="${node.size.width}" height="${node.size.height}" rx="4" fill="${node.collapsed ? COLORS.groupFill : COLORS.nodeFill}" stroke="${COLORS.border}"/>`,
+      this.renderText(
+        node.label ?? `Node ${index + 1}`,
+        x,
+        y,
+        node.labelLayout
+      ),
+      ...ports,
+      '</g>',
+    ].join('');
+  }
+
+  /**
+   * Renders an edge along its ELK route
+   * Edges without a route are drawn straight between the node centers
+   * @private
+   */
+  private renderEdge(edge: IEdge, nodes: Map<string, INode>): string {
+    const path = edge.route
+      ? buildRoutePath(edge.route)
+      : this.buildFallbackPath(edge, nodes);
+
+    const stroke = edge.kind
+      ? EDGE_KIND_STROKES[edge.kind]
+      : 'stroke-width="2"';
+
+    return path
+      ? `<path data-edge-id="${this.escape(edge.id)}" d="${path}" fill="none" stroke="${COLORS.connection}" ${stroke}/>`
+      : '';
+  }
+
+  /**
+   * Renders an edge label where ELK placed it, or centered on its route
+   * @private
+   */
+  private renderEdgeLabel(edge: IEdge): string {
+    if (!edge.label || !edge.route) {
+      return '';
+    }
+
+    const center = edge.labelLayout
+      ? PointExtensions.initialize(
+          edge.labelLayout.position.x + edge.labelLayout.size.width / 2,
+          edge.labelLayout.position.y + edge.labelLayout.size.height / 2
+        )
+      : getRouteCenter(edge.route.points);
+    const lines = edge.label.split('\n');
+    const top = center.y - ((lines.length - 1) * LABEL_LINE_HEIGHT) / 2;
+    const tspans = lines
+      .map(
+        (line, index) =>
+          `<tspan x="${center.x}" dy="${index ? LABEL_LINE_HEIGHT : 0}">${this.escape(line)}</tspan>`
+      )
+      .join('');
+
+    return `<text x="${center.x}" y="${top}" text-anchor="middle" dominant-baseline="middle" fill="${COLORS.text}" stroke="${COLORS.background}" stroke-width="4" paint-order="stroke">${tspans}</text>`;
+  }
+
+  /**
+   * Renders multi-line text at its laid-out position relative to the box,
+   * or inset from the top left corner when it has none
+   * @private
+   */
+  private renderText(
+    text: string,
+    x: number,
+    y: number,
+    layout?: ILabelLayout
+  ): string {
+    const left = x + (layout?.position.x ?? TEXT_INSET);
+    const top = y + (layout?.position.y ?? TEXT_INSET);
+    const lines = text
+      .split('\n')
+      .map(
+        (line, index) =>
+          `<tspan x="${left}" dy="${index ? LABEL_LINE_HEIGHT : 0}">${this.escape(line)}</tspan>`
+      )
+      .join('');
+
+    // The baseline of the first line sits one font size below the top
+    return `<text x="${left}" y="${top + LABEL_FONT_SIZE}" fill="${COLORS.text}">${lines}</text>`;
+  }
+
+  /**
+   * Builds a straight path between the centers of an edge's nodes
+   * @private
+   */
+  private buildFallbackPath(
+    edge: IEdge,
+    nodes: Map<string, INode>
+  ): string | null {
+    const source = nodes.get(edge.source);
+    const target = nodes.get(edge.target);
+
+    if (!source?.position || !target?.position) {
+      return null;
+    }
+
+    const center = (node: INode) =>
+      PointExtensions.initialize(
+        node.position!.x + node.size.width / 2,
+        node.position!.y + node.size.height / 2
+      );
+    const from = center(source);
+    const to = center(target);
+
+    return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+  }
+
+  /**
+   * Finds the box enclosing all groups, nodes, edge routes and edge labels
+   * @private
+   */
+  private getBounds(layout: ILayoutOutput): { min: IPoint; max: IPoint } {
+    const points: IPoint[] = [
+      ...[...layout.groups, ...layout.nodes].flatMap(element => {
+        const position = element.position ?? PointExtensions.initialize();
+        return [
+          position,
+          PointExtensions.initialize(
+            position.x + element.size.width,
+            position.y + element.size.height
+          ),
+        ];
+      }),
+      ...layout.edges.flatMap(edge => edge.route?.points ?? []),
+      ...layout.edges.flatMap(({ labelLayout }) =>
+        labelLayout
+          ? [
+              labelLayout.position,
+              PointExtensions.initialize(
+                labelLayout.position.x + labelLayout.size.width,
+                labelLayout.position.y + labelLayout.size.height
+              ),
+            ]
+          : []
+      ),
+    ];
+
+    if (!points.length) {
+      return {
+        min: PointExtensions.initialize(),
+        max: PointExtensions.initialize(),
+      };
+    }
+
+    return points.reduce(
+      ({ min, max }, point) => ({
+        min: PointExtensions.initialize(
+          Math.min(min.x, point.x),
+          Math.min(min.y, point.y)
+        ),
+        max: PointExtensions.initialize(
+          Math.max(max.x, point.x),
+          Math.max(max.y, point.y)
+        ),
+      }),
+      { min: points[0], max: points[0] }
+    );
+  }
+
+  /**
+   * Escapes text for use in SVG markup
+   * @private
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,64 @@
+import { IElkLayoutOptions } from './graph.interface';
+
+export type ElkAlgorithm = NonNullable<IElkLayoutOptions['algorithm']>;
+
+export type ElkOptionValue = string | number | boolean;
+
+/**
+ * Option values by ELK option id, e.g. { 'elk.layered.thoroughness': 7 }
+ */
+export type ElkOptionValues = Record<string, ElkOptionValue>;
+
+/**
+ * Option values changed from their defaults, kept separately for every algorithm
+ */
+export type ElkOptionOverrides = Partial<Record<ElkAlgorithm, ElkOptionValues>>;
+
+/**
+ * Typed layout options an ELK option takes its value from
+ */
+export type ElkLayoutSetting =
+  | 'direction'
+  | 'edgeRouting'
+  | 'nodePlacement'
+  | 'spacing.nodeNode'
+  | 'spacing.nodeNodeBetweenLayers'
+  | 'spacing.edgeNode'
+  | 'spacing.edgeEdge'
+  | 'spacing.componentComponent';
+
+interface IElkOptionBase {
+  id: string; // ELK option id
+  label: string;
+  description: string;
+  setting?: ElkLayoutSetting; // typed option the value is read from, if any
+  advanced?: boolean; // shown in the collapsible advanced section
+}
+
+export interface IElkNumberOption extends IElkOptionBase {
+  type: 'number';
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+export interface IElkBooleanOption extends IElkOptionBase {
+  type: 'boolean';
+  default: boolean;
+}
+
+export interface IElkEnumOption extends IElkOptionBase {
+  type: 'enum';
+  default: string;
+  values: readonly { value: string; label: string }[];
+}
+
+/**
+ * Describes an ELK layout option: its type, default, allowed values and meaning
+ */
+export type ElkOptionDefinition =
+  | IElkNumberOption
+  | IElkBooleanOption
+  | IElkEnumOption;
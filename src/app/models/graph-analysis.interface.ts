@@ -0,0 +1,41 @@
+/**
+ * Nodes and edges picked out of a graph, e.g. a cycle or a path
+ */
+export interface IGraphElements {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+/**
+ * Structure of a graph's edges, found without laying it out
+ * Edges are followed from source to target, groups play no part. Edges whose
+ * ends aren't both among the nodes are left out.
+ */
+export interface IGraphAnalysis {
+  stronglyConnectedComponents: string[][]; // node ids of the components with a cycle, largest first
+  cycles: IGraphElements[]; // elementary cycles, at most MAX_CYCLES
+  cyclesTruncated: boolean; // listing stopped early, more cycles may exist
+  feedbackEdgeIds: string[]; // edges reversed to break all cycles, as by ELK's GREEDY cycle breaking
+  layers: string[][]; // node ids by topological layer, the graph without its feedback edges
+  longestPath: IGraphElements; // path with the most edges, without feedback edges
+  criticalPath: IGraphElements; // every node and edge lying on a longest path
+  components: string[][]; // node ids of the disconnected parts, largest first
+}
+
+/**
+ * Analysis result highlighted on the canvas
+ */
+export type GraphAnalysisOverlay =
+  | 'none'
+  | 'cycles' // strongly connected components and their edges
+  | 'reversed' // edges the last layered layout drew against its direction
+  | 'layers'
+  | 'critical'
+  | 'components';
+
+/**
+ * Analysis as exported, with the edges reversed by the last layout
+ */
+export interface IGraphAnalysisReport extends IGraphAnalysis {
+  reversedEdgeIds: string[];
+}
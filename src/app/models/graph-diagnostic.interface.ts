@@ -0,0 +1,26 @@
+/**
+ * Errors keep a graph from being laid out, warnings are laid out as they are
+ */
+export type GraphDiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * Kind of problem found in a graph, each kind has its own repair
+ */
+export type GraphDiagnosticCode =
+  | 'duplicate-id' // repaired by renaming the later elements
+  | 'invalid-size' // repaired by sizing the node to its label
+  | 'missing-parent' // repaired by moving the element to root level
+  | 'parent-cycle' // repaired by moving the first group of the cycle to root level
+  | 'dangling-edge' // repaired by dropping the edge
+  | 'unknown-port' // repaired by connecting to the node itself or its first port
+  | 'self-loop'; // repaired by dropping the edge
+
+/**
+ * A problem found in a graph before layout
+ */
+export interface IGraphDiagnostic {
+  code: GraphDiagnosticCode;
+  severity: GraphDiagnosticSeverity;
+  message: string;
+  ids: string[]; // offending groups, nodes or edges
+}
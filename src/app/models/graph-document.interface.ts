@@ -0,0 +1,26 @@
+import { LayoutConfig } from './layout-config.interface';
+import { IEdge, IGroup, INode } from './graph.interface';
+
+/**
+ * Current version of the graph document format
+ * Bump it whenever the shape of IGraphDocument changes
+ * Version 2 added labels, edge kinds and priorities, collapsed groups, per-group
+ * layouts and ELK option overrides, all optional.
+ */
+export const GRAPH_DOCUMENT_VERSION = 2;
+
+/**
+ * Oldest version still accepted on import, older documents lack only optional fields
+ */
+export const MIN_GRAPH_DOCUMENT_VERSION = 1;
+
+/**
+ * Portable JSON representation of a diagram and the layout settings it was drawn with
+ */
+export interface IGraphDocument {
+  version: number;
+  config: LayoutConfig;
+  groups: IGroup[];
+  nodes: INode[]; // port positions are not stored, the layout engine sets them
+  edges: IEdge[]; // routes are not stored, the layout engine sets them
+}
@@ -0,0 +1,30 @@
+/**
+ * Edges followed from the focused node: against their direction, along it, or both
+ */
+export type FocusDirection = 'upstream' | 'downstream' | 'both';
+
+/**
+ * How elements outside the focus are shown
+ */
+export type FocusMode = 'dim' | 'hide';
+
+/**
+ * Focus on the neighbourhood of a node, the rest of the graph steps back
+ */
+export interface IGraphFocus {
+  nodeId: string;
+  hops: number; // edges followed from the node, at most
+  direction: FocusDirection;
+  mode: FocusMode;
+  relayout: boolean; // the neighbourhood is laid out on its own
+}
+
+/**
+ * Settings of a new focus
+ */
+export const DEFAULT_GRAPH_FOCUS: Omit<IGraphFocus, 'nodeId'> = {
+  hops: 2,
+  direction: 'both',
+  mode: 'dim',
+  relayout: false,
+};
@@ -1,12 +1,62 @@
 import { IPoint, ISize } from '@foblex/2d';
+import { ElkOptionValues } from './elk-option.interface';
+
+/**
+ * Placement of a label computed by the layout engine
+ */
+export interface ILabelLayout {
+  position: IPoint; // relative to the owning group or node, absolute for edges
+  size: ISize; // measured text size
+}
 
 /**
  * Represents a group container in the flow diagram
  */
 export interface IGroup {
   id: string;
+  label?: string;
+  labelLayout?: ILabelLayout; // set by the layout engine
   size: ISize;
   position?: IPoint;
+  parentId?: string | null; // null or missing = root level, otherwise parent group ID
+  pinned?: boolean; // position was set by the user and is kept by the layout
+  layoutOverrides?: IGroupLayoutOverrides; // own layout of the group's content
+  collapsed?: boolean; // shown as a single node, its content is hidden
+}
+
+/**
+ * Content hidden inside a collapsed group
+ */
+export interface ICollapsedContent {
+  groups: number; // sub-groups at any depth
+  nodes: number; // nodes at any depth
+}
+
+/**
+ * Layout settings of a single group, merged over the global layout options
+ * Unset fields follow the global options, sub-groups inherit the merged result
+ */
+export interface IGroupLayoutOverrides {
+  algorithm?: IElkLayoutOptions['algorithm'];
+  direction?: IElkLayoutOptions['direction'];
+  nodeSpacing?: number;
+  layerSpacing?: number;
+}
+
+/**
+ * Side of a node a port is attached to
+ */
+export type PortSide = 'NORTH' | 'EAST' | 'SOUTH' | 'WEST';
+
+/**
+ * Represents a named connection point on a node
+ */
+export interface IPort {
+  id: string; // referenced by IEdge.sourceHandle / IEdge.targetHandle
+  name?: string;
+  side: PortSide;
+  order: number; // position along the side, left to right or top to bottom
+  position?: IPoint; // relative to the node, set by the layout engine
 }
 
 /**
@@ -14,9 +64,38 @@ export interface IGroup {
  */
 export interface INode {
   id: string;
+  label?: string;
+  labelLayout?: ILabelLayout; // set by the layout engine
   size: ISize;
   position?: IPoint;
   parentId: string | null; // null = root level, otherwise group ID
+  pinned?: boolean; // position was set by the user and is kept by the layout
+  inputs?: IPort[]; // without ports the node id is used as its only input
+  outputs?: IPort[]; // without ports the node id is used as its only output
+  collapsed?: ICollapsedContent; // set on nodes standing for a collapsed group
+}
+
+/**
+ * Route geometry of an edge in absolute canvas coordinates
+ */
+export interface IEdgeRoute {
+  points: IPoint[]; // start point, bend points, end point
+  curved: boolean; // true when bend points are spline control points
+}
+
+/**
+ * Role of an edge, e.g. data edges form the main path of a diagram
+ * Each kind has its own layout priorities and styling.
+ */
+export type EdgeKind = 'data' | 'control' | 'dependency';
+
+/**
+ * ELK's layered priorities of an edge, higher values win over lower ones
+ */
+export interface IEdgePriorities {
+  direction: number; // points along the layout direction, kept when breaking cycles
+  straightness: number; // drawn without bends
+  shortness: number; // spans few layers
 }
 
 /**
@@ -28,6 +107,13 @@ export interface IEdge {
   target: string;
   sourceHandle: string;
   targetHandle: string;
+  label?: string;
+  labelLayout?: ILabelLayout; // set by the layout engine
+  route?: IEdgeRoute; // set by the layout engine
+  aggregatedEdgeIds?: string[]; // edges into or out of collapsed groups this edge stands for
+  kind?: EdgeKind; // unset edges have no priorities of their own
+  weight?: number; // shortness priority, overrides the kind's
+  priority?: number; // direction and straightness priority, overrides the kind's
 }
 
 /**
@@ -53,7 +139,16 @@ export interface ILayoutOutput {
  * Configuration options for ELK layout
  */
 export interface IElkLayoutOptions {
-  algorithm?: 'layered' | 'force' | 'stress' | 'mrtree';
+  algorithm?:
+    | 'layered'
+    | 'force'
+    | 'stress'
+    | 'mrtree'
+    | 'radial'
+    | 'rectpacking'
+    | 'box'
+    | 'sporeOverlap'
+    | 'sporeCompaction';
   direction?: 'RIGHT' | 'DOWN' | 'LEFT' | 'UP';
   spacing?: {
     nodeNode?: number;
@@ -70,4 +165,6 @@ export interface IElkLayoutOptions {
   };
   edgeRouting?: 'ORTHOGONAL' | 'POLYLINE' | 'SPLINES';
   nodePlacement?: 'NETWORK_SIMPLEX' | 'BRANDES_KOEPF' | 'LINEAR_SEGMENTS';
+  elkOptions?: ElkOptionValues; // by ELK option id, win over the fields above
+  incremental?: boolean; // start from the input positions to keep the layout stable
 }
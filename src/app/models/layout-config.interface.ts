@@ -0,0 +1,36 @@
+import { ElkOptionOverrides } from './elk-option.interface';
+
+/**
+ * Layout settings chosen in the layout controls and stored with graph documents
+ */
+export interface LayoutConfig {
+  enableGroups: boolean;
+  algorithm:
+    | 'layered'
+    | 'force'
+    | 'stress'
+    | 'mrtree'
+    | 'radial'
+    | 'rectpacking'
+    | 'box'
+    | 'sporeOverlap'
+    | 'sporeCompaction';
+  direction: 'RIGHT' | 'DOWN' | 'LEFT' | 'UP';
+  edgeRouting: 'ORTHOGONAL' | 'POLYLINE' | 'SPLINES';
+  nodePlacement: 'NETWORK_SIMPLEX' | 'BRANDES_KOEPF' | 'LINEAR_SEGMENTS';
+  nodeSpacing: number;
+  layerSpacing: number;
+  groupPadding: number;
+  elkOptions?: ElkOptionOverrides; // options changed in the option registry
+}
+
+export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
+  enableGroups: true,
+  algorithm: 'layered',
+  direction: 'DOWN',
+  edgeRouting: 'ORTHOGONAL',
+  nodePlacement: 'NETWORK_SIMPLEX',
+  nodeSpacing: 80,
+  layerSpacing: 80,
+  groupPadding: 60,
+};
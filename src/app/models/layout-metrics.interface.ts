@@ -0,0 +1,17 @@
+import { ISize } from '@foblex/2d';
+
+/**
+ * Quality measures of a layout result, lower is better unless noted
+ */
+export interface ILayoutMetrics {
+  edgeCrossings: number; // points where two edges cross
+  totalEdgeLength: number;
+  averageEdgeLength: number;
+  bendCount: number; // direction changes along all edge routes
+  nodeOverlaps: number; // node pairs whose boxes overlap
+  nodeEdgeOverlaps: number; // edge and node pairs where the edge passes through the node
+  boundingBox: ISize; // box enclosing groups, nodes and edge routes
+  area: number;
+  aspectRatio: number; // bounding box width / height, 1 is square
+  layoutTime: number; // ms from requesting the layout to receiving it
+}
@@ -0,0 +1,113 @@
+import { TestBed } from '@angular/core/testing';
+import { DotParser } from './dot.parser';
+import { GraphSourceError } from './graph-source';
+
+describe('DotParser', () => {
+  let parser: DotParser;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    parser = TestBed.inject(DotParser);
+  });
+
+  it('should read nodes, edge chains and the rank direction', () => {
+    const graph = parser.parse(`
+      digraph G {
+        rankdir=LR;
+        a [label="Start"];
+        a -> b -> c [label="next"];
+      }
+    `);
+
+    expect(graph.direction).toBe('RIGHT');
+    expect(graph.nodes.map(node => [node.id, node.label])).toEqual([
+      ['a', 'Start'],
+      ['b', 'b'],
+      ['c', 'c'],
+    ]);
+    expect(graph.edges).toEqual([
+      jasmine.objectContaining({ source: 'a', target: 'b', label: 'next' }),
+      jasmine.objectContaining({ source: 'b', target: 'c', label: 'next' }),
+    ]);
+    expect(graph.enableGroups).toBeFalse();
+  });
+
+  it('should map clusters to groups and ignore other subgraphs', () => {
+    const graph = parser.parse(`
+      digraph {
+        subgraph cluster_outer {
+          label="Outer";
+          a;
+          subgraph cluster_inner { b; }
+          subgraph scope { c; }
+        }
+        d;
+      }
+    `);
+
+    expect(graph.groups).toEqual([
+      jasmine.objectContaining({
+        id: 'cluster_outer',
+        label: 'Outer',
+        parentId: null,
+      }),
+      jasmine.objectContaining({
+        id: 'cluster_inner',
+        parentId: 'cluster_outer',
+      }),
+    ]);
+    expect(graph.nodes.map(node => [node.id, node.parentId])).toEqual([
+      ['a', 'cluster_outer'],
+      ['b', 'cluster_inner'],
+      ['c', 'cluster_outer'],
+      ['d', null],
+    ]);
+    expect(graph.enableGroups).toBeTrue();
+  });
+
+  it('should move a node mentioned again into a deeper cluster', () => {
+    const graph = parser.parse(`
+      digraph { a -> b; subgraph cluster_x { b; } }
+    `);
+
+    expect(graph.nodes.find(node => node.id === 'b')?.parentId).toBe(
+      'cluster_x'
+    );
+  });
+
+  it('should connect edges to a cluster to all of its nodes', () => {
+    const graph = parser.parse(`
+      digraph { a -> cluster_x; subgraph cluster_x { b; c; } }
+    `);
+
+    expect(graph.nodes.map(node => node.id)).toEqual(['a', 'b', 'c']);
+    expect(graph.edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['a', 'b'],
+      ['a', 'c'],
+    ]);
+  });
+
+  it('should resolve label escapes of nodes and edges', () => {
+    const graph = parser.parse(`
+      digraph {
+        node [label="\\N\\nnode"];
+        a -> b [label="\\T to\\l\\H"];
+        a;
+      }
+    `);
+
+    expect(graph.nodes[0].label).toBe('a\nnode');
+    expect(graph.edges[0].label).toBe('a to\nb');
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => parser.parse('digraph {\n  a -> ;\n}')).toThrowError(
+      GraphSourceError,
+      'Line 2: Expected an identifier, found ";"'
+    );
+    expect(() => parser.parse('tree { }')).toThrowError(
+      GraphSourceError,
+      /Expected "graph" or "digraph"/
+    );
+  });
+});
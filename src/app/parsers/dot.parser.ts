@@ -0,0 +1,447 @@
+import { Injectable } from '@angular/core';
+import { IElkLayoutOptions } from '../models/graph.interface';
+import {
+  GraphSourceBuilder,
+  GraphSourceError,
+  IParsedGraph,
+} from './graph-source';
+
+type DotTokenType = 'id' | 'punct' | 'edgeop' | 'eof';
+
+interface IDotToken {
+  type: DotTokenType;
+  value: string;
+  line: number;
+  quoted?: boolean; // quoted ids are never keywords
+}
+
+type DotAttributes = Record<string, string>;
+
+// Graphviz rankdir values mapped to ELK directions
+const RANK_DIRECTIONS: Record<string, IElkLayoutOptions['direction']> = {
+  TB: 'DOWN',
+  BT: 'UP',
+  LR: 'RIGHT',
+  RL: 'LEFT',
+};
+
+/**
+ * Parses Graphviz DOT sources into layout input
+ * `subgraph cluster_*` blocks become groups, other subgraphs only scope attributes
+ * Node and edge `label` attributes are kept, ports and styling are ignored
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DotParser {
+  public parse(source: string): IParsedGraph {
+    return new DotReader(this.tokenize(source)).read();
+  }
+
+  /**
+   * Splits a DOT source into ids, punctuation and edge operators
+   * @private
+   */
+  private tokenize(source: string): IDotToken[] {
+    const tokens: IDotToken[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+      const rest = source.slice(i);
+
+      if (char === '\n') {
+        line++;
+        i++;
+      } else if (/\s/.test(char)) {
+        i++;
+      } else if (
+        rest.startsWith('//') ||
+        (char === '#' && /(^|\n)[ \t]*$/.test(source.slice(0, i)))
+      ) {
+        // Comments and C preprocessor output lines, both ignored by Graphviz
+        i = this.indexOfOrEnd(source, '\n', i);
+      } else if (rest.startsWith('/*')) {
+        const end = this.indexOfOrEnd(source, '*/', i + 2);
+        line += this.countLines(source.slice(i, end));
+        i = end + 2;
+      } else if (rest.startsWith('->') || rest.startsWith('--')) {
+        tokens.push({ type: 'edgeop', value: rest.slice(0, 2), line });
+        i += 2;
+      } else if ('{}[];,=:'.includes(char)) {
+        tokens.push({ type: 'punct', value: char, line });
+        i++;
+      } else if (char === '"') {
+        const start = line;
+        let value = '';
+        i++;
+        while (i < source.length && source[i] !== '"') {
+          if (source[i] === '\\' && source[i + 1] === '"') {
+            value += '"';
+            i += 2;
+          } else if (source[i] === '\\' && source[i + 1] === '\n') {
+            // Escaped newline continues the string
+            line++;
+            i += 2;
+          } else {
+            if (source[i] === '\n') {
+              line++;
+            }
+            value += source[i++];
+          }
+        }
+        if (i >= source.length) {
+          throw new GraphSourceError('Unterminated string', start);
+        }
+        i++;
+        tokens.push({ type: 'id', value, line: start, quoted: true });
+      } else if (char === '<') {
+        // HTML-like label, only its text is kept
+        const start = line;
+        let depth = 0;
+        let end = i;
+        do {
+          if (source[end] === '<') depth++;
+          if (source[end] === '>') depth--;
+          if (source[end] === '\n') line++;
+          end++;
+        } while (depth > 0 && end < source.length);
+        if (depth > 0) {
+          throw new GraphSourceError('Unterminated HTML string', start);
+        }
+        tokens.push({
+          type: 'id',
+          value: source.slice(i + 1, end - 1).replace(/<[^>]*>/g, ''),
+          line: start,
+          quoted: true,
+        });
+        i = end;
+      } else {
+        const match =
+          /^(-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uFFFF][\w\u0080-\uFFFF]*)/.exec(
+            rest
+          );
+        if (!match) {
+          throw new GraphSourceError(`Unexpected character "${char}"`, line);
+        }
+        tokens.push({ type: 'id', value: match[0], line });
+        i += match[0].length;
+      }
+    }
+
+    tokens.push({ type: 'eof', value: '', line });
+    return tokens;
+  }
+
+  private indexOfOrEnd(source: string, search: string, from: number): number {
+    const index = source.indexOf(search, from);
+    return index === -1 ? source.length : index;
+  }
+
+  private countLines(text: string): number {
+    return text.split('\n').length - 1;
+  }
+}
+
+/**
+ * Recursive descent reader over DOT tokens, one instance per parse
+ */
+class DotReader {
+  private readonly builder = new GraphSourceBuilder();
+  private position = 0;
+  private direction?: IElkLayoutOptions['direction'];
+  private anonymousSubgraphs = 0;
+
+  constructor(private readonly tokens: IDotToken[]) {}
+
+  public read(): IParsedGraph {
+    if (this.isKeyword('strict')) {
+      this.next();
+    }
+
+    if (!this.isKeyword('graph') && !this.isKeyword('digraph')) {
+      this.fail('Expected "graph" or "digraph"');
+    }
+    this.next();
+
+    if (this.peek().type === 'id') {
+      this.next();
+    }
+
+    this.expect('{');
+    this.readStatements([], { node: {}, edge: {} }, true);
+    this.expect('}');
+
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected "${this.peek().value}" after the graph`);
+    }
+
+    return this.builder.build(this.direction);
+  }
+
+  /**
+   * Reads statements up to the closing brace of the current block
+   * @param parents - Enclosing cluster ids, outermost first
+   * @param defaults - Node and edge attributes inherited from enclosing blocks
+   * @returns Ids of all nodes mentioned in the block
+   * @private
+   */
+  private readStatements(
+    parents: string[],
+    defaults: { node: DotAttributes; edge: DotAttributes },
+    root = false
+  ): string[] {
+    const scope = { node: { ...defaults.node }, edge: { ...defaults.edge } };
+    const mentioned: string[] = [];
+
+    while (!this.isPunct('}') && this.peek().type !== 'eof') {
+      const token = this.peek();
+
+      if (this.isKeyword('node') || this.isKeyword('edge')) {
+        this.next();
+        Object.assign(
+          scope[token.value as 'node' | 'edge'],
+          this.readAttributes()
+        );
+      } else if (this.isKeyword('graph')) {
+        this.next();
+        this.applyGraphAttributes(this.readAttributes(), parents, root);
+      } else if (token.type === 'id' && this.peekAt(1).value === '=') {
+        // Graph attribute shorthand, e.g. rankdir=LR or label="..."
+        this.next();
+        this.next();
+        const value = this.expectId();
+        this.applyGraphAttributes({ [token.value]: value }, parents, root);
+      } else {
+        mentioned.push(...this.readNodeOrEdgeStatement(parents, scope));
+      }
+
+      if (this.isPunct(';') || this.isPunct(',')) {
+        this.next();
+      }
+    }
+
+    return mentioned;
+  }
+
+  /**
+   * Reads a node statement, an edge chain, or a subgraph used as either
+   * @private
+   */
+  private readNodeOrEdgeStatement(
+    parents: string[],
+    scope: { node: DotAttributes; edge: DotAttributes }
+  ): string[] {
+    const isSubgraph = this.isKeyword('subgraph') || this.isPunct('{');
+    const operands: string[][] = [this.readOperand(parents, scope)];
+    let edgeop = '->';
+
+    while (this.peek().type === 'edgeop') {
+      edgeop = this.next().value;
+      operands.push(this.readOperand(parents, scope));
+    }
+
+    const isEdge = operands.length > 1;
+    const attributes = this.isPunct('[') ? this.readAttributes() : {};
+
+    if (!isEdge) {
+      // A lone node statement may set the node label
+      const [id] = operands[0];
+      if (!isSubgraph) {
+        const label = attributes['label'] ?? scope.node['label'];
+        this.builder.addNode(id, parents, this.resolveLabel(label, { N: id }));
+      }
+      return operands[0];
+    }
+
+    const label = attributes['label'] ?? scope.edge['label'];
+    for (let i = 1; i < operands.length; i++) {
+      operands[i - 1].forEach(source =>
+        operands[i].forEach(target =>
+          this.builder.addEdge(
+            source,
+            target,
+            this.resolveLabel(label, {
+              T: source,
+              H: target,
+              E: `${source}${edgeop}${target}`,
+            })
+          )
+        )
+      );
+    }
+
+    return operands.flat();
+  }
+
+  /**
+   * Reads one side of an edge: a node id with optional port, or a subgraph
+   * @returns Ids of the nodes the operand stands for
+   * @private
+   */
+  private readOperand(
+    parents: string[],
+    scope: { node: DotAttributes; edge: DotAttributes }
+  ): string[] {
+    if (this.isKeyword('subgraph') || this.isPunct('{')) {
+      return this.readSubgraph(parents, scope);
+    }
+
+    const id = this.expectId();
+
+    // Ports are not mapped, the edge attaches to the node itself
+    while (this.isPunct(':')) {
+      this.next();
+      this.expectId();
+    }
+
+    this.builder.addNode(id, parents);
+    return [id];
+  }
+
+  /**
+   * Reads a subgraph block, clusters become groups
+   * @private
+   */
+  private readSubgraph(
+    parents: string[],
+    scope: { node: DotAttributes; edge: DotAttributes }
+  ): string[] {
+    let id = `subgraph_${++this.anonymousSubgraphs}`;
+
+    if (this.isKeyword('subgraph')) {
+      this.next();
+      if (this.peek().type === 'id') {
+        id = this.next().value;
+      }
+    }
+
+    const isCluster = id.startsWith('cluster');
+    if (isCluster) {
+      this.builder.addGroup(id, parents);
+    }
+
+    this.expect('{');
+    const mentioned = this.readStatements(
+      isCluster ? [...parents, id] : parents,
+      scope
+    );
+    this.expect('}');
+
+    return mentioned;
+  }
+
+  /**
+   * Applies graph-level attributes, cluster labels and the root rankdir
+   * @private
+   */
+  private applyGraphAttributes(
+    attributes: DotAttributes,
+    parents: string[],
+    root: boolean
+  ): void {
+    const clusterId = parents[parents.length - 1];
+
+    if (attributes['label'] !== undefined && clusterId) {
+      this.builder.addGroup(
+        clusterId,
+        parents.slice(0, -1),
+        attributes['label']
+      );
+    }
+
+    const rankdir = attributes['rankdir']?.toUpperCase();
+    if (root && rankdir && RANK_DIRECTIONS[rankdir]) {
+      this.direction = RANK_DIRECTIONS[rankdir];
+    }
+  }
+
+  /**
+   * Reads one or more bracketed attribute lists
+   * @private
+   */
+  private readAttributes(): DotAttributes {
+    const attributes: DotAttributes = {};
+
+    while (this.isPunct('[')) {
+      this.next();
+      while (!this.isPunct(']')) {
+        const key = this.expectId();
+        this.expect('=');
+        attributes[key] = this.expectId();
+
+        if (this.isPunct(',') || this.isPunct(';')) {
+          this.next();
+        }
+      }
+      this.expect(']');
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Replaces name escapes, e.g. \N with the node id or \T and \H with the ends
+   * of an edge, and \n style escapes with line breaks
+   * @param names - Replacement of each escape letter
+   * @private
+   */
+  private resolveLabel(
+    label: string | undefined,
+    names: Record<string, string>
+  ): string | undefined {
+    return label
+      ?.replace(/\\([NTHE])/g, (escape, name) => names[name] ?? escape)
+      .replace(/\\[nlr]/g, '\n')
+      .replace(/\n$/, '');
+  }
+
+  private peek(): IDotToken {
+    return this.tokens[this.position];
+  }
+
+  private peekAt(offset: number): IDotToken {
+    return this.tokens[
+      Math.min(this.position + offset, this.tokens.length - 1)
+    ];
+  }
+
+  private next(): IDotToken {
+    return this.tokens[this.position++];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return (
+      token.type === 'id' &&
+      !token.quoted &&
+      token.value.toLowerCase() === keyword
+    );
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) {
+      this.fail(`Expected "${value}"`);
+    }
+    this.next();
+  }
+
+  private expectId(): string {
+    if (this.peek().type !== 'id') {
+      this.fail('Expected an identifier');
+    }
+    return this.next().value;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const found = token.type === 'eof' ? 'end of input' : `"${token.value}"`;
+    throw new GraphSourceError(`${message}, found ${found}`, token.line);
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  IEdge,
+  IElkLayoutOptions,
+  IGroup,
+  ILayoutInput,
+  INode,
+} from '../models/graph.interface';
+import { getNodeSizeForLabel } from '../utils/text-measure';
+
+/**
+ * Layout input read from a text source, with the flow direction the source asks for
+ */
+export interface IParsedGraph extends ILayoutInput {
+  direction?: IElkLayoutOptions['direction'];
+}
+
+/**
+ * Raised when a DOT or Mermaid source can't be parsed
+ */
+export class GraphSourceError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'GraphSourceError';
+  }
+}
+
+/**
+ * Collects groups, nodes and edges while a source is parsed
+ * Nodes are created on first mention, a node mentioned again inside a deeper
+ * group moves into that group, like Graphviz clusters and Mermaid subgraphs do
+ * An edge to a group id stands for edges to all nodes of the group, the group
+ * may be declared after the edge
+ * Text sources carry no geometry, nodes are sized to fit their labels
+ */
+export class GraphSourceBuilder {
+  private readonly groups = new Map<string, IGroup>();
+  private readonly nodes = new Map<string, INode>();
+  private readonly edges: Pick<IEdge, 'source' | 'target' | 'label'>[] = [];
+
+  /**
+   * Adds a group, or updates the label of an existing one
+   * @param parents - Ids of the enclosing groups, outermost first
+   */
+  public addGroup(id: string, parents: string[], label?: string): void {
+    const group = this.groups.get(id);
+
+    if (group) {
+      group.label = label ?? group.label;
+      return;
+    }
+
+    this.groups.set(id, {
+      id,
+      label,
+      size: { width: 200, height: 200 }, // ELK expands it to fit its children
+      parentId: parents[parents.length - 1] ?? null,
+    });
+  }
+
+  /**
+   * Declares a node mentioned inside the given groups
+   * @param parents - Ids of the enclosing groups, outermost first
+   * @param label - Label to set, keeps the current one when omitted
+   */
+  public addNode(id: string, parents: string[], label?: string): void {
+    const parentId = parents[parents.length - 1] ?? null;
+    const node = this.nodes.get(id);
+
+    if (!node) {
+      this.nodes.set(id, {
+        id,
+        label: label ?? id,
+        size: getNodeSizeForLabel(label ?? id),
+        parentId,
+      });
+      return;
+    }
+
+    // Move into a deeper group when the current parent encloses it
+    if (parentId && (!node.parentId || parents.includes(node.parentId))) {
+      node.parentId = parentId;
+    }
+
+    if (label !== undefined) {
+      node.label = label;
+      node.size = getNodeSizeForLabel(label);
+    }
+  }
+
+  /**
+   * Adds an edge between two declared nodes or groups
+   */
+  public addEdge(source: string, target: string, label?: string): void {
+    this.edges.push({ source, target, label });
+  }
+
+  /**
+   * Builds the layout input, edges connect nodes through their default handles
+   */
+  public build(direction?: IElkLayoutOptions['direction']): IParsedGraph {
+    const groups = [...this.groups.values()];
+    // Group ids mentioned as nodes are no nodes of their own
+    const nodes = [...this.nodes.values()].filter(
+      node => !this.groups.has(node.id)
+    );
+    const edges = this.edges.flatMap(({ source, target, label }) =>
+      this.getMembers(source, nodes).flatMap(memberSource =>
+        this.getMembers(target, nodes)
+          // An edge between a group and its own nodes gets no loops
+          .filter(
+            memberTarget => memberSource !== memberTarget || source === target
+          )
+          .map(memberTarget => ({
+            source: memberSource,
+            target: memberTarget,
+            label,
+          }))
+      )
+    );
+
+    return {
+      groups,
+      nodes,
+      edges: edges.map((edge, index) => ({
+        id: `e${index + 1}`,
+        ...edge,
+        sourceHandle: edge.source,
+        targetHandle: edge.target,
+      })),
+      enableGroups: groups.length > 0,
+      direction,
+    };
+  }
+
+  /**
+   * Ids of the nodes an edge end stands for, all nodes inside a group
+   * @private
+   */
+  private getMembers(id: string, nodes: INode[]): string[] {
+    if (!this.groups.has(id)) {
+      return [id];
+    }
+
+    const isInside = (parentId: string | null | undefined): boolean =>
+      !!parentId &&
+      (parentId === id || isInside(this.groups.get(parentId)?.parentId));
+
+    return nodes.filter(node => isInside(node.parentId)).map(node => node.id);
+  }
+}
@@ -0,0 +1,106 @@
+import { TestBed } from '@angular/core/testing';
+import { MermaidParser } from './mermaid.parser';
+import { GraphSourceError } from './graph-source';
+
+describe('MermaidParser', () => {
+  let parser: MermaidParser;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    parser = TestBed.inject(MermaidParser);
+  });
+
+  it('should read nodes, links and the flow direction', () => {
+    const graph = parser.parse(
+      ['flowchart LR', '  A[Start] & B -->|yes| C(("End"))'].join('\n')
+    );
+
+    expect(graph.direction).toBe('RIGHT');
+    expect(graph.nodes.map(node => [node.id, node.label])).toEqual([
+      ['A', 'Start'],
+      ['B', 'B'],
+      ['C', 'End'],
+    ]);
+    expect(graph.edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['A', 'C'],
+      ['B', 'C'],
+    ]);
+    expect(graph.edges.every(edge => edge.label === 'yes')).toBeTrue();
+  });
+
+  it('should read the text of every link form', () => {
+    const graph = parser.parse(
+      [
+        'graph TD',
+        '  A -- solid --> B',
+        '  B == thick ==> C',
+        '  C -. dotted .-> D',
+        '  D -.tight.-> E',
+        '  E -.-> F',
+      ].join('\n')
+    );
+
+    expect(graph.edges.map(edge => edge.label)).toEqual([
+      'solid',
+      'thick',
+      'dotted',
+      'tight',
+      undefined,
+    ]);
+  });
+
+  it('should map subgraphs to groups', () => {
+    const graph = parser.parse(
+      [
+        'flowchart TB',
+        '  subgraph outer [Outer]',
+        '    A',
+        '    subgraph inner',
+        '      B',
+        '    end',
+        '  end',
+        '  C',
+      ].join('\n')
+    );
+
+    expect(graph.groups).toEqual([
+      jasmine.objectContaining({ id: 'outer', label: 'Outer', parentId: null }),
+      jasmine.objectContaining({ id: 'inner', parentId: 'outer' }),
+    ]);
+    expect(graph.nodes.map(node => [node.id, node.parentId])).toEqual([
+      ['A', 'outer'],
+      ['B', 'inner'],
+      ['C', null],
+    ]);
+  });
+
+  it('should connect links to a subgraph to all of its nodes', () => {
+    const graph = parser.parse(
+      [
+        'flowchart TB',
+        '  A --> S',
+        '  subgraph S',
+        '    B --> C',
+        '  end',
+      ].join('\n')
+    );
+
+    expect(graph.nodes.map(node => node.id)).toEqual(['A', 'B', 'C']);
+    expect(graph.edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['A', 'B'],
+      ['A', 'C'],
+      ['B', 'C'],
+    ]);
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => parser.parse('flowchart TB\n  A --> B\n  end')).toThrowError(
+      GraphSourceError,
+      'Line 3: "end" without a subgraph'
+    );
+    expect(() => parser.parse('flowchart TB\n  A ~~ B')).toThrowError(
+      GraphSourceError,
+      /^Line 2: Expected a link/
+    );
+  });
+});
@@ -0,0 +1,334 @@
+import { Injectable } from '@angular/core';
+import { IElkLayoutOptions } from '../models/graph.interface';
+import {
+  GraphSourceBuilder,
+  GraphSourceError,
+  IParsedGraph,
+} from './graph-source';
+
+// Mermaid flowchart directions mapped to ELK directions
+const FLOW_DIRECTIONS: Record<string, IElkLayoutOptions['direction']> = {
+  TB: 'DOWN',
+  TD: 'DOWN',
+  BT: 'UP',
+  LR: 'RIGHT',
+  RL: 'LEFT',
+};
+
+// Node shape delimiters, longest openers first so `((` wins over `(`
+const NODE_SHAPES: [open: string, close: string[]][] = [
+  ['(((', [')))']],
+  ['([', ['])']],
+  ['[[', [']]']],
+  ['[(', [')]']],
+  ['((', ['))']],
+  ['{{', ['}}']],
+  ['[/', ['/]', '\\]']],
+  ['[\\', ['\\]', '/]']],
+  ['[', [']']],
+  ['(', [')']],
+  ['{', ['}']],
+  ['>', [']']],
+];
+
+const NODE_ID = /^[\w$]+(?:[-.][\w$]+)*/;
+
+// Complete links: -->, ---, -.->, ==>, <-->, --o, --x and longer variants
+const LINK = /^[<ox]?(?:-{2,}|={2,}|-\.+-)[>ox]?/;
+
+// Links with inline text: -- text -->, == text ==>, -. text .-> or -.text.->
+const TEXT_LINK =
+  /^[<ox]?(?:(?:--|==)\s+|-\.\s*(?=[^\s.-]))(.+?)\s*(?:-{2,}[>ox]?|={2,}[>ox]?|\.-+[>ox]?)/;
+
+// Statements that only style the chart
+const IGNORED_STATEMENT =
+  /^(?:classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+/**
+ * Parses Mermaid `flowchart` (or `graph`) sources into layout input
+ * `subgraph` blocks become groups and set the parentId of the nodes inside them,
+ * links to a subgraph connect to all of its nodes
+ * Node and edge labels are kept, shapes and styling are ignored
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MermaidParser {
+  public parse(source: string): IParsedGraph {
+    const builder = new GraphSourceBuilder();
+    const parents: string[] = [];
+    let direction: IElkLayoutOptions['direction'];
+    let headerFound = false;
+
+    source.split('\n').forEach((rawLine, index) => {
+      const line = index + 1;
+
+      this.splitStatements(this.stripComment(rawLine)).forEach(statement => {
+        if (!headerFound) {
+          const header = /^(?:flowchart|graph)(?:\s+(\w+))?$/i.exec(statement);
+          if (!header) {
+            throw new GraphSourceError(
+              'Expected a "flowchart" or "graph" header',
+              line
+            );
+          }
+
+          const key = header[1]?.toUpperCase();
+          if (key && !FLOW_DIRECTIONS[key]) {
+            throw new GraphSourceError(
+              `Unknown direction "${header[1]}"`,
+              line
+            );
+          }
+
+          direction = key ? FLOW_DIRECTIONS[key] : undefined;
+          headerFound = true;
+          return;
+        }
+
+        if (/^subgraph\b/.test(statement)) {
+          const group = this.readSubgraphHeader(statement, line);
+          builder.addGroup(group.id, parents, group.label);
+          parents.push(group.id);
+        } else if (statement === 'end') {
+          if (!parents.length) {
+            throw new GraphSourceError('"end" without a subgraph', line);
+          }
+          parents.pop();
+        } else if (!IGNORED_STATEMENT.test(statement)) {
+          this.readChain(statement, line, parents, builder);
+        }
+      });
+    });
+
+    if (!headerFound) {
+      throw new GraphSourceError('Source is empty', 1);
+    }
+
+    if (parents.length) {
+      throw new GraphSourceError(
+        `Subgraph "${parents[parents.length - 1]}" is missing its "end"`,
+        source.split('\n').length
+      );
+    }
+
+    return builder.build(direction);
+  }
+
+  /**
+   * Reads `subgraph id`, `subgraph id [title]` or `subgraph title`
+   * @private
+   */
+  private readSubgraphHeader(
+    statement: string,
+    line: number
+  ): { id: string; label: string } {
+    const rest = statement.slice('subgraph'.length).trim();
+
+    if (!rest) {
+      throw new GraphSourceError('Subgraph needs an id or a title', line);
+    }
+
+    const withTitle = /^([\w$-]+)\s*\[\s*(.*?)\s*\]$/.exec(rest);
+    if (withTitle) {
+      return { id: withTitle[1], label: this.unquote(withTitle[2]) };
+    }
+
+    // A title alone also serves as the id
+    const title = this.unquote(rest);
+    return { id: title, label: title };
+  }
+
+  /**
+   * Reads node definitions and links, e.g. `A[Start] & B -->|yes| C --> D`
+   * @private
+   */
+  private readChain(
+    statement: string,
+    line: number,
+    parents: string[],
+    builder: GraphSourceBuilder
+  ): void {
+    const cursor = { text: statement, line };
+    let sources = this.readNodeList(cursor, parents, builder);
+
+    while (cursor.text) {
+      const label = this.readLink(cursor);
+      const targets = this.readNodeList(cursor, parents, builder);
+
+      sources.forEach(source =>
+        targets.forEach(target => builder.addEdge(source, target, label))
+      );
+      sources = targets;
+    }
+  }
+
+  /**
+   * Reads nodes joined by `&`
+   * @private
+   */
+  private readNodeList(
+    cursor: { text: string; line: number },
+    parents: string[],
+    builder: GraphSourceBuilder
+  ): string[] {
+    const ids = [this.readNode(cursor, parents, builder)];
+
+    while (cursor.text.startsWith('&')) {
+      cursor.text = cursor.text.slice(1).trimStart();
+      ids.push(this.readNode(cursor, parents, builder));
+    }
+
+    return ids;
+  }
+
+  /**
+   * Reads a node id with an optional shape and label, e.g. `A`, `A[Text]`, `A(("Text"))`
+   * @private
+   */
+  private readNode(
+    cursor: { text: string; line: number },
+    parents: string[],
+    builder: GraphSourceBuilder
+  ): string {
+    const idMatch = NODE_ID.exec(cursor.text);
+    if (!idMatch) {
+      throw new GraphSourceError(
+        `Expected a node id at "${cursor.text}"`,
+        cursor.line
+      );
+    }
+
+    const id = idMatch[0];
+    let rest = cursor.text.slice(id.length);
+    let label: string | undefined;
+
+    const shape = NODE_SHAPES.find(([open]) => rest.startsWith(open));
+    if (shape) {
+      const [open, closers] = shape;
+      const body = rest.slice(open.length);
+      const end = this.findShapeEnd(body, closers);
+
+      if (end === -1) {
+        throw new GraphSourceError(
+          `Node "${id}" is missing a closing "${closers[0]}"`,
+          cursor.line
+        );
+      }
+
+      label = this.unquote(body.slice(0, end).trim());
+      rest = body.slice(
+        end + closers.find(c => body.startsWith(c, end))!.length
+      );
+    }
+
+    // Class shorthand, e.g. A:::warning
+    rest = rest.replace(/^:::[\w-]+/, '');
+
+    // Subgraph ids may be linked too, the builder tells them from nodes
+    builder.addNode(id, parents, label);
+
+    cursor.text = rest.trimStart();
+    return id;
+  }
+
+  /**
+   * Reads a link and returns its text from `-->|text|` or `-- text -->` forms
+   * @private
+   */
+  private readLink(cursor: { text: string; line: number }): string | undefined {
+    const textLink = TEXT_LINK.exec(cursor.text);
+    const link = textLink ?? LINK.exec(cursor.text);
+
+    if (!link) {
+      throw new GraphSourceError(
+        `Expected a link at "${cursor.text}"`,
+        cursor.line
+      );
+    }
+
+    cursor.text = cursor.text.slice(link[0].length).trimStart();
+    let label = textLink ? this.unquote(textLink[1]) : undefined;
+
+    const pipeLabel = /^\|([^|]*)\|/.exec(cursor.text);
+    if (pipeLabel) {
+      label = this.unquote(pipeLabel[1].trim());
+      cursor.text = cursor.text.slice(pipeLabel[0].length).trimStart();
+    }
+
+    return label;
+  }
+
+  /**
+   * Finds the closing delimiter of a node shape, skipping over a quoted label
+   * @private
+   */
+  private findShapeEnd(body: string, closers: string[]): number {
+    let from = 0;
+
+    if (body.trimStart().startsWith('"')) {
+      const open = body.indexOf('"');
+      from = body.indexOf('"', open + 1);
+      if (from === -1) {
+        return -1;
+      }
+    }
+
+    const ends = closers
+      .map(closer => body.indexOf(closer, from))
+      .filter(index => index !== -1);
+
+    return ends.length ? Math.min(...ends) : -1;
+  }
+
+  /**
+   * Removes surrounding quotes and turns <br> tags into line breaks
+   * @private
+   */
+  private unquote(text: string): string {
+    const quoted = /^"(.*)"$/s.exec(text);
+
+    return (quoted ? quoted[1] : text).replace(/<br\s*\/?>/gi, '\n');
+  }
+
+  /**
+   * Removes a trailing %% comment
+   * @private
+   */
+  private stripComment(line: string): string {
+    const index = line.indexOf('%%');
+    return index === -1 ? line : line.slice(0, index);
+  }
+
+  /**
+   * Splits a line on semicolons outside quotes and shape delimiters
+   * @private
+   */
+  private splitStatements(line: string): string[] {
+    const statements: string[] = [];
+    let depth = 0;
+    let quoted = false;
+    let current = '';
+
+    for (const char of line) {
+      if (char === '"') {
+        quoted = !quoted;
+      } else if (!quoted && '[({'.includes(char)) {
+        depth++;
+      } else if (!quoted && '])}'.includes(char)) {
+        depth = Math.max(0, depth - 1);
+      }
+
+      if (char === ';' && !quoted && !depth) {
+        statements.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    return [...statements, current]
+      .map(statement => statement.trim())
+      .filter(Boolean);
+  }
+}
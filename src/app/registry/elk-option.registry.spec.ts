@@ -0,0 +1,127 @@
+import {
+  ELK_OPTION_REGISTRY,
+  getElkOptionDefinitions,
+  resolveElkOptions,
+  validateElkOptionValue,
+} from './elk-option.registry';
+import { ElkAlgorithm } from '../models/elk-option.interface';
+
+describe('ELK option registry', () => {
+  const definition = (algorithm: ElkAlgorithm, id: string) =>
+    ELK_OPTION_REGISTRY[algorithm].find(option => option.id === id)!;
+
+  it('should offer options for every algorithm with defaults in range', () => {
+    Object.values(ELK_OPTION_REGISTRY).forEach(definitions => {
+      expect(definitions.length).toBeGreaterThan(0);
+      definitions.forEach(option =>
+        expect(validateElkOptionValue(option, option.default))
+          .withContext(option.id)
+          .toBeNull()
+      );
+    });
+  });
+
+  it('should offer no options for unknown algorithms', () => {
+    expect(getElkOptionDefinitions(undefined)).toEqual([]);
+    expect(getElkOptionDefinitions('unknown' as ElkAlgorithm)).toEqual([]);
+  });
+
+  describe('resolveElkOptions', () => {
+    it('should resolve every option of the algorithm to its default', () => {
+      const values = resolveElkOptions({ algorithm: 'radial' });
+
+      expect(Object.keys(values)).toEqual(
+        ELK_OPTION_REGISTRY.radial.map(option => option.id)
+      );
+      expect(values['elk.radial.centerOnRoot']).toBe(false);
+    });
+
+    it('should prefer typed settings over defaults', () => {
+      const values = resolveElkOptions({
+        algorithm: 'layered',
+        direction: 'UP',
+        spacing: { nodeNode: 25, edgeEdge: 5 },
+      });
+
+      expect(values['elk.direction']).toBe('UP');
+      expect(values['elk.spacing.nodeNode']).toBe(25);
+      expect(values['elk.spacing.edgeEdge']).toBe(5);
+      expect(values['elk.edgeRouting']).toBe('ORTHOGONAL');
+    });
+
+    it('should prefer explicit values over typed settings', () => {
+      const values = resolveElkOptions({
+        algorithm: 'layered',
+        direction: 'UP',
+        elkOptions: { 'elk.direction': 'LEFT', 'elk.layered.mergeEdges': true },
+      });
+
+      expect(values['elk.direction']).toBe('LEFT');
+      expect(values['elk.layered.mergeEdges']).toBeTrue();
+    });
+
+    it('should keep falsy explicit values', () => {
+      const values = resolveElkOptions({
+        algorithm: 'layered',
+        spacing: { edgeEdge: 5 },
+        elkOptions: { 'elk.spacing.edgeEdge': 0 },
+      });
+
+      expect(values['elk.spacing.edgeEdge']).toBe(0);
+    });
+
+    it('should leave out options of other algorithms', () => {
+      const values = resolveElkOptions({
+        algorithm: 'force',
+        elkOptions: { 'elk.layered.thoroughness': 20 },
+      });
+
+      expect(values['elk.layered.thoroughness']).toBeUndefined();
+    });
+  });
+
+  describe('validateElkOptionValue', () => {
+    const thoroughness = () =>
+      definition('layered', 'elk.layered.thoroughness');
+
+    it('should accept numbers within the range', () => {
+      expect(validateElkOptionValue(thoroughness(), 1)).toBeNull();
+      expect(validateElkOptionValue(thoroughness(), 50)).toBeNull();
+    });
+
+    it('should reject numbers out of range', () => {
+      expect(validateElkOptionValue(thoroughness(), 0)).toBe(
+        'must be between 1 and 50'
+      );
+      expect(validateElkOptionValue(thoroughness(), 51)).toBe(
+        'must be between 1 and 50'
+      );
+    });
+
+    it('should reject values that are not finite numbers', () => {
+      [NaN, Infinity, '10', null].forEach(value =>
+        expect(validateElkOptionValue(thoroughness(), value)).toBe(
+          'must be a number'
+        )
+      );
+    });
+
+    it('should accept only booleans for boolean options', () => {
+      const mergeEdges = definition('layered', 'elk.layered.mergeEdges');
+
+      expect(validateElkOptionValue(mergeEdges, true)).toBeNull();
+      expect(validateElkOptionValue(mergeEdges, 'true')).toBe(
+        'must be true or false'
+      );
+    });
+
+    it('should accept only the listed values for enum options', () => {
+      const routing = definition('layered', 'elk.edgeRouting');
+
+      expect(validateElkOptionValue(routing, 'SPLINES')).toBeNull();
+      expect(validateElkOptionValue(routing, 'splines')).toBe(
+        'must be one of ORTHOGONAL, POLYLINE, SPLINES'
+      );
+    });
+  });
+});
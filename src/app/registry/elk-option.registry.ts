@@ -0,0 +1,715 @@
+import {
+  ElkAlgorithm,
+  ElkLayoutSetting,
+  ElkOptionDefinition,
+  ElkOptionValue,
+  ElkOptionValues,
+  IElkEnumOption,
+  IElkNumberOption,
+} from '../models/elk-option.interface';
+import { IElkLayoutOptions } from '../models/graph.interface';
+
+export const DIRECTION_OPTIONS = [
+  { value: 'RIGHT', label: 'Left to Right' },
+  { value: 'DOWN', label: 'Top to Bottom' },
+  { value: 'LEFT', label: 'Right to Left' },
+  { value: 'UP', label: 'Bottom to Top' },
+] as const;
+
+export const EDGE_ROUTING_OPTIONS = [
+  { value: 'ORTHOGONAL', label: 'Orthogonal (90° angles)' },
+  { value: 'POLYLINE', label: 'Polyline (straight segments)' },
+  { value: 'SPLINES', label: 'Splines (curved)' },
+] as const;
+
+export const NODE_PLACEMENT_OPTIONS = [
+  { value: 'NETWORK_SIMPLEX', label: 'Network Simplex' },
+  { value: 'BRANDES_KOEPF', label: 'Brandes Koepf' },
+  { value: 'LINEAR_SEGMENTS', label: 'Linear Segments' },
+] as const;
+
+// Reads the typed layout options an ELK option can take its value from
+const SETTING_VALUES: Record<
+  ElkLayoutSetting,
+  (options: IElkLayoutOptions) => ElkOptionValue | undefined
+> = {
+  direction: options => options.direction,
+  edgeRouting: options => options.edgeRouting,
+  nodePlacement: options => options.nodePlacement,
+  'spacing.nodeNode': options => options.spacing?.nodeNode,
+  'spacing.nodeNodeBetweenLayers': options =>
+    options.spacing?.nodeNodeBetweenLayers,
+  'spacing.edgeNode': options => options.spacing?.edgeNode,
+  'spacing.edgeEdge': options => options.spacing?.edgeEdge,
+  'spacing.componentComponent': options => options.spacing?.componentComponent,
+};
+
+// Options shared by several algorithms
+
+const DIRECTION: IElkEnumOption = {
+  id: 'elk.direction',
+  label: 'Direction',
+  description: 'Overall direction edges point to',
+  type: 'enum',
+  setting: 'direction',
+  default: 'RIGHT',
+  values: DIRECTION_OPTIONS,
+};
+
+const COMPONENT_SPACING: IElkNumberOption = {
+  id: 'elk.spacing.componentComponent',
+  label: 'Component Spacing',
+  description: 'Space between parts of the graph that are not connected',
+  type: 'number',
+  setting: 'spacing.componentComponent',
+  default: 100,
+  min: 0,
+  max: 300,
+  step: 10,
+  unit: 'px',
+  advanced: true,
+};
+
+const ASPECT_RATIO: IElkNumberOption = {
+  id: 'elk.aspectRatio',
+  label: 'Aspect Ratio',
+  description: 'Width to height ratio the packing aims for',
+  type: 'number',
+  default: 1.3,
+  min: 0.2,
+  max: 5,
+  step: 0.1,
+};
+
+// Layouts the SPOrE algorithms run first and then remove overlaps from
+const UNDERLYING_ALGORITHM_OPTIONS = [
+  { value: 'force', label: 'Force-Directed' },
+  { value: 'stress', label: 'Stress' },
+] as const;
+
+/**
+ * ELK options offered for every algorithm, with type, default, range and meaning
+ * Options with a setting take their value from the typed layout options,
+ * all others from `elkOptions` or their default
+ */
+export const ELK_OPTION_REGISTRY: Record<
+  ElkAlgorithm,
+  readonly ElkOptionDefinition[]
+> = {
+  layered: [
+    DIRECTION,
+    {
+      id: 'elk.edgeRouting',
+      label: 'Edge Routing',
+      description:
+        'How edges are drawn between nodes. Edges into groups with their own layout are drawn directly and may cross other nodes',
+      type: 'enum',
+      setting: 'edgeRouting',
+      default: 'ORTHOGONAL',
+      values: EDGE_ROUTING_OPTIONS,
+    },
+    {
+      id: 'elk.layered.nodePlacement.strategy',
+      label: 'Node Placement',
+      description: 'How nodes are positioned within their layer',
+      type: 'enum',
+      setting: 'nodePlacement',
+      default: 'NETWORK_SIMPLEX',
+      values: NODE_PLACEMENT_OPTIONS,
+    },
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space between nodes of the same layer',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 20,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.layered.spacing.nodeNodeBetweenLayers',
+      label: 'Layer Spacing',
+      description: 'Space between consecutive layers',
+      type: 'number',
+      setting: 'spacing.nodeNodeBetweenLayers',
+      default: 80,
+      min: 20,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.spacing.edgeNode',
+      label: 'Edge–Node Spacing',
+      description: 'Space between edges and the nodes they pass',
+      type: 'number',
+      setting: 'spacing.edgeNode',
+      default: 40,
+      min: 0,
+      max: 100,
+      step: 1,
+      unit: 'px',
+      advanced: true,
+    },
+    {
+      id: 'elk.spacing.edgeEdge',
+      label: 'Edge Spacing',
+      description: 'Space between parallel edge segments',
+      type: 'number',
+      setting: 'spacing.edgeEdge',
+      default: 20,
+      min: 0,
+      max: 100,
+      step: 1,
+      unit: 'px',
+      advanced: true,
+    },
+    COMPONENT_SPACING,
+    {
+      id: 'elk.layered.thoroughness',
+      label: 'Thoroughness',
+      description:
+        'Effort spent on a nice layout, higher values reduce crossings but take longer',
+      type: 'number',
+      default: 10,
+      min: 1,
+      max: 50,
+      step: 1,
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.cycleBreaking.strategy',
+      label: 'Cycle Breaking',
+      description: 'Which edges are reversed to make the graph acyclic',
+      type: 'enum',
+      default: 'GREEDY',
+      values: [
+        { value: 'GREEDY', label: 'Greedy' },
+        { value: 'DEPTH_FIRST', label: 'Depth First' },
+        { value: 'MODEL_ORDER', label: 'Model Order' },
+        { value: 'GREEDY_MODEL_ORDER', label: 'Greedy Model Order' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.layering.strategy',
+      label: 'Layering',
+      description: 'How nodes are assigned to layers',
+      type: 'enum',
+      default: 'NETWORK_SIMPLEX',
+      values: [
+        { value: 'NETWORK_SIMPLEX', label: 'Network Simplex' },
+        { value: 'LONGEST_PATH', label: 'Longest Path' },
+        { value: 'COFFMAN_GRAHAM', label: 'Coffman Graham' },
+        { value: 'MIN_WIDTH', label: 'Min Width' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.considerModelOrder.strategy',
+      label: 'Model Order',
+      description: 'Whether the input order of nodes and edges is kept',
+      type: 'enum',
+      default: 'NODES_AND_EDGES',
+      values: [
+        { value: 'NONE', label: 'Ignore' },
+        { value: 'NODES_AND_EDGES', label: 'Nodes and Edges' },
+        { value: 'PREFER_EDGES', label: 'Prefer Edges' },
+        { value: 'PREFER_NODES', label: 'Prefer Nodes' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.edgeRouting.selfLoopPlacement',
+      label: 'Self Loops',
+      description: 'Where edges from a node to itself are placed',
+      type: 'enum',
+      default: 'NORTH_STACKED',
+      values: [
+        { value: 'NORTH_STACKED', label: 'North, Stacked' },
+        { value: 'NORTH_SEQUENCE', label: 'North, in Sequence' },
+        { value: 'EQUALLY_DISTRIBUTED', label: 'Equally Distributed' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.compaction.postCompaction.strategy',
+      label: 'Compaction',
+      description: 'Moves nodes closer together after placement',
+      type: 'enum',
+      default: 'NONE',
+      values: [
+        { value: 'NONE', label: 'None' },
+        { value: 'LEFT', label: 'Left' },
+        { value: 'RIGHT', label: 'Right' },
+        { value: 'EDGE_LENGTH', label: 'Edge Length' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.mergeEdges',
+      label: 'Merge Edges',
+      description: 'Edges without ports touch their nodes at the same points',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.feedbackEdges',
+      label: 'Feedback Edges',
+      description: 'Routes edges against the main direction around the nodes',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+    {
+      id: 'elk.layered.highDegreeNodes.treatment',
+      label: 'High Degree Nodes',
+      description: 'Makes room around high degree nodes for their leaves',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+  ],
+  force: [
+    {
+      id: 'elk.force.model',
+      label: 'Force Model',
+      description: 'Model the forces between nodes are calculated with',
+      type: 'enum',
+      default: 'FRUCHTERMAN_REINGOLD',
+      values: [
+        { value: 'FRUCHTERMAN_REINGOLD', label: 'Fruchterman Reingold' },
+        { value: 'EADES', label: 'Eades' },
+      ],
+    },
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Desired distance between nodes',
+      type: 'number',
+      default: 150,
+      min: 20,
+      max: 300,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.force.iterations',
+      label: 'Iterations',
+      description: 'Number of simulation steps, more give a calmer layout',
+      type: 'number',
+      default: 500,
+      min: 1,
+      max: 2000,
+      step: 1,
+    },
+    {
+      id: 'elk.force.temperature',
+      label: 'Temperature',
+      description:
+        'Scales how far nodes move in each step (Fruchterman Reingold)',
+      type: 'number',
+      default: 0.001,
+      min: 0.0001,
+      max: 0.1,
+      step: 0.0001,
+      advanced: true,
+    },
+    {
+      id: 'elk.force.repulsion',
+      label: 'Repulsion',
+      description: 'Factor of the repulsive forces (Eades)',
+      type: 'number',
+      default: 2,
+      min: 0.1,
+      max: 10,
+      step: 0.1,
+      advanced: true,
+    },
+    {
+      id: 'elk.force.repulsivePower',
+      label: 'Repulsive Power',
+      description: 'Bend points added to edges that repel other edges',
+      type: 'number',
+      default: 0,
+      min: 0,
+      max: 10,
+      step: 1,
+      advanced: true,
+    },
+    {
+      id: 'elk.randomSeed',
+      label: 'Random Seed',
+      description:
+        'Seed of the initial placement, the same seed gives the same layout',
+      type: 'number',
+      default: 1,
+      min: 0,
+      max: 1000,
+      step: 1,
+      advanced: true,
+    },
+    COMPONENT_SPACING,
+  ],
+  stress: [
+    {
+      id: 'elk.stress.desiredEdgeLength',
+      label: 'Edge Length',
+      description: 'Length edges should have',
+      type: 'number',
+      default: 100,
+      min: 10,
+      max: 500,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space between nodes',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 20,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.stress.iterationLimit',
+      label: 'Iteration Limit',
+      description: 'Maximum number of iterations, wins over the epsilon',
+      type: 'number',
+      default: 300,
+      min: 10,
+      max: 2000,
+      step: 10,
+      advanced: true,
+    },
+    {
+      id: 'elk.stress.epsilon',
+      label: 'Epsilon',
+      description: 'Stops once the stress improves by less than this',
+      type: 'number',
+      default: 0.0001,
+      min: 0.00001,
+      max: 0.01,
+      step: 0.00001,
+      advanced: true,
+    },
+    COMPONENT_SPACING,
+  ],
+  mrtree: [
+    DIRECTION,
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space between nodes of the tree',
+      type: 'number',
+      default: 60,
+      min: 20,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.spacing.edgeNode',
+      label: 'Edge–Node Spacing',
+      description: 'Space between edges and the nodes they pass',
+      type: 'number',
+      default: 30,
+      min: 0,
+      max: 100,
+      step: 1,
+      unit: 'px',
+      advanced: true,
+    },
+    COMPONENT_SPACING,
+  ],
+  radial: [
+    {
+      id: 'elk.radial.radius',
+      label: 'Radius',
+      description:
+        'Radius of the first circle around the root, 0 fits it to the nodes',
+      type: 'number',
+      default: 0,
+      min: 0,
+      max: 1000,
+      step: 10,
+      unit: 'px',
+    },
+    {
+      id: 'elk.radial.compactor',
+      label: 'Compaction',
+      description: 'Moves nodes towards the root after placing them on circles',
+      type: 'enum',
+      default: 'NONE',
+      values: [
+        { value: 'NONE', label: 'None' },
+        { value: 'RADIAL_COMPACTION', label: 'Radial' },
+        { value: 'WEDGE_COMPACTION', label: 'Wedge' },
+      ],
+    },
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space kept between nodes while compacting',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 20,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.radial.wedgeCriteria',
+      label: 'Wedge Size',
+      description: 'What the angle given to each subtree depends on',
+      type: 'enum',
+      default: 'NODE_SIZE',
+      values: [
+        { value: 'NODE_SIZE', label: 'Node Size' },
+        { value: 'LEAF_NUMBER', label: 'Number of Leaves' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.radial.optimizationCriteria',
+      label: 'Optimization',
+      description: 'Rotates subtrees to shorten their edges',
+      type: 'enum',
+      default: 'NONE',
+      values: [
+        { value: 'NONE', label: 'None' },
+        { value: 'EDGE_LENGTH', label: 'Edge Length' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.radial.centerOnRoot',
+      label: 'Center on Root',
+      description: 'Keeps the root in the center of the drawing',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+  ],
+  rectpacking: [
+    ASPECT_RATIO,
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space between packed nodes',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 0,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.rectpacking.widthApproximation.optimizationGoal',
+      label: 'Optimization Goal',
+      description: 'What the width of the drawing is chosen for',
+      type: 'enum',
+      default: 'MAX_SCALE_DRIVEN',
+      values: [
+        { value: 'MAX_SCALE_DRIVEN', label: 'Largest Scale' },
+        { value: 'ASPECT_RATIO_DRIVEN', label: 'Aspect Ratio' },
+        { value: 'AREA_DRIVEN', label: 'Smallest Area' },
+      ],
+    },
+    {
+      id: 'elk.rectpacking.whiteSpaceElimination.strategy',
+      label: 'White Space',
+      description: 'How nodes are enlarged to fill the gaps between rows',
+      type: 'enum',
+      default: 'NONE',
+      values: [
+        { value: 'NONE', label: 'Keep' },
+        { value: 'EQUAL_BETWEEN_STRUCTURES', label: 'Share Equally' },
+        { value: 'TO_ASPECT_RATIO', label: 'Fill to Aspect Ratio' },
+      ],
+      advanced: true,
+    },
+    {
+      id: 'elk.rectpacking.orderBySize',
+      label: 'Order by Size',
+      description: 'Packs the largest nodes first instead of keeping the order',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+    {
+      id: 'elk.rectpacking.trybox',
+      label: 'Try Box',
+      description: 'Checks whether nodes of similar size fit better as a box',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+  ],
+  box: [
+    {
+      id: 'elk.box.packingMode',
+      label: 'Packing Mode',
+      description: 'Whether nodes of the same priority are packed together',
+      type: 'enum',
+      default: 'SIMPLE',
+      values: [
+        { value: 'SIMPLE', label: 'Simple' },
+        { value: 'GROUP_DEC', label: 'Groups, Decreasing' },
+        { value: 'GROUP_MIXED', label: 'Groups, Mixed' },
+        { value: 'GROUP_INC', label: 'Groups, Increasing' },
+      ],
+    },
+    ASPECT_RATIO,
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space between packed nodes',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 0,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.expandNodes',
+      label: 'Expand Nodes',
+      description: 'Enlarges nodes to fill the rows they are packed in',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+  ],
+  sporeOverlap: [
+    {
+      id: 'elk.underlyingLayoutAlgorithm',
+      label: 'Layout First With',
+      description: 'Algorithm whose layout the overlaps are removed from',
+      type: 'enum',
+      default: 'force',
+      values: UNDERLYING_ALGORITHM_OPTIONS,
+    },
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space kept between nodes that overlapped',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 0,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.overlapRemoval.maxIterations',
+      label: 'Iterations',
+      description: 'Maximum number of overlap removal passes',
+      type: 'number',
+      default: 64,
+      min: 1,
+      max: 200,
+      step: 1,
+      advanced: true,
+    },
+    {
+      id: 'elk.overlapRemoval.runScanline',
+      label: 'Scanline Pass',
+      description: 'Removes overlaps the growing tree missed in a final pass',
+      type: 'boolean',
+      default: true,
+      advanced: true,
+    },
+  ],
+  sporeCompaction: [
+    {
+      id: 'elk.underlyingLayoutAlgorithm',
+      label: 'Layout First With',
+      description: 'Algorithm whose layout is compacted',
+      type: 'enum',
+      default: 'stress',
+      values: UNDERLYING_ALGORITHM_OPTIONS,
+    },
+    {
+      id: 'elk.spacing.nodeNode',
+      label: 'Node Spacing',
+      description: 'Space kept between nodes moved together',
+      type: 'number',
+      setting: 'spacing.nodeNode',
+      default: 80,
+      min: 0,
+      max: 200,
+      step: 1,
+      unit: 'px',
+    },
+    {
+      id: 'elk.compaction.orthogonal',
+      label: 'Orthogonal',
+      description: 'Moves nodes only horizontally or vertically',
+      type: 'boolean',
+      default: false,
+      advanced: true,
+    },
+  ],
+};
+
+/**
+ * Returns the options offered for an algorithm, none for unknown algorithms
+ */
+export function getElkOptionDefinitions(
+  algorithm: ElkAlgorithm | undefined
+): readonly ElkOptionDefinition[] {
+  return (algorithm && ELK_OPTION_REGISTRY[algorithm]) || [];
+}
+
+/**
+ * Resolves the value of every option of the chosen algorithm
+ * An explicit value in `elkOptions` wins over the typed setting, which wins over the default
+ */
+export function resolveElkOptions(options: IElkLayoutOptions): ElkOptionValues {
+  return Object.fromEntries(
+    getElkOptionDefinitions(options.algorithm).map(definition => [
+      definition.id,
+      options.elkOptions?.[definition.id] ??
+        (definition.setting && SETTING_VALUES[definition.setting](options)) ??
+        definition.default,
+    ])
+  );
+}
+
+/**
+ * Checks a value against the type and range of an option
+ * @returns A description of the problem, or null when the value is allowed
+ */
+export function validateElkOptionValue(
+  definition: ElkOptionDefinition,
+  value: unknown
+): string | null {
+  switch (definition.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      return value < definition.min || value > definition.max
+        ? `must be between ${definition.min} and ${definition.max}`
+        : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'enum':
+      return definition.values.some(option => option.value === value)
+        ? null
+        : `must be one of ${definition.values.map(option => option.value).join(', ')}`;
+  }
+}
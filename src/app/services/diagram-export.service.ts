@@ -0,0 +1,71 @@
+import { Injectable } from '@angular/core';
+import { SvgDiagramRenderer } from '../engine/svg-diagram.renderer';
+import { ILayoutOutput } from '../models/graph.interface';
+
+/**
+ * Renders laid-out diagrams to standalone SVG documents and PNG images
+ * The SVG carries its own styling so it renders the same outside the app
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DiagramExportService {
+  private readonly svgRenderer = new SvgDiagramRenderer();
+
+  /**
+   * Builds a standalone SVG document of a layout result
+   * @param layout - Groups, nodes and edges with positions and routes
+   */
+  public toSvg(layout: ILayoutOutput): string {
+    return this.svgRenderer.render(layout);
+  }
+
+  /**
+   * Rasterises a layout result to a PNG image
+   * @param layout - Groups, nodes and edges with positions and routes
+   * @param scale - Output pixels per diagram pixel
+   */
+  public async toPng(layout: ILayoutOutput, scale = 1): Promise<Blob> {
+    const svg = this.toSvg(layout);
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: 'image/svg+xml;charset=utf-8' })
+    );
+
+    try {
+      const image = await this.loadImage(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(image.width * scale);
+      canvas.height = Math.ceil(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+
+      return await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(
+          blob =>
+            blob ? resolve(blob) : reject(new Error('PNG encoding failed')),
+          'image/png'
+        )
+      );
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Loads an image and waits until it can be drawn
+   * @private
+   */
+  private loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('SVG could not be rasterised'));
+      image.src = url;
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import { TestBed } from '@angular/core/testing';
+import { ELK as ElkApi, ElkNode } from 'elkjs/lib/elk-api.js';
+import { ElkLayoutService, LayoutCancelledError } from './elk-layout.service';
+import { LayoutCacheService } from './layout-cache.service';
+import { ILayoutInput } from '../models/graph.interface';
+import { hashValue } from '../utils/hash';
+
+describe('ElkLayoutService', () => {
+  let service: ElkLayoutService;
+  let cache: jasmine.SpyObj<LayoutCacheService>;
+  let runs: { graph: ElkNode; answer: () => void }[];
+  let workers: jasmine.SpyObj<ElkApi>[];
+
+  const input = (x: number): ILayoutInput => ({
+    groups: [],
+    nodes: [
+      {
+        id: 'a',
+        size: { width: 100, height: 50 },
+        parentId: null,
+        position: { x, y: 0 },
+      },
+    ],
+    edges: [],
+    enableGroups: false,
+  });
+
+  // Lets pending promises, e.g. cache lookups, settle
+  const flush = () => new Promise(resolve => setTimeout(resolve));
+
+  beforeEach(() => {
+    runs = [];
+    workers = [];
+    cache = jasmine.createSpyObj<LayoutCacheService>('LayoutCacheService', [
+      'get',
+      'set',
+    ]);
+    cache.get.and.resolveTo(undefined);
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: LayoutCacheService, useValue: cache }],
+    });
+    service = TestBed.inject(ElkLayoutService);
+
+    // Workers answer when the spec says so, each worker places the node at x = 10
+    spyOn<any>(service, 'getElk').and.callFake(() => {
+      if (!service['elk']) {
+        const worker = jasmine.createSpyObj<ElkApi>('ELK', [
+          'layout',
+          'terminateWorker',
+        ]);
+        worker.layout.and.callFake(
+          (graph: ElkNode) =>
+            new Promise<any>(resolve =>
+              runs.push({
+                graph,
+                answer: () =>
+                  resolve({
+                    ...graph,
+                    children: graph.children?.map(child => ({
+                      ...child,
+                      x: 10,
+                      y: 0,
+                    })),
+                  }),
+              })
+            )
+        );
+        workers.push(worker);
+        service['elk'] = worker;
+      }
+
+      return service['elk'];
+    });
+  });
+
+  it('should lay the graph out and cache the result', async () => {
+    const layout = service.calculateLayout(input(0));
+    await flush();
+    runs[0].answer();
+
+    const output = await layout;
+
+    expect(output.nodes[0].position).toEqual({ x: 10, y: 0 });
+    expect(cache.set).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a cached result without running ELK', async () => {
+    const layout = service.calculateLayout(input(0));
+    await flush();
+    runs[0].answer();
+    await layout;
+    cache.get.and.resolveTo(cache.set.calls.mostRecent().args[1]);
+
+    const output = await service.calculateLayout(input(0));
+
+    expect(output.nodes[0].position).toEqual({ x: 10, y: 0 });
+    expect(runs.length).toBe(1);
+  });
+
+  it('should reject a run superseded during the cache lookup', async () => {
+    const first = service.calculateLayout(input(0));
+    const second = service.calculateLayout(input(1));
+
+    await expectAsync(first).toBeRejectedWithError(LayoutCancelledError);
+    await flush();
+
+    // Only the latest run reaches ELK
+    expect(runs.length).toBe(1);
+    runs[0].answer();
+    await expectAsync(second).toBeResolved();
+  });
+
+  it('should reject a run superseded during the layout and stop its worker', async () => {
+    const first = service.calculateLayout(input(0));
+    await flush();
+    const cancelled =
+      expectAsync(first).toBeRejectedWithError(LayoutCancelledError);
+    const second = service.calculateLayout(input(1));
+    await flush();
+
+    await cancelled;
+    expect(workers.length).toBe(2);
+    expect(workers[0].terminateWorker).toHaveBeenCalled();
+    expect(workers[1].terminateWorker).not.toHaveBeenCalled();
+
+    runs[1].answer();
+    await expectAsync(second).toBeResolved();
+  });
+
+  it('should never cache the result of a cancelled run', async () => {
+    const first = service.calculateLayout(input(0));
+    await flush();
+    const cancelled =
+      expectAsync(first).toBeRejectedWithError(LayoutCancelledError);
+    const second = service.calculateLayout(input(1));
+    await flush();
+
+    // The stopped worker answers anyway, after the newer run finished
+    runs[1].answer();
+    await second;
+    runs[0].answer();
+    await cancelled;
+    await flush();
+
+    expect(cache.set).toHaveBeenCalledOnceWith(
+      hashValue(runs[1].graph),
+      jasmine.anything()
+    );
+  });
+
+  it('should reject the run in progress when cancelled', async () => {
+    const layout = service.calculateLayout(input(0));
+    await flush();
+    const cancelled =
+      expectAsync(layout).toBeRejectedWithError(LayoutCancelledError);
+    service.cancel();
+
+    await cancelled;
+    expect(workers[0].terminateWorker).toHaveBeenCalled();
+    runs[0].answer();
+    await flush();
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+});
@@ -1,516 +1,152 @@
-import { Injectable } from '@angular/core';
-import { PointExtensions } from '@foblex/2d';
-import ELK from 'elkjs/lib/elk.bundled.js';
+import { inject, Injectable, OnDestroy } from '@angular/core';
+import ELK, { ELK as ElkApi, ElkNode } from 'elkjs/lib/elk-api.js';
+import { ElkLayoutEngine, IElkLayout } from '../engine/elk-layout.engine';
 import {
-  IEdge,
   IElkLayoutOptions,
-  IGroup,
   ILayoutInput,
   ILayoutOutput,
-  INode,
 } from '../models/graph.interface';
+import { hashValue } from '../utils/hash';
+import { LayoutCacheService } from './layout-cache.service';
 
-type GroupOrNode = 'group' | 'node';
-
-export interface IElkLayout {
-  id: string;
-  layoutOptions: any;
-  children: (IElkLayoutNode | IElkLayoutGroup)[];
-  edges: IElkLayoutEdge[];
-}
-
-export interface IElkLayoutGroup {
-  id: string;
-  height: number; // elk.js calculated height
-  width: number; // elk.js calculated width
-  x: number; // elk.js calculated x position
-  y: number; // elk.js calculated y position
-  original: IGroup;
-  layoutOptions: any;
-  children: IElkLayoutNode[];
-  edges: IElkLayoutEdge[];
-  type: GroupOrNode;
-}
-
-export interface IElkLayoutNode {
-  id: string;
-  width: number;
-  height: number;
-  x: number; // elk.js calculated x position
-  y: number; // elk.js calculated y position
-  original: INode;
-  type: GroupOrNode;
-}
-
-export interface IElkLayoutEdge {
-  id: string;
-  sources: string[];
-  targets: string[];
-  original: IEdge;
+/**
+ * Raised when a layout run is superseded by a newer one or cancelled explicitly
+ */
+export class LayoutCancelledError extends Error {
+  constructor() {
+    super('Layout calculation was cancelled');
+    this.name = 'LayoutCancelledError';
+  }
 }
 
 /**
  * Service responsible for graph layout using ELK.js
  * Follows Single Responsibility Principle - handles only layout calculations
+ * Graphs are translated by ElkLayoutEngine, this service runs them in the browser:
+ * layouts run in a dedicated Web Worker, only the latest run ever resolves
+ * Results are cached by a hash of the ELK graph, which holds the input and the
+ * resolved options, so repeated configurations don't run ELK again
  */
 @Injectable({
   providedIn: 'root',
 })
-export class ElkLayoutService {
-  private elk = new ELK();
-  private defaultOptions: IElkLayoutOptions = {
-    algorithm: 'layered',
-    direction: 'RIGHT',
-    spacing: {
-      nodeNode: 80,
-      nodeNodeBetweenLayers: 80,
-      componentComponent: 100,
-      edgeNode: 40,
-      edgeEdge: 20,
-    },
-    groupPadding: {
-      top: 50,
-      right: 50,
-      bottom: 50,
-      left: 50,
-    },
-    edgeRouting: 'ORTHOGONAL',
-    nodePlacement: 'NETWORK_SIMPLEX',
-  };
+export class ElkLayoutService implements OnDestroy {
+  private readonly layoutCache = inject(LayoutCacheService);
+  private readonly engine = new ElkLayoutEngine();
+  private elk: ElkApi | null = null;
+  private cancelActiveRun: (() => void) | null = null;
 
   /**
    * Performs layout calculation on the provided graph data
+   * A run still in progress is cancelled and rejects with LayoutCancelledError
    * @param input - Graph data with nodes, edges, and groups
    * @param options - Optional layout configuration (merged with defaults)
    * @returns Promise with calculated positions
+   * @throws GraphValidationError when the graph has errors, warnings are ignored
    */
   public async calculateLayout(
     input: ILayoutInput,
     options?: Partial<IElkLayoutOptions>
   ): Promise<ILayoutOutput> {
-    const layoutOptions = { ...this.defaultOptions, ...options };
-    const graph = this.buildElkGraph(input, layoutOptions);
+    this.cancel();
+    this.engine.validate(input);
+
+    const layoutOptions = this.engine.resolveOptions(options);
+    const graph = this.engine.buildElkGraph(input, layoutOptions);
 
     try {
-      const result = await this.elk.layout(graph);
-      const output = this.extractLayoutResults(result);
+      const result = await this.runLayout(graph);
+      const output = this.engine.extractLayoutResults(result, layoutOptions);
 
-      return output;
+      return this.engine.applyPinnedPositions(input, output, layoutOptions);
     } catch (error) {
-      console.error('ELK layout error:', error);
+      if (!(error instanceof LayoutCancelledError)) {
+        console.error('ELK layout error:', error);
+      }
 
       throw error;
     }
   }
 
   /**
-   * Builds the ELK.js graph structure from input data
-   * @private
+   * Cancels the layout run in progress, if any
+   * The worker is terminated since ELK can't interrupt a running layout
    */
-  private buildElkGraph(
-    input: ILayoutInput,
-    options: IElkLayoutOptions
-  ): IElkLayout {
-    const { groups, nodes, edges, enableGroups } = input;
-
-    // For layered algorithm with groups, use INCLUDE_CHILDREN for proper cross-hierarchical edges
-    if (enableGroups && options.algorithm === 'layered') {
-      // Build groups with hierarchy handling
-      const elkGroups: IElkLayoutGroup[] = groups.map(group => {
-        const groupChildren: IElkLayoutNode[] = nodes
-          .filter(node => node.parentId === group.id)
-          .map(node => ({
-            id: node.id,
-            width: node.size.width,
-            height: node.size.height,
-            x: 0, // elk.js calculated x position
-            y: 0, // elk.js calculated y position
-            original: node,
-            type: 'node',
-          }));
-
-        return {
-          id: group.id,
-          height: 0, // elk.js calculated height
-          width: 0, // elk.js calculated width
-          x: 0, // elk.js calculated x position
-          y: 0, // elk.js calculated y position
-          // Set INCLUDE_CHILDREN on groups to include them in single layout run
-          layoutOptions: {
-            'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
-            'elk.padding': '[top=60,left=60,bottom=60,right=60]',
-          },
-          children: groupChildren,
-          edges: [], // Edges will be at root level
-          original: group,
-          type: 'group',
-        };
-      });
-
-      // Root nodes
-      const rootNodes: IElkLayoutNode[] = nodes
-        .filter(node => !node.parentId)
-        .map(node => ({
-          id: node.id,
-          width: node.size.width,
-          height: node.size.height,
-          x: 0, // elk.js calculated x position
-          y: 0, // elk.js calculated y position
-          original: node,
-          type: 'node',
-        }));
-
-      // ALL edges at root level for cross-hierarchical support
-      const allEdges: IElkLayoutEdge[] = edges.map(edge => ({
-        id: edge.id,
-        sources: [edge.source],
-        targets: [edge.target],
-        original: edge,
-      }));
-
-      return {
-        id: 'root',
-        layoutOptions: {
-          ...this.buildRootLayoutOptions(options),
-          // Critical: Set INCLUDE_CHILDREN on root to layout entire hierarchy in one run
-          'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
-        },
-        children: [...elkGroups, ...rootNodes],
-        edges: allEdges,
-      };
+  public cancel(): void {
+    if (!this.cancelActiveRun) {
+      return;
     }
 
-    // Original logic for other algorithms
-    const elkGroups = enableGroups
-      ? this.buildGroupHierarchy(groups, nodes, edges, options)
-      : [];
-
-    const rootNodes: IElkLayoutNode[] = nodes
-      .filter(node => !node.parentId)
-      .map(node => ({
-        id: node.id,
-        width: node.size.width,
-        height: node.size.height,
-        x: 0, // elk.js calculated x position
-        y: 0, // elk.js calculated y position
-        original: node,
-        type: 'node',
-      }));
-
-    const rootEdges: IElkLayoutEdge[] = enableGroups
-      ? this.buildRootLevelEdges(nodes, edges)
-      : edges.map(edge => ({
-          id: edge.id,
-          sources: [edge.source],
-          targets: [edge.target],
-          original: edge,
-        }));
-
-    return {
-      id: 'root',
-      layoutOptions: this.buildRootLayoutOptions(options),
-      children: [...elkGroups, ...rootNodes],
-      edges: rootEdges,
-    };
+    this.cancelActiveRun();
+    this.cancelActiveRun = null;
+    this.elk?.terminateWorker();
+    this.elk = null;
   }
 
   /**
-   * Builds the group hierarchy with nested children
-   * @private
+   * Stops the worker when an instance provided by a component is destroyed
    */
-  private buildGroupHierarchy(
-    groups: IGroup[],
-    nodes: INode[],
-    edges: IEdge[],
-    options: IElkLayoutOptions
-  ): IElkLayoutGroup[] {
-    return groups.map(group => {
-      const children: IElkLayoutNode[] = nodes
-        .filter(node => node.parentId === group.id)
-        .map(node => ({
-          id: node.id,
-          width: node.size.width,
-          height: node.size.height,
-          x: 0, // elk.js calculated x position
-          y: 0, // elk.js calculated y position
-          original: node,
-          type: 'node',
-        }));
-
-      const groupEdges: IElkLayoutEdge[] = edges
-        .filter(edge => {
-          const sourceNode = nodes.find(n => n.id === edge.source);
-          const targetNode = nodes.find(n => n.id === edge.target);
-
-          return (
-            sourceNode?.parentId === group.id &&
-            targetNode?.parentId === group.id
-          );
-        })
-        .map(edge => ({
-          id: edge.id,
-          sources: [edge.source],
-          targets: [edge.target],
-          original: edge,
-        }));
-
-      return {
-        id: group.id,
-        height: 0, // elk.js calculated height
-        width: 0, // elk.js calculated width
-        x: 0, // elk.js calculated x position
-        y: 0, // elk.js calculated y position
-        layoutOptions: this.buildGroupLayoutOptions(options),
-        children,
-        edges: groupEdges,
-        original: group,
-        type: 'group',
-      };
-    });
+  public ngOnDestroy(): void {
+    this.cancel();
+    this.elk?.terminateWorker();
+    this.elk = null;
   }
 
   /**
-   * Builds edges that connect nodes at different levels or groups
+   * Runs ELK on the graph, rejecting with LayoutCancelledError when cancelled
+   * A cached result is used when the same graph was laid out before
    * @private
    */
-  private buildRootLevelEdges(
-    nodes: INode[],
-    edges: IEdge[]
-  ): IElkLayoutEdge[] {
-    return edges
-      .filter(edge => {
-        const sourceNode = nodes.find(n => n.id === edge.source);
-        const targetNode = nodes.find(n => n.id === edge.target);
-
-        // Include edge if nodes are in different groups or at root level
-        return (
-          sourceNode?.parentId !== targetNode?.parentId ||
-          (!sourceNode?.parentId && !targetNode?.parentId)
-        );
-      })
-      .map(edge => ({
-        id: edge.id,
-        sources: [edge.source],
-        targets: [edge.target],
-        original: edge,
-      }));
-  }
-
-  /**
-   * Builds root-level layout options
-   * @private
-   */
-  private buildRootLayoutOptions(options: IElkLayoutOptions): any {
-    const baseOptions: any = {
-      'elk.algorithm': options.algorithm,
-      'elk.spacing.nodeNode': `${options.spacing?.nodeNode}`,
-      'elk.spacing.componentComponent': `${options.spacing?.componentComponent}`,
-      'elk.separateConnectedComponents': 'true',
-      'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
-    };
-
-    // Add algorithm-specific options
-    if (options.algorithm === 'layered') {
-      return {
-        ...baseOptions,
-        'elk.direction': options.direction,
-        'elk.layered.spacing.nodeNodeBetweenLayers': `${options.spacing?.nodeNodeBetweenLayers}`,
-        'elk.spacing.edgeNode': `${options.spacing?.edgeNode}`,
-        'elk.spacing.edgeEdge': `${options.spacing?.edgeEdge}`,
-        'elk.layered.nodePlacement.strategy': options.nodePlacement,
-        'elk.layered.crossingMinimization.strategy': 'LAYER_SWEEP',
-        'elk.layered.cycleBreaking.strategy': 'GREEDY',
-        'elk.layered.layering.strategy': 'NETWORK_SIMPLEX',
-        'elk.layered.thoroughness': '10',
-        'elk.edgeRouting': options.edgeRouting,
-        'elk.layered.edgeRouting.selfLoopPlacement': 'NORTH_STACKED',
-        'elk.portConstraints': 'FIXED_SIDE',
-        'elk.considerModelOrder.strategy': 'NODES_AND_EDGES',
-        'elk.interactiveLayout': 'true',
-      };
-    } else if (options.algorithm === 'mrtree') {
-      // Tree-specific options
-      return {
-        ...baseOptions,
-        'elk.direction': options.direction,
-        'elk.spacing.nodeNode': '60',
-        'elk.spacing.edgeNode': '30',
-        'elk.mrtree.searchOrder': 'DFS',
-        'elk.mrtree.orderingStrategy': 'PREORDER',
-        'elk.edgeRouting': 'ORTHOGONAL',
-      };
-    } else if (options.algorithm === 'force') {
-      // Force-directed options
-      return {
-        ...baseOptions,
-        'elk.force.model': 'FRUCHTERMAN_REINGOLD',
-        'elk.force.iterations': '500',
-        'elk.force.repulsivePower': '0',
-        'elk.force.temperature': '0.001',
-        'elk.force.repulsion': '2.0',
-        'elk.spacing.nodeNode': '150',
-        'elk.interactive': 'true',
-        'elk.randomizationSeed': '1',
-      };
-    } else if (options.algorithm === 'stress') {
-      // Stress minimization options
-      return {
-        ...baseOptions,
-        'elk.stress.desiredEdgeLength': '100',
-        'elk.stress.iterationLimit': '300',
+  private runLayout(graph: IElkLayout): Promise<ElkNode> {
+    const key = hashValue(graph);
+
+    return new Promise<ElkNode>((resolve, reject) => {
+      const cancel = () => reject(new LayoutCancelledError());
+      const settle = () => {
+        if (this.cancelActiveRun === cancel) {
+          this.cancelActiveRun = null;
+        }
       };
-    }
 
-    return baseOptions;
-  }
+      this.cancelActiveRun = cancel;
+      this.layoutCache
+        .get(key)
+        .then(async cached => {
+          // Superseded while looking up, the run was rejected already
+          if (cached || this.cancelActiveRun !== cancel) {
+            return cached;
+          }
 
-  /**
-   * Builds group-level layout options
-   * @private
-   */
-  private buildGroupLayoutOptions(options: IElkLayoutOptions): any {
-    const padding = options.groupPadding;
-    const baseGroupOptions: any = {
-      'elk.algorithm': options.algorithm,
-      'elk.padding': `[top=${padding?.top},left=${padding?.left},bottom=${padding?.bottom},right=${padding?.right}]`,
-      'elk.spacing.nodeNode': '50',
-      'elk.spacing.componentComponent': '70',
-      'elk.nodeSize.constraints': 'NODE_LABELS MINIMUM_SIZE',
-      'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
-    };
+          const result = await this.getElk().layout(
+            graph as unknown as ElkNode
+          );
 
-    // Add algorithm-specific options for groups
-    if (options.algorithm === 'layered') {
-      return {
-        ...baseGroupOptions,
-        'elk.direction': options.direction,
-        'elk.layered.spacing.nodeNodeBetweenLayers': '50',
-        'elk.layered.nodePlacement.strategy': options.nodePlacement,
-        'elk.layered.crossingMinimization.strategy': 'LAYER_SWEEP',
-        'elk.layered.cycleBreaking.strategy': 'GREEDY',
-        'elk.layered.layering.strategy': 'NETWORK_SIMPLEX',
-        'elk.edgeRouting': options.edgeRouting,
-        'elk.layered.edgeRouting.selfLoopPlacement': 'NORTH_STACKED',
-        'elk.portConstraints': 'FIXED_SIDE',
-        'elk.considerModelOrder.strategy': 'NODES_AND_EDGES',
-      };
-    } else if (options.algorithm === 'mrtree') {
-      return {
-        ...baseGroupOptions,
-        'elk.direction': options.direction,
-        'elk.spacing.nodeNode': '40',
-        'elk.mrtree.searchOrder': 'DFS',
-        'elk.mrtree.orderingStrategy': 'PREORDER',
-        'elk.edgeRouting': 'ORTHOGONAL',
-      };
-    } else if (options.algorithm === 'force') {
-      return {
-        ...baseGroupOptions,
-        'elk.force.model': 'FRUCHTERMAN_REINGOLD',
-        'elk.force.iterations': '300',
-        'elk.force.repulsion': '1.5',
-        'elk.spacing.nodeNode': '80',
-      };
-    } else if (options.algorithm === 'stress') {
-      return {
-        ...baseGroupOptions,
-        'elk.stress.desiredEdgeLength': '60',
-        'elk.stress.iterationLimit': '200',
-      };
-    }
+          // A cancelled run may still answer, its result is dropped
+          if (this.cancelActiveRun === cancel) {
+            this.layoutCache.set(key, result);
+          }
 
-    return baseGroupOptions;
+          return result;
+        })
+        .then(resolve as (result?: ElkNode) => void, reject)
+        .finally(settle);
+    });
   }
 
   /**
-   * Extracts layout results from ELK output
-   * Converts ELK's nested structure to flat arrays with absolute positions
+   * Returns the ELK instance, creating its worker on first use
    * @private
    */
-  private extractLayoutResults(result: any): ILayoutOutput {
-    const groups: IGroup[] = [];
-    const nodes: INode[] = [];
-    const edges: IEdge[] = [];
-
-    // Helper function to recursively extract nodes from groups
-    const extractNodesFromGroup = (
-      group: any,
-      parentOffset = { x: 0, y: 0 }
-    ) => {
-      const groupX = parentOffset.x + (group.x || 0);
-      const groupY = parentOffset.y + (group.y || 0);
-
-      if (group.children) {
-        group.children.forEach((child: any) => {
-          // Check if child is a node (not a nested group)
-          if (!child.children || child.type === 'node') {
-            const absoluteX = groupX + (child.x || 0);
-            const absoluteY = groupY + (child.y || 0);
-
-            nodes.push({
-              ...child.original,
-              position: PointExtensions.initialize(absoluteX, absoluteY),
-              parentId: group.id,
-            });
-          }
-        });
-      }
-    };
-
-    // Process all children from result
-    if (result?.children) {
-      result.children.forEach((child: any) => {
-        // Check if it's a group (has children or explicitly marked as group)
-        if (child.children || child.type === 'group') {
-          // It's a group
-          groups.push({
-            ...child.original,
-            size: {
-              width: child.width,
-              height: child.height,
-            },
-            position: PointExtensions.initialize(child.x || 0, child.y || 0),
-          });
-
-          // Extract nodes from this group
-          extractNodesFromGroup(child);
-        } else {
-          // It's a root-level node
-          nodes.push({
-            ...child.original,
-            position: PointExtensions.initialize(child.x || 0, child.y || 0),
-          });
-        }
-      });
-    }
-
-    // Extract all edges from root level (they should all be at root with INCLUDE_CHILDREN)
-    (result?.edges || []).forEach((edge: any) => {
-      edges.push({
-        ...edge.original,
-        source: edge.sources[0],
-        target: edge.targets[0],
-      });
-    });
-
-    // Also check for edges in groups (in case some are nested despite INCLUDE_CHILDREN)
-    if (result?.children) {
-      result.children.forEach((child: any) => {
-        if ((child.children || child.type === 'group') && child.edges) {
-          child.edges.forEach((edge: any) => {
-            // Check if this edge isn't already added
-            if (!edges.find(e => e.id === edge.id)) {
-              edges.push({
-                ...edge.original,
-                source: edge.sources[0],
-                target: edge.targets[0],
-              });
-            }
-          });
-        }
+  private getElk(): ElkApi {
+    if (!this.elk) {
+      this.elk = new ELK({
+        workerFactory: () =>
+          new Worker(new URL('./elk-layout.worker', import.meta.url), {
+            type: 'module',
+          }),
       });
     }
 
-    return { groups, nodes, edges };
+    return this.elk;
   }
 }
@@ -0,0 +1,8 @@
+/// <reference lib="webworker" />
+
+/**
+ * Dedicated worker running ELK layouts off the main thread
+ * Loading the ELK worker script registers its message handler on the worker scope,
+ * ElkLayoutService talks to it through the promise-based elk-api.
+ */
+import 'elkjs/lib/elk-worker.min.js';
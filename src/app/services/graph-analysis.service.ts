@@ -0,0 +1,10 @@
+import { Injectable } from '@angular/core';
+import { GraphAnalyzer } from '../engine/graph-analyzer';
+
+/**
+ * Graph analysis for the app, see GraphAnalyzer
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GraphAnalysisService extends GraphAnalyzer {}
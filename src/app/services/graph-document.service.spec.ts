@@ -0,0 +1,199 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  GraphDocumentError,
+  GraphDocumentService,
+} from './graph-document.service';
+import { DEFAULT_LAYOUT_CONFIG } from '../models/layout-config.interface';
+import {
+  GRAPH_DOCUMENT_VERSION,
+  MIN_GRAPH_DOCUMENT_VERSION,
+} from '../models/graph-document.interface';
+import { IEdge, IGroup, INode } from '../models/graph.interface';
+
+describe('GraphDocumentService', () => {
+  let service: GraphDocumentService;
+
+  const groups: IGroup[] = [
+    {
+      id: 'g1',
+      label: 'Group',
+      size: { width: 300, height: 200 },
+      position: { x: 0, y: 0 },
+      parentId: null,
+      collapsed: false,
+      layoutOverrides: { algorithm: 'mrtree', nodeSpacing: 40 },
+    },
+  ];
+  const nodes: INode[] = [
+    {
+      id: 'a',
+      label: 'A',
+      size: { width: 120, height: 60 },
+      position: { x: 20, y: 40 },
+      parentId: 'g1',
+      pinned: true,
+      outputs: [
+        { id: 'a-out', side: 'SOUTH', order: 0, position: { x: 56, y: 56 } },
+      ],
+    },
+    {
+      id: 'b',
+      size: { width: 120, height: 60 },
+      parentId: null,
+      labelLayout: {
+        position: { x: 10, y: 10 },
+        size: { width: 9, height: 18 },
+      },
+    },
+  ];
+  const edges: IEdge[] = [
+    {
+      id: 'e1',
+      source: 'a',
+      target: 'b',
+      sourceHandle: 'a-out',
+      targetHandle: 'b',
+      label: 'flows',
+      kind: 'control',
+      weight: 2,
+      priority: 5,
+      route: {
+        curved: false,
+        points: [
+          { x: 0, y: 0 },
+          { x: 10, y: 10 },
+        ],
+      },
+    },
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(GraphDocumentService);
+  });
+
+  it('should round trip an exported document', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      {
+        ...DEFAULT_LAYOUT_CONFIG,
+        elkOptions: { layered: { 'elk.spacing.edgeEdge': 20 } },
+      }
+    );
+    const imported = service.parse(service.stringify(document));
+
+    expect(service.stringify(imported)).toBe(service.stringify(document));
+    expect(imported.version).toBe(GRAPH_DOCUMENT_VERSION);
+    expect(imported.groups[0].layoutOverrides).toEqual({
+      algorithm: 'mrtree',
+      nodeSpacing: 40,
+    });
+    expect(imported.edges[0]).toEqual(
+      jasmine.objectContaining({ kind: 'control', weight: 2, priority: 5 })
+    );
+  });
+
+  it('should leave layout results out of exported documents', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      DEFAULT_LAYOUT_CONFIG
+    );
+
+    expect(document.nodes[0].outputs).toEqual([
+      { id: 'a-out', side: 'SOUTH', order: 0 },
+    ]);
+    expect(document.nodes[1].labelLayout).toBeUndefined();
+    expect(document.edges[0].route).toBeUndefined();
+    expect(document.nodes[0].position).toEqual({ x: 20, y: 40 });
+  });
+
+  it('should accept a valid document', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      DEFAULT_LAYOUT_CONFIG
+    );
+
+    expect(service.validate(document)).toEqual([]);
+  });
+
+  it('should accept documents of the previous version', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      DEFAULT_LAYOUT_CONFIG
+    );
+
+    expect(
+      service.validate({ ...document, version: MIN_GRAPH_DOCUMENT_VERSION })
+    ).toEqual([]);
+  });
+
+  it('should reject other versions', () => {
+    expect(service.validate({ version: 99 })).toEqual([
+      `Unsupported document version 99, expected ${MIN_GRAPH_DOCUMENT_VERSION} to ${GRAPH_DOCUMENT_VERSION}`,
+    ]);
+  });
+
+  it('should list structural errors', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      DEFAULT_LAYOUT_CONFIG
+    );
+    const errors = service.validate({
+      ...document,
+      config: { ...document.config, algorithm: 'nope', nodeSpacing: -1 },
+      nodes: [{ ...document.nodes[0], size: { width: 'wide', height: 60 } }],
+      edges: [{ ...document.edges[0], kind: 'other' }],
+    });
+
+    expect(errors).toContain(
+      jasmine.stringMatching(/^config\.algorithm must be one of/)
+    );
+    expect(errors).toContain(jasmine.stringMatching(/^config\.nodeSpacing/));
+    expect(errors).toContain(
+      jasmine.stringMatching(/^nodes\[0\]\.size\.width/)
+    );
+    expect(errors).toContain(jasmine.stringMatching(/^edges\[0\]\.kind/));
+  });
+
+  it('should list broken references', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      DEFAULT_LAYOUT_CONFIG
+    );
+    const errors = service.validate({
+      ...document,
+      nodes: [
+        { ...document.nodes[0], parentId: 'missing' },
+        { ...document.nodes[1], id: 'g1' },
+      ],
+    });
+
+    expect(errors).toEqual([
+      'nodes[1].id "g1" is used more than once',
+      'nodes[0].parentId "missing" doesn\'t match any group',
+      'edges[0].target "b" doesn\'t match any node',
+    ]);
+  });
+
+  it('should reject elkOptions outside the option registry', () => {
+    const document = service.create(
+      { groups, nodes, edges },
+      { ...DEFAULT_LAYOUT_CONFIG, elkOptions: { layered: { 'elk.bogus': 1 } } }
+    );
+
+    expect(service.validate(document)).toEqual([
+      'config.elkOptions.layered["elk.bogus"] is not an option of layered',
+    ]);
+  });
+
+  it('should throw every problem found when parsing', () => {
+    expect(() => service.parse('{')).toThrowError(
+      GraphDocumentError,
+      /File is not valid JSON/
+    );
+    expect(() => service.parse('[]')).toThrowError(
+      GraphDocumentError,
+      /Document must be a JSON object/
+    );
+  });
+});
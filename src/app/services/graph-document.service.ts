@@ -0,0 +1,595 @@
+import { Injectable } from '@angular/core';
+import { LayoutConfig } from '../models/layout-config.interface';
+import {
+  GRAPH_DOCUMENT_VERSION,
+  MIN_GRAPH_DOCUMENT_VERSION,
+  IGraphDocument,
+} from '../models/graph-document.interface';
+import {
+  EdgeKind,
+  IEdge,
+  IGroup,
+  INode,
+  IPort,
+  PortSide,
+} from '../models/graph.interface';
+import { ElkAlgorithm } from '../models/elk-option.interface';
+import {
+  getElkOptionDefinitions,
+  validateElkOptionValue,
+} from '../registry/elk-option.registry';
+
+// Allowed values of the enumerated LayoutConfig fields
+const ALGORITHMS: LayoutConfig['algorithm'][] = [
+  'layered',
+  'force',
+  'stress',
+  'mrtree',
+  'radial',
+  'rectpacking',
+  'box',
+  'sporeOverlap',
+  'sporeCompaction',
+];
+const DIRECTIONS: LayoutConfig['direction'][] = ['RIGHT', 'DOWN', 'LEFT', 'UP'];
+const EDGE_ROUTINGS: LayoutConfig['edgeRouting'][] = [
+  'ORTHOGONAL',
+  'POLYLINE',
+  'SPLINES',
+];
+const NODE_PLACEMENTS: LayoutConfig['nodePlacement'][] = [
+  'NETWORK_SIMPLEX',
+  'BRANDES_KOEPF',
+  'LINEAR_SEGMENTS',
+];
+const PORT_SIDES: PortSide[] = ['NORTH', 'EAST', 'SOUTH', 'WEST'];
+const EDGE_KINDS: EdgeKind[] = ['data', 'control', 'dependency'];
+
+/**
+ * Raised when a graph document can't be read, lists every problem found
+ */
+export class GraphDocumentError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid graph document:\n${errors.join('\n')}`);
+    this.name = 'GraphDocumentError';
+  }
+}
+
+/**
+ * Serializes diagrams to versioned JSON documents and reads them back
+ * Documents are validated structurally and referentially before they are used
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GraphDocumentService {
+  /**
+   * Creates a document from a diagram and its layout configuration
+   * Layout results (edge routes, port and label positions) are left out
+   * @param graph - Groups, nodes and edges to store, positions included
+   * @param config - Layout configuration the diagram is drawn with
+   */
+  public create(
+    graph: Pick<IGraphDocument, 'groups' | 'nodes' | 'edges'>,
+    config: LayoutConfig
+  ): IGraphDocument {
+    const stripPorts = (ports: IPort[] | undefined) =>
+      ports?.map(({ position, ...port }) => port);
+
+    return {
+      version: GRAPH_DOCUMENT_VERSION,
+      config: { ...config },
+      groups: graph.groups.map(({ labelLayout, ...group }) => group),
+      nodes: graph.nodes.map(({ labelLayout, ...node }) => ({
+        ...node,
+        inputs: stripPorts(node.inputs),
+        outputs: stripPorts(node.outputs),
+      })),
+      edges: graph.edges.map(({ route, labelLayout, ...edge }) => edge),
+    };
+  }
+
+  /**
+   * Converts a document to formatted JSON text
+   */
+  public stringify(document: IGraphDocument): string {
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Parses and validates JSON text
+   * @throws GraphDocumentError when the text isn't a valid graph document
+   */
+  public parse(text: string): IGraphDocument {
+    let data: unknown;
+
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new GraphDocumentError([
+        `File is not valid JSON: ${(error as Error).message}`,
+      ]);
+    }
+
+    const errors = this.validate(data);
+    if (errors.length) {
+      throw new GraphDocumentError(errors);
+    }
+
+    return data as IGraphDocument;
+  }
+
+  /**
+   * Checks a parsed value against the document schema
+   * @returns Readable error messages, empty when the document is valid
+   */
+  public validate(data: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!this.isObject(data)) {
+      return ['Document must be a JSON object'];
+    }
+
+    const version = data['version'];
+
+    if (
+      typeof version !== 'number' ||
+      !Number.isInteger(version) ||
+      version < MIN_GRAPH_DOCUMENT_VERSION ||
+      version > GRAPH_DOCUMENT_VERSION
+    ) {
+      return [
+        `Unsupported document version ${JSON.stringify(version)}, expected ${MIN_GRAPH_DOCUMENT_VERSION} to ${GRAPH_DOCUMENT_VERSION}`,
+      ];
+    }
+
+    this.validateConfig(data['config'], errors);
+
+    const groups = this.expectArray(data, 'groups', errors);
+    const nodes = this.expectArray(data, 'nodes', errors);
+    const edges = this.expectArray(data, 'edges', errors);
+
+    groups.forEach((group, i) =>
+      this.validateGroup(group, `groups[${i}]`, errors)
+    );
+    nodes.forEach((node, i) => this.validateNode(node, `nodes[${i}]`, errors));
+    edges.forEach((edge, i) => this.validateEdge(edge, `edges[${i}]`, errors));
+
+    // References are only checked on a structurally valid document
+    if (!errors.length) {
+      this.validateReferences(
+        groups as IGroup[],
+        nodes as INode[],
+        edges as IEdge[],
+        errors
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Checks a layout configuration on its own, e.g. one read from a link
+   * @returns Readable error messages, empty when the configuration is valid
+   */
+  public validateLayoutConfig(config: unknown): string[] {
+    const errors: string[] = [];
+    this.validateConfig(config, errors);
+    return errors;
+  }
+
+  /**
+   * Validates the layout configuration
+   * @private
+   */
+  private validateConfig(config: unknown, errors: string[]): void {
+    if (!this.isObject(config)) {
+      errors.push('config must be an object');
+      return;
+    }
+
+    this.expectBoolean(config, 'enableGroups', 'config', errors);
+    this.expectOneOf(config, 'algorithm', ALGORITHMS, 'config', errors);
+    this.expectOneOf(config, 'direction', DIRECTIONS, 'config', errors);
+    this.expectOneOf(config, 'edgeRouting', EDGE_ROUTINGS, 'config', errors);
+    this.expectOneOf(
+      config,
+      'nodePlacement',
+      NODE_PLACEMENTS,
+      'config',
+      errors
+    );
+    this.expectNumber(config, 'nodeSpacing', 'config', errors, 0);
+    this.expectNumber(config, 'layerSpacing', 'config', errors, 0);
+    this.expectNumber(config, 'groupPadding', 'config', errors, 0);
+
+    if (config['elkOptions'] !== undefined) {
+      this.validateElkOptions(config['elkOptions'], errors);
+    }
+  }
+
+  /**
+   * Validates changed ELK options against the option registry
+   * @private
+   */
+  private validateElkOptions(elkOptions: unknown, errors: string[]): void {
+    if (!this.isObject(elkOptions)) {
+      errors.push('config.elkOptions must be an object');
+      return;
+    }
+
+    Object.entries(elkOptions).forEach(([algorithm, values]) => {
+      const path = `config.elkOptions.${algorithm}`;
+
+      if (!ALGORITHMS.includes(algorithm as ElkAlgorithm)) {
+        errors.push(`${path} is not a layout algorithm`);
+        return;
+      }
+
+      if (!this.isObject(values)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      const definitions = getElkOptionDefinitions(algorithm as ElkAlgorithm);
+      Object.entries(values).forEach(([id, value]) => {
+        const definition = definitions.find(option => option.id === id);
+        const problem = definition
+          ? validateElkOptionValue(definition, value)
+          : `is not an option of ${algorithm}`;
+
+        if (problem) {
+          errors.push(`${path}["${id}"] ${problem}`);
+        }
+      });
+    });
+  }
+
+  /**
+   * Validates the fields shared by groups and nodes
+   * @private
+   */
+  private validateElement(
+    element: Record<string, unknown>,
+    path: string,
+    errors: string[]
+  ): void {
+    this.expectString(element, 'id', path, errors);
+    this.validateSize(element['size'], `${path}.size`, errors);
+
+    if (element['position'] !== undefined) {
+      this.validatePoint(element['position'], `${path}.position`, errors);
+    }
+
+    if (element['parentId'] !== undefined && element['parentId'] !== null) {
+      this.expectString(element, 'parentId', path, errors);
+    }
+
+    if (element['pinned'] !== undefined) {
+      this.expectBoolean(element, 'pinned', path, errors);
+    }
+
+    this.expectOptionalLabel(element, path, errors);
+  }
+
+  /**
+   * Validates a group
+   * @private
+   */
+  private validateGroup(group: unknown, path: string, errors: string[]): void {
+    if (!this.isObject(group)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    this.validateElement(group, path, errors);
+
+    if (group['collapsed'] !== undefined) {
+      this.expectBoolean(group, 'collapsed', path, errors);
+    }
+
+    if (group['layoutOverrides'] !== undefined) {
+      this.validateLayoutOverrides(
+        group['layoutOverrides'],
+        `${path}.layoutOverrides`,
+        errors
+      );
+    }
+  }
+
+  /**
+   * Validates the layout overrides of a group, every field is optional
+   * @private
+   */
+  private validateLayoutOverrides(
+    overrides: unknown,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isObject(overrides)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (overrides['algorithm'] !== undefined) {
+      this.expectOneOf(overrides, 'algorithm', ALGORITHMS, path, errors);
+    }
+
+    if (overrides['direction'] !== undefined) {
+      this.expectOneOf(overrides, 'direction', DIRECTIONS, path, errors);
+    }
+
+    (['nodeSpacing', 'layerSpacing'] as const).forEach(key => {
+      if (overrides[key] !== undefined) {
+        this.expectNumber(overrides, key, path, errors, 0);
+      }
+    });
+  }
+
+  /**
+   * Validates a node and its ports
+   * @private
+   */
+  private validateNode(node: unknown, path: string, errors: string[]): void {
+    if (!this.isObject(node)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    this.validateElement(node, path, errors);
+
+    if (node['parentId'] === undefined) {
+      errors.push(`${path}.parentId is required, use null for root level`);
+    }
+
+    (['inputs', 'outputs'] as const).forEach(key => {
+      if (node[key] === undefined) {
+        return;
+      }
+
+      this.expectArray(node, key, errors, path).forEach((port, i) =>
+        this.validatePort(port, `${path}.${key}[${i}]`, errors)
+      );
+    });
+  }
+
+  /**
+   * Validates a port
+   * @private
+   */
+  private validatePort(port: unknown, path: string, errors: string[]): void {
+    if (!this.isObject(port)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    this.expectString(port, 'id', path, errors);
+    this.expectOneOf(port, 'side', PORT_SIDES, path, errors);
+    this.expectNumber(port, 'order', path, errors, 0);
+
+    if (port['name'] !== undefined) {
+      this.expectString(port, 'name', path, errors);
+    }
+  }
+
+  /**
+   * Validates an edge
+   * @private
+   */
+  private validateEdge(edge: unknown, path: string, errors: string[]): void {
+    if (!this.isObject(edge)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    (
+      ['id', 'source', 'target', 'sourceHandle', 'targetHandle'] as const
+    ).forEach(key => this.expectString(edge, key, path, errors));
+
+    if (edge['kind'] !== undefined) {
+      this.expectOneOf(edge, 'kind', EDGE_KINDS, path, errors);
+    }
+
+    (['weight', 'priority'] as const).forEach(key => {
+      if (edge[key] !== undefined) {
+        this.expectNumber(edge, key, path, errors, 0);
+      }
+    });
+  }
+
+  /**
+   * Checks ids are unique and every reference points to an existing element
+   * @private
+   */
+  private validateReferences(
+    groups: IGroup[],
+    nodes: INode[],
+    edges: IEdge[],
+    errors: string[]
+  ): void {
+    const seen = new Set<string>();
+    const checkUnique = (id: string, path: string) => {
+      if (seen.has(id)) {
+        errors.push(`${path}.id "${id}" is used more than once`);
+      }
+      seen.add(id);
+    };
+
+    groups.forEach((group, i) => checkUnique(group.id, `groups[${i}]`));
+    nodes.forEach((node, i) => {
+      checkUnique(node.id, `nodes[${i}]`);
+      [...(node.inputs || []), ...(node.outputs || [])].forEach(port =>
+        checkUnique(port.id, `nodes[${i}] port`)
+      );
+    });
+    edges.forEach((edge, i) => checkUnique(edge.id, `edges[${i}]`));
+
+    const groupsById = new Map(groups.map(group => [group.id, group]));
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+    groups.forEach((group, i) => {
+      if (group.parentId && !groupsById.has(group.parentId)) {
+        errors.push(
+          `groups[${i}].parentId "${group.parentId}" doesn't match any group`
+        );
+      }
+    });
+
+    // Walks each parent chain, a chain longer than the group count loops
+    groups.forEach((group, i) => {
+      let parentId = group.parentId;
+      for (let depth = 0; parentId; depth++) {
+        if (depth >= groups.length) {
+          errors.push(`groups[${i}] is part of a parent cycle`);
+          break;
+        }
+        parentId = groupsById.get(parentId)?.parentId;
+      }
+    });
+
+    nodes.forEach((node, i) => {
+      if (node.parentId && !groupsById.has(node.parentId)) {
+        errors.push(
+          `nodes[${i}].parentId "${node.parentId}" doesn't match any group`
+        );
+      }
+    });
+
+    edges.forEach((edge, i) => {
+      const checkEndpoint = (
+        nodeKey: 'source' | 'target',
+        handleKey: 'sourceHandle' | 'targetHandle',
+        portsKey: 'outputs' | 'inputs'
+      ) => {
+        const node = nodesById.get(edge[nodeKey]);
+
+        if (!node) {
+          errors.push(
+            `edges[${i}].${nodeKey} "${edge[nodeKey]}" doesn't match any node`
+          );
+          return;
+        }
+
+        // Nodes without ports are connected through their own id
+        const handles = node[portsKey]?.map(port => port.id) ?? [node.id];
+        if (!handles.includes(edge[handleKey])) {
+          errors.push(
+            `edges[${i}].${handleKey} "${edge[handleKey]}" isn't one of the ${portsKey} of node "${node.id}"`
+          );
+        }
+      };
+
+      checkEndpoint('source', 'sourceHandle', 'outputs');
+      checkEndpoint('target', 'targetHandle', 'inputs');
+    });
+  }
+
+  /**
+   * Validates a width/height pair
+   * @private
+   */
+  private validateSize(size: unknown, path: string, errors: string[]): void {
+    if (!this.isObject(size)) {
+      errors.push(`${path} must be an object with width and height`);
+      return;
+    }
+
+    this.expectNumber(size, 'width', path, errors, 0);
+    this.expectNumber(size, 'height', path, errors, 0);
+  }
+
+  /**
+   * Validates an x/y pair
+   * @private
+   */
+  private validatePoint(point: unknown, path: string, errors: string[]): void {
+    if (!this.isObject(point)) {
+      errors.push(`${path} must be an object with x and y`);
+      return;
+    }
+
+    this.expectNumber(point, 'x', path, errors);
+    this.expectNumber(point, 'y', path, errors);
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private expectArray(
+    owner: Record<string, unknown>,
+    key: string,
+    errors: string[],
+    path?: string
+  ): unknown[] {
+    const value = owner[key];
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    errors.push(`${path ? `${path}.` : ''}${key} must be an array`);
+    return [];
+  }
+
+  private expectString(
+    owner: Record<string, unknown>,
+    key: string,
+    path: string,
+    errors: string[]
+  ): void {
+    const value = owner[key];
+    if (typeof value !== 'string' || !value) {
+      errors.push(`${path}.${key} must be a non-empty string`);
+    }
+  }
+
+  private expectOptionalLabel(
+    owner: Record<string, unknown>,
+    path: string,
+    errors: string[]
+  ): void {
+    if (owner['label'] !== undefined && typeof owner['label'] !== 'string') {
+      errors.push(`${path}.label must be a string`);
+    }
+  }
+
+  private expectBoolean(
+    owner: Record<string, unknown>,
+    key: string,
+    path: string,
+    errors: string[]
+  ): void {
+    if (typeof owner[key] !== 'boolean') {
+      errors.push(`${path}.${key} must be true or false`);
+    }
+  }
+
+  private expectNumber(
+    owner: Record<string, unknown>,
+    key: string,
+    path: string,
+    errors: string[],
+    min = -Infinity
+  ): void {
+    const value = owner[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path}.${key} must be a number`);
+    } else if (value < min) {
+      errors.push(`${path}.${key} must be at least ${min}`);
+    }
+  }
+
+  private expectOneOf(
+    owner: Record<string, unknown>,
+    key: string,
+    allowed: readonly string[],
+    path: string,
+    errors: string[]
+  ): void {
+    if (!allowed.includes(owner[key] as string)) {
+      errors.push(
+        `${path}.${key} must be one of ${allowed.join(', ')}, got ${JSON.stringify(owner[key])}`
+      );
+    }
+  }
+}
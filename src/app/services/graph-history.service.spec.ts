@@ -0,0 +1,143 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  GRAPH_HISTORY_LIMIT,
+  GraphHistoryService,
+  IGraphSnapshot,
+} from './graph-history.service';
+import { DEFAULT_LAYOUT_CONFIG } from '../models/layout-config.interface';
+
+describe('GraphHistoryService', () => {
+  let service: GraphHistoryService;
+
+  const snapshot = (nodeSpacing: number): IGraphSnapshot => ({
+    config: { ...DEFAULT_LAYOUT_CONFIG, nodeSpacing },
+    groups: [],
+    nodes: [],
+    edges: [],
+  });
+
+  // Ticks of a slider dragged in steps of 10, recorded the way AppComponent
+  // records them: open while dragging, closed when the slider is released
+  const drag = (from: number, to: number): void => {
+    for (let value = from + 10; value <= to; value += 10) {
+      service.record({
+        label: 'Layout settings',
+        before: snapshot(value - 10),
+        after: snapshot(value),
+        open: true,
+      });
+    }
+
+    service.record({
+      label: 'Layout settings',
+      before: snapshot(to),
+      after: snapshot(to),
+    });
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(GraphHistoryService);
+  });
+
+  it('should undo and redo recorded changes', () => {
+    service.record({
+      label: 'Add node',
+      before: snapshot(1),
+      after: snapshot(2),
+    });
+
+    expect(service.undoLabel()).toBe('Add node');
+    expect(service.undo()).toEqual(snapshot(1));
+    expect(service.canUndo()).toBeFalse();
+    expect(service.redoLabel()).toBe('Add node');
+    expect(service.redo()).toEqual(snapshot(2));
+    expect(service.canRedo()).toBeFalse();
+  });
+
+  it('should return null when there is nothing to undo or redo', () => {
+    expect(service.undo()).toBeNull();
+    expect(service.redo()).toBeNull();
+  });
+
+  it('should discard undone changes when a new one is recorded', () => {
+    service.record({
+      label: 'Add node',
+      before: snapshot(1),
+      after: snapshot(2),
+    });
+    service.undo();
+    service.record({ label: 'Move', before: snapshot(1), after: snapshot(3) });
+
+    expect(service.canRedo()).toBeFalse();
+  });
+
+  it('should keep only the latest changes', () => {
+    for (let i = 0; i < GRAPH_HISTORY_LIMIT + 5; i++) {
+      service.record({
+        label: `${i}`,
+        before: snapshot(i),
+        after: snapshot(i + 1),
+      });
+    }
+
+    let undone = 0;
+
+    while (service.undo()) {
+      undone++;
+    }
+
+    expect(undone).toBe(GRAPH_HISTORY_LIMIT);
+  });
+
+  it('should undo a slider drag in one step', () => {
+    service.record({
+      label: 'Add node',
+      before: snapshot(0),
+      after: snapshot(80),
+    });
+    drag(80, 120);
+
+    expect(service.undo()).toEqual(snapshot(80));
+    expect(service.undoLabel()).toBe('Add node');
+    expect(service.redo()).toEqual(snapshot(120));
+  });
+
+  it('should keep earlier changes when a drag has more ticks than the limit', () => {
+    service.record({
+      label: 'Add node',
+      before: snapshot(0),
+      after: snapshot(80),
+    });
+    drag(80, 80 + GRAPH_HISTORY_LIMIT * 20);
+
+    expect(service.undo()).toEqual(snapshot(80));
+    expect(service.undo()).toEqual(snapshot(0));
+  });
+
+  it('should record separate drags as separate steps', () => {
+    drag(80, 100);
+    drag(100, 120);
+
+    expect(service.undo()).toEqual(snapshot(100));
+    expect(service.undo()).toEqual(snapshot(80));
+    expect(service.canUndo()).toBeFalse();
+  });
+
+  it('should not merge open changes with other labels', () => {
+    service.record({
+      label: 'Layout settings',
+      before: snapshot(80),
+      after: snapshot(90),
+      open: true,
+    });
+    service.record({
+      label: 'Move',
+      before: snapshot(90),
+      after: snapshot(91),
+    });
+
+    expect(service.undo()).toEqual(snapshot(90));
+    expect(service.undo()).toEqual(snapshot(80));
+  });
+});
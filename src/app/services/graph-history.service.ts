@@ -0,0 +1,105 @@
+import { computed, Injectable, signal } from '@angular/core';
+import { LayoutConfig } from '../models/layout-config.interface';
+import { IEdge, IGroup, INode } from '../models/graph.interface';
+
+/**
+ * Maximum number of changes kept for undo, older ones are dropped
+ */
+export const GRAPH_HISTORY_LIMIT = 50;
+
+/**
+ * Editable state of the diagram, layout results are recalculated from it
+ */
+export interface IGraphSnapshot {
+  config: LayoutConfig;
+  groups: IGroup[];
+  nodes: INode[];
+  edges: IEdge[];
+}
+
+/**
+ * A recorded change, undone by restoring `before` and redone by restoring `after`
+ */
+export interface IGraphHistoryEntry {
+  label: string; // shown in the undo/redo button tooltips
+  before: IGraphSnapshot;
+  after: IGraphSnapshot;
+  open?: boolean; // still in progress, e.g. a slider being dragged
+}
+
+/**
+ * Undo/redo history of graph edits and layout configuration changes
+ * Snapshots share unchanged arrays and objects, signal updates never mutate them
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GraphHistoryService {
+  private readonly undoStack = signal<IGraphHistoryEntry[]>([]);
+  private readonly redoStack = signal<IGraphHistoryEntry[]>([]);
+
+  public readonly canUndo = computed(() => this.undoStack().length > 0);
+  public readonly canRedo = computed(() => this.redoStack().length > 0);
+  public readonly undoLabel = computed(() => this.undoStack().at(-1)?.label);
+  public readonly redoLabel = computed(() => this.redoStack().at(-1)?.label);
+
+  /**
+   * Records a change, a new change discards everything that could be redone
+   * A change with the same label as an open entry is merged into it, so a
+   * slider drag is undone in one step from where it started.
+   */
+  public record(entry: IGraphHistoryEntry): void {
+    this.undoStack.update(stack => {
+      const last = stack.at(-1);
+
+      if (last?.open && last.label === entry.label) {
+        return [...stack.slice(0, -1), { ...entry, before: last.before }];
+      }
+
+      return [...stack, entry].slice(-GRAPH_HISTORY_LIMIT);
+    });
+    this.redoStack.set([]);
+  }
+
+  /**
+   * Steps back one change
+   * @returns State to restore, or null when there is nothing to undo
+   */
+  public undo(): IGraphSnapshot | null {
+    const entry = this.undoStack().at(-1);
+
+    if (!entry) {
+      return null;
+    }
+
+    this.undoStack.update(stack => stack.slice(0, -1));
+    this.redoStack.update(stack => [...stack, entry]);
+
+    return entry.before;
+  }
+
+  /**
+   * Steps forward one undone change
+   * @returns State to restore, or null when there is nothing to redo
+   */
+  public redo(): IGraphSnapshot | null {
+    const entry = this.redoStack().at(-1);
+
+    if (!entry) {
+      return null;
+    }
+
+    this.redoStack.update(stack => stack.slice(0, -1));
+    this.undoStack.update(stack => [...stack, entry]);
+
+    return entry.after;
+  }
+
+  /**
+   * Forgets all recorded changes
+   */
+  public clear(): void {
+    this.undoStack.set([]);
+    this.redoStack.set([]);
+  }
+}
@@ -0,0 +1,181 @@
+import { Location } from '@angular/common';
+import { provideLocationMocks } from '@angular/common/testing';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import {
+  GRAPH_STORAGE_KEY,
+  GraphPersistenceService,
+} from './graph-persistence.service';
+import { GraphDocumentService } from './graph-document.service';
+import {
+  DEFAULT_LAYOUT_CONFIG,
+  LayoutConfig,
+} from '../models/layout-config.interface';
+import { IGraphSnapshot } from './graph-history.service';
+
+describe('GraphPersistenceService', () => {
+  let service: GraphPersistenceService;
+  let location: Location;
+
+  const scope = globalThis as { localStorage?: Storage };
+  const storage = scope.localStorage;
+
+  // Storage for environments without one
+  const createStorage = (): Storage => {
+    const items = new Map<string, string>();
+
+    return {
+      get length() {
+        return items.size;
+      },
+      clear: () => items.clear(),
+      getItem: key => items.get(key) ?? null,
+      key: index => [...items.keys()][index] ?? null,
+      removeItem: key => items.delete(key),
+      setItem: (key, value) => items.set(key, value),
+    };
+  };
+
+  const config: LayoutConfig = {
+    ...DEFAULT_LAYOUT_CONFIG,
+    algorithm: 'mrtree',
+    direction: 'RIGHT',
+    nodeSpacing: 40,
+    elkOptions: { layered: { 'elk.layered.thoroughness': 20 } },
+  };
+  const snapshot: IGraphSnapshot = {
+    config,
+    groups: [],
+    nodes: [
+      {
+        id: 'a',
+        label: 'A',
+        size: { width: 120, height: 60 },
+        position: { x: 10, y: 20 },
+        parentId: null,
+        pinned: true,
+      },
+    ],
+    edges: [],
+  };
+
+  // Lets the router finish navigating
+  const flush = () => new Promise(resolve => setTimeout(resolve));
+
+  beforeEach(() => {
+    scope.localStorage ??= createStorage();
+    localStorage.removeItem(GRAPH_STORAGE_KEY);
+
+    TestBed.configureTestingModule({
+      providers: [provideRouter([]), provideLocationMocks()],
+    });
+    service = TestBed.inject(GraphPersistenceService);
+    location = TestBed.inject(Location);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(GRAPH_STORAGE_KEY);
+
+    if (!storage) {
+      delete scope.localStorage;
+    }
+  });
+
+  describe('URL', () => {
+    it('should read back the settings it wrote', async () => {
+      service.writeConfigToUrl(config);
+      await flush();
+
+      expect(service.readConfigFromUrl(DEFAULT_LAYOUT_CONFIG)).toEqual(config);
+    });
+
+    it('should leave ELK options out of the URL when none changed', async () => {
+      service.writeConfigToUrl({ ...config, elkOptions: { layered: {} } });
+      await flush();
+
+      expect(location.path()).toContain('algorithm=mrtree');
+      expect(location.path()).not.toContain('elkOptions');
+    });
+
+    it('should keep the groups setting out of the URL', () => {
+      location.go('/?enableGroups=false');
+
+      expect(service.readConfigFromUrl(DEFAULT_LAYOUT_CONFIG)).toEqual(
+        DEFAULT_LAYOUT_CONFIG
+      );
+    });
+
+    it('should ignore invalid values and keep the valid ones', () => {
+      location.go('/?algorithm=unknown&nodeSpacing=abc&direction=UP');
+
+      expect(service.readConfigFromUrl(DEFAULT_LAYOUT_CONFIG)).toEqual({
+        ...DEFAULT_LAYOUT_CONFIG,
+        direction: 'UP',
+      });
+    });
+
+    it('should ignore ELK options that are not valid JSON or not valid options', () => {
+      location.go('/?elkOptions=%7Bbroken');
+      expect(service.readConfigFromUrl(DEFAULT_LAYOUT_CONFIG)).toEqual(
+        DEFAULT_LAYOUT_CONFIG
+      );
+
+      location.go(
+        `/?elkOptions=${encodeURIComponent(
+          JSON.stringify({ layered: { 'elk.layered.thoroughness': 'lots' } })
+        )}`
+      );
+      expect(service.readConfigFromUrl(DEFAULT_LAYOUT_CONFIG)).toEqual(
+        DEFAULT_LAYOUT_CONFIG
+      );
+    });
+  });
+
+  describe('autosave', () => {
+    beforeEach(() => {
+      spyOn(console, 'warn');
+    });
+
+    it('should load the graph it saved', () => {
+      service.saveGraph(snapshot);
+
+      const document = service.loadGraph();
+
+      expect(document?.nodes).toEqual(snapshot.nodes);
+      expect(document?.config).toEqual(config);
+    });
+
+    it('should return null when nothing was saved', () => {
+      expect(service.loadGraph()).toBeNull();
+    });
+
+    it('should discard a saved graph that is not valid JSON', () => {
+      localStorage.setItem(GRAPH_STORAGE_KEY, '{"version": 2, "nodes": [');
+
+      expect(service.loadGraph()).toBeNull();
+      expect(localStorage.getItem(GRAPH_STORAGE_KEY)).toBeNull();
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('should discard a saved graph that is no longer a valid document', () => {
+      const document = TestBed.inject(GraphDocumentService).create(
+        snapshot,
+        config
+      );
+      localStorage.setItem(
+        GRAPH_STORAGE_KEY,
+        JSON.stringify({ ...document, version: 99 })
+      );
+
+      expect(service.loadGraph()).toBeNull();
+      expect(localStorage.getItem(GRAPH_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should forget the saved graph when cleared', () => {
+      service.saveGraph(snapshot);
+      service.clearGraph();
+
+      expect(service.loadGraph()).toBeNull();
+    });
+  });
+});
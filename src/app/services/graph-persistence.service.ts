@@ -0,0 +1,177 @@
+import { Location } from '@angular/common';
+import { inject, Injectable } from '@angular/core';
+import { Params, Router } from '@angular/router';
+import { LayoutConfig } from '../models/layout-config.interface';
+import { IGraphDocument } from '../models/graph-document.interface';
+import {
+  GraphDocumentError,
+  GraphDocumentService,
+} from './graph-document.service';
+import { IGraphSnapshot } from './graph-history.service';
+
+/**
+ * localStorage key of the autosaved graph document
+ */
+export const GRAPH_STORAGE_KEY = 'foblex-flow-elkjs-example.graph';
+
+// Settings shared through links. Groups are left out: turning them on or off
+// generates a different graph, which a link doesn't carry
+const URL_CONFIG_KEYS = [
+  'algorithm',
+  'direction',
+  'edgeRouting',
+  'nodePlacement',
+  'nodeSpacing',
+  'layerSpacing',
+  'groupPadding',
+] as const satisfies readonly (keyof LayoutConfig)[];
+
+// Options changed in the option registry, as JSON
+const ELK_OPTIONS_PARAM = 'elkOptions';
+
+const NUMERIC_CONFIG_KEYS: readonly (keyof LayoutConfig)[] = [
+  'nodeSpacing',
+  'layerSpacing',
+  'groupPadding',
+];
+
+/**
+ * Keeps the layout configuration in the page URL and the graph in localStorage,
+ * so links reproduce a layout and reloads continue where the user left off
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GraphPersistenceService {
+  private readonly router = inject(Router);
+  private readonly location = inject(Location);
+  private readonly graphDocumentService = inject(GraphDocumentService);
+
+  /**
+   * Applies the layout settings found in the URL query parameters
+   * Unknown parameters and invalid values are ignored
+   * @param config - Configuration the URL settings are applied to
+   */
+  public readConfigFromUrl(config: LayoutConfig): LayoutConfig {
+    const params = this.router.parseUrl(this.location.path()).queryParamMap;
+    const settings = URL_CONFIG_KEYS.filter(key => params.has(key)).reduce(
+      (result, key) => {
+        const value = params.get(key)!;
+        const candidate = {
+          ...result,
+          [key]: NUMERIC_CONFIG_KEYS.includes(key) ? Number(value) : value,
+        };
+
+        return this.graphDocumentService.validateLayoutConfig(candidate).length
+          ? result
+          : candidate;
+      },
+      config
+    );
+
+    return params.has(ELK_OPTIONS_PARAM)
+      ? this.readElkOptions(settings, params.get(ELK_OPTIONS_PARAM)!)
+      : settings;
+  }
+
+  /**
+   * Replaces the URL query parameters with the layout settings, without a history entry
+   */
+  public writeConfigToUrl(config: LayoutConfig): void {
+    const queryParams: Params = Object.fromEntries(
+      URL_CONFIG_KEYS.map(key => [key, `${config[key]}`])
+    );
+    const hasElkOptions = Object.values(config.elkOptions ?? {}).some(
+      values => values && Object.keys(values).length
+    );
+
+    if (hasElkOptions) {
+      queryParams[ELK_OPTIONS_PARAM] = JSON.stringify(config.elkOptions);
+    }
+
+    this.router.navigate([], { queryParams, replaceUrl: true });
+  }
+
+  /**
+   * Reads the autosaved graph
+   * @returns The saved document, or null when there is none or it is no longer valid
+   */
+  public loadGraph(): IGraphDocument | null {
+    const text = this.readStorage();
+
+    if (!text) {
+      return null;
+    }
+
+    try {
+      return this.graphDocumentService.parse(text);
+    } catch (error) {
+      if (!(error instanceof GraphDocumentError)) {
+        throw error;
+      }
+
+      console.warn('Discarding the saved graph:', error.errors);
+      this.clearGraph();
+      return null;
+    }
+  }
+
+  /**
+   * Saves the graph with its pinned positions and layout configuration
+   */
+  public saveGraph(snapshot: IGraphSnapshot): void {
+    const document = this.graphDocumentService.create(
+      snapshot,
+      snapshot.config
+    );
+
+    try {
+      localStorage.setItem(
+        GRAPH_STORAGE_KEY,
+        this.graphDocumentService.stringify(document)
+      );
+    } catch (error) {
+      // Storage is full or disabled, the graph just isn't kept
+      console.warn('Graph could not be saved:', error);
+    }
+  }
+
+  /**
+   * Forgets the autosaved graph
+   */
+  public clearGraph(): void {
+    try {
+      localStorage.removeItem(GRAPH_STORAGE_KEY);
+    } catch {
+      // Storage is disabled, nothing was saved
+    }
+  }
+
+  /**
+   * Applies changed ELK options given as JSON, invalid ones are ignored
+   * @private
+   */
+  private readElkOptions(config: LayoutConfig, json: string): LayoutConfig {
+    try {
+      const candidate = { ...config, elkOptions: JSON.parse(json) };
+
+      return this.graphDocumentService.validateLayoutConfig(candidate).length
+        ? config
+        : candidate;
+    } catch {
+      return config;
+    }
+  }
+
+  /**
+   * @returns The saved text, or null when storage is empty or unavailable
+   * @private
+   */
+  private readStorage(): string | null {
+    try {
+      return localStorage.getItem(GRAPH_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Injectable } from '@angular/core';
+import { GraphValidator } from '../engine/graph-validator';
+
+/**
+ * Graph checks and repairs for the app, see GraphValidator
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GraphValidationService extends GraphValidator {}
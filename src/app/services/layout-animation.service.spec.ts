@@ -0,0 +1,176 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  ILayoutAnimationOptions,
+  LayoutAnimationService,
+} from './layout-animation.service';
+import { ILayoutOutput } from '../models/graph.interface';
+
+describe('LayoutAnimationService', () => {
+  let service: LayoutAnimationService;
+  let frames: Map<number, FrameRequestCallback>;
+  let reducedMotion: boolean;
+  let applied: ILayoutOutput[];
+  let completed: ILayoutOutput[];
+
+  const scope = globalThis as Record<string, unknown>;
+  const original = {
+    requestAnimationFrame: scope['requestAnimationFrame'],
+    cancelAnimationFrame: scope['cancelAnimationFrame'],
+    matchMedia: scope['matchMedia'],
+  };
+  const options: ILayoutAnimationOptions = {
+    duration: 100,
+    easing: 'linear',
+  };
+  const apply = (frame: ILayoutOutput) => applied.push(frame);
+
+  const layout = (x: number, width = 100): ILayoutOutput => ({
+    groups: [],
+    nodes: [
+      {
+        id: 'a',
+        size: { width, height: 50 },
+        position: { x, y: 0 },
+        parentId: null,
+      },
+    ],
+    edges: [
+      {
+        id: 'e',
+        source: 'a',
+        target: 'a',
+        sourceHandle: 'a',
+        targetHandle: 'a',
+        labelLayout: {
+          position: { x: 0, y: 0 },
+          size: { width: 10, height: 10 },
+        },
+      },
+    ],
+  });
+
+  // Runs the callbacks requested so far as one animation frame at the given time
+  const tick = (now: number) => {
+    const callbacks = [...frames.values()];
+    frames.clear();
+    callbacks.forEach(callback => callback(now));
+  };
+
+  beforeEach(() => {
+    frames = new Map();
+    reducedMotion = false;
+    applied = [];
+    completed = [];
+    let nextId = 0;
+
+    scope['requestAnimationFrame'] = (callback: FrameRequestCallback) => {
+      frames.set(++nextId, callback);
+      return nextId;
+    };
+    scope['cancelAnimationFrame'] = (id: number) => frames.delete(id);
+    scope['matchMedia'] = () => ({ matches: reducedMotion });
+
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LayoutAnimationService);
+    service.completed.subscribe(to => completed.push(to));
+  });
+
+  afterEach(() => {
+    Object.assign(scope, original);
+  });
+
+  it('should interpolate positions and sizes and hide edge labels', () => {
+    service.animate(layout(0), layout(100, 200), options, apply);
+    tick(1000);
+    tick(1050);
+
+    expect(applied.length).toBe(2);
+    expect(applied[1].nodes[0].position).toEqual({ x: 50, y: 0 });
+    expect(applied[1].nodes[0].size).toEqual({ width: 150, height: 50 });
+    expect(applied[1].edges[0].labelLayout).toBeUndefined();
+  });
+
+  it('should end on the final layout and announce it after it was rendered', () => {
+    const to = layout(100);
+    service.animate(layout(0), to, options, apply);
+    tick(1000);
+    tick(1100);
+
+    expect(applied[applied.length - 1]).toBe(to);
+    expect(completed).toEqual([]);
+
+    tick(1120);
+
+    expect(completed).toEqual([to]);
+    expect(frames.size).toBe(0);
+  });
+
+  it('should show new elements at their final position', () => {
+    const from: ILayoutOutput = { groups: [], nodes: [], edges: [] };
+    service.animate(from, layout(100), options, apply);
+    tick(1000);
+    tick(1050);
+
+    expect(applied[1].nodes[0].position).toEqual({ x: 100, y: 0 });
+  });
+
+  it('should apply the layout at once without a duration', () => {
+    const to = layout(100);
+    service.animate(layout(0), to, { ...options, duration: 0 }, apply);
+
+    expect(applied).toEqual([to]);
+  });
+
+  it('should apply the layout at once when the user prefers reduced motion', () => {
+    reducedMotion = true;
+    const to = layout(100);
+    service.animate(layout(0), to, options, apply);
+
+    expect(applied).toEqual([to]);
+    tick(1000);
+    expect(completed).toEqual([to]);
+  });
+
+  it('should stop where it is when cancelled and never announce', () => {
+    service.animate(layout(0), layout(100), options, apply);
+    tick(1000);
+    service.cancel();
+    tick(1200);
+
+    expect(applied.length).toBe(1);
+    expect(completed).toEqual([]);
+  });
+
+  it('should jump to the final layout when finished', () => {
+    const to = layout(100);
+    service.animate(layout(0), to, options, apply);
+    tick(1000);
+    service.finish();
+
+    expect(applied[applied.length - 1]).toBe(to);
+    tick(1020);
+    expect(completed).toEqual([to]);
+  });
+
+  it('should do nothing when finished without a transition', () => {
+    service.finish();
+    tick(1000);
+
+    expect(applied).toEqual([]);
+    expect(completed).toEqual([]);
+  });
+
+  it('should cancel a running transition when a new one starts', () => {
+    const first = layout(100);
+    const second = layout(300);
+    service.animate(layout(0), first, options, apply);
+    tick(1000);
+    service.animate(first, second, options, apply);
+    tick(1100);
+    tick(1200);
+    tick(1220);
+
+    expect(applied.some(frame => frame === first)).toBeFalse();
+    expect(completed).toEqual([second]);
+  });
+});
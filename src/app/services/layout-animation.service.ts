@@ -0,0 +1,187 @@
+import { Injectable } from '@angular/core';
+import { ISize, PointExtensions } from '@foblex/2d';
+import { Subject } from 'rxjs';
+import { IGroup, ILayoutOutput, INode } from '../models/graph.interface';
+
+/**
+ * Easing curves available for layout transitions
+ */
+export type LayoutEasing = 'linear' | 'ease-in-out' | 'ease-out';
+
+/**
+ * How a new layout replaces the one on screen
+ */
+export interface ILayoutAnimationOptions {
+  duration: number; // ms, 0 applies the new layout at once
+  easing: LayoutEasing;
+}
+
+export const DEFAULT_LAYOUT_ANIMATION: ILayoutAnimationOptions = {
+  duration: 500,
+  easing: 'ease-in-out',
+};
+
+// Maps linear progress (0..1) to eased progress
+const EASING_FUNCTIONS: Record<LayoutEasing, (t: number) => number> = {
+  linear: t => t,
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  'ease-out': t => 1 - (1 - t) ** 3,
+};
+
+interface IActiveTransition {
+  to: ILayoutOutput;
+  apply: (frame: ILayoutOutput) => void;
+  frameId: number;
+}
+
+/**
+ * Animates groups and nodes from one layout result to the next
+ * Positions and sizes are interpolated frame by frame, connections follow the
+ * nodes on their own since Foblex redraws them whenever a node moves
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LayoutAnimationService {
+  private active: IActiveTransition | null = null;
+
+  /**
+   * Emits the final layout once it is on screen, cancelled transitions never emit
+   */
+  public readonly completed = new Subject<ILayoutOutput>();
+
+  /**
+   * Starts a transition, a transition still running is cancelled
+   * Elements new to the layout appear at their final position, edge labels
+   * are hidden until the routes they belong to are drawn again
+   * @param from - Layout currently on screen
+   * @param to - Layout to end with
+   * @param options - Duration and easing
+   * @param apply - Shows a frame, called once per animation frame
+   */
+  public animate(
+    from: ILayoutOutput,
+    to: ILayoutOutput,
+    options: ILayoutAnimationOptions,
+    apply: (frame: ILayoutOutput) => void
+  ): void {
+    this.cancel();
+
+    if (options.duration <= 0 || this.prefersReducedMotion()) {
+      this.complete(to, apply);
+      return;
+    }
+
+    const previous = new Map<string, IGroup | INode>(
+      [...from.groups, ...from.nodes].map(element => [element.id, element])
+    );
+    const ease = EASING_FUNCTIONS[options.easing];
+    let start: number | null = null;
+
+    const step = (now: number) => {
+      start ??= now;
+      const progress = Math.min(1, (now - start) / options.duration);
+
+      if (progress >= 1) {
+        this.active = null;
+        this.complete(to, apply);
+        return;
+      }
+
+      apply(this.interpolate(previous, to, ease(progress)));
+      this.active!.frameId = requestAnimationFrame(step);
+    };
+
+    this.active = { to, apply, frameId: requestAnimationFrame(step) };
+  }
+
+  /**
+   * Jumps to the end of the running transition, e.g. before the user edits the layout
+   */
+  public finish(): void {
+    const active = this.active;
+
+    if (active) {
+      this.cancel();
+      this.complete(active.to, active.apply);
+    }
+  }
+
+  /**
+   * Stops the running transition where it is
+   */
+  public cancel(): void {
+    if (this.active) {
+      cancelAnimationFrame(this.active.frameId);
+      this.active = null;
+    }
+  }
+
+  /**
+   * Shows the final layout and announces it once it has been rendered
+   * @private
+   */
+  private complete(
+    to: ILayoutOutput,
+    apply: (frame: ILayoutOutput) => void
+  ): void {
+    apply(to);
+    requestAnimationFrame(() => this.completed.next(to));
+  }
+
+  /**
+   * Builds the frame at eased progress t between the previous and the next layout
+   * @private
+   */
+  private interpolate(
+    previous: Map<string, IGroup | INode>,
+    to: ILayoutOutput,
+    t: number
+  ): ILayoutOutput {
+    const tween = <T extends IGroup | INode>(element: T): T => {
+      const from = previous.get(element.id);
+
+      if (!from?.position || !element.position) {
+        return element;
+      }
+
+      return {
+        ...element,
+        position: PointExtensions.interpolatePoints(
+          from.position,
+          element.position,
+          t
+        ),
+        size: this.interpolateSize(from.size, element.size, t),
+      };
+    };
+
+    return {
+      groups: to.groups.map(tween),
+      nodes: to.nodes.map(tween),
+      edges: to.edges.map(({ labelLayout, ...edge }) => edge),
+    };
+  }
+
+  /**
+   * Interpolates width and height linearly
+   * @private
+   */
+  private interpolateSize(from: ISize, to: ISize, t: number): ISize {
+    return {
+      width: from.width + (to.width - from.width) * t,
+      height: from.height + (to.height - from.height) * t,
+    };
+  }
+
+  /**
+   * Honours the operating system setting to reduce motion
+   * @private
+   */
+  private prefersReducedMotion(): boolean {
+    return (
+      typeof matchMedia !== 'undefined' &&
+      matchMedia('(prefers-reduced-motion: reduce)').matches
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import { Injectable, signal } from '@angular/core';
+import { ElkNode } from 'elkjs/lib/elk-api.js';
+
+/**
+ * Maximum number of layouts kept, the least recently used ones are dropped
+ */
+export const LAYOUT_CACHE_SIZE = 50;
+
+/**
+ * localStorage key of the setting to keep cached layouts in IndexedDB
+ */
+export const LAYOUT_CACHE_STORAGE_KEY =
+  'foblex-flow-elkjs-example.layout-cache';
+
+// IndexedDB database of persisted layouts, the version is raised
+// whenever stored results can no longer be used
+const DATABASE_NAME = 'foblex-flow-elkjs-example.layouts';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'layouts';
+const USED_AT_INDEX = 'usedAt';
+
+export interface ILayoutCacheStats {
+  hits: number;
+  misses: number;
+  entries: number; // layouts kept in memory
+  persistent: boolean; // layouts are kept in IndexedDB as well
+}
+
+interface IStoredLayout {
+  key: string;
+  result: ElkNode;
+  usedAt: number; // time of the last use, oldest entries are dropped first
+}
+
+/**
+ * Least recently used cache of ELK results, keyed by a hash of the ELK graph
+ * Kept in memory and, when enabled, in IndexedDB so layouts survive reloads.
+ * Shared by all layout services, so the comparison panes reuse results too.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LayoutCacheService {
+  // Map iteration follows insertion order, used entries are moved to the end
+  private readonly entries = new Map<string, ElkNode>();
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  public readonly stats = signal<ILayoutCacheStats>({
+    hits: 0,
+    misses: 0,
+    entries: 0,
+    persistent: this.readPersistent(),
+  });
+
+  /**
+   * Looks a layout up in memory, then in IndexedDB when persistent
+   * @returns The cached ELK result, or undefined on a miss
+   */
+  public async get(key: string): Promise<ElkNode | undefined> {
+    let result = this.entries.get(key);
+
+    if (!result && this.stats().persistent) {
+      result = await this.readStored(key);
+    }
+
+    if (result) {
+      this.remember(key, result);
+    }
+
+    this.stats.update(stats => ({
+      ...stats,
+      hits: stats.hits + (result ? 1 : 0),
+      misses: stats.misses + (result ? 0 : 1),
+      entries: this.entries.size,
+    }));
+
+    return result;
+  }
+
+  /**
+   * Keeps a layout result, dropping the least recently used one when full
+   */
+  public set(key: string, result: ElkNode): void {
+    this.remember(key, result);
+    this.stats.update(stats => ({ ...stats, entries: this.entries.size }));
+
+    if (this.stats().persistent) {
+      this.store(key, result);
+    }
+  }
+
+  /**
+   * Forgets all cached layouts, in memory and in IndexedDB, and resets the statistics
+   */
+  public async clear(): Promise<void> {
+    this.entries.clear();
+    this.stats.update(stats => ({ ...stats, hits: 0, misses: 0, entries: 0 }));
+
+    const database = await this.openDatabase();
+
+    try {
+      await this.request(
+        database
+          ?.transaction(STORE_NAME, 'readwrite')
+          .objectStore(STORE_NAME)
+          .clear()
+      );
+    } catch (error) {
+      console.warn('Layout cache could not be cleared:', error);
+    }
+  }
+
+  /**
+   * Turns keeping layouts in IndexedDB on or off
+   * Layouts already in memory are stored right away when turned on.
+   */
+  public setPersistent(persistent: boolean): void {
+    this.stats.update(stats => ({ ...stats, persistent }));
+
+    try {
+      if (persistent) {
+        localStorage.setItem(LAYOUT_CACHE_STORAGE_KEY, 'persistent');
+      } else {
+        localStorage.removeItem(LAYOUT_CACHE_STORAGE_KEY);
+      }
+    } catch (error) {
+      // Storage is disabled, the setting only lasts for this session
+      console.warn('Layout cache setting could not be saved:', error);
+    }
+
+    if (persistent) {
+      this.entries.forEach((result, key) => this.store(key, result));
+    }
+  }
+
+  /**
+   * Adds or refreshes an entry as the most recently used one
+   * @private
+   */
+  private remember(key: string, result: ElkNode): void {
+    this.entries.delete(key);
+    this.entries.set(key, result);
+
+    if (this.entries.size > LAYOUT_CACHE_SIZE) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Reads a persisted layout and marks it as used
+   * @private
+   */
+  private async readStored(key: string): Promise<ElkNode | undefined> {
+    const database = await this.openDatabase();
+
+    try {
+      const store = database
+        ?.transaction(STORE_NAME, 'readwrite')
+        .objectStore(STORE_NAME);
+      const stored = await this.request<IStoredLayout | undefined>(
+        store?.get(key)
+      );
+
+      if (stored) {
+        store!.put({ ...stored, usedAt: Date.now() });
+      }
+
+      return stored?.result;
+    } catch (error) {
+      console.warn('Layout cache could not be read:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Persists a layout, then drops the least recently used ones over the limit
+   * @private
+   */
+  private async store(key: string, result: ElkNode): Promise<void> {
+    const database = await this.openDatabase();
+
+    if (!database) {
+      return;
+    }
+
+    try {
+      const store = database
+        .transaction(STORE_NAME, 'readwrite')
+        .objectStore(STORE_NAME);
+      const layout: IStoredLayout = { key, result, usedAt: Date.now() };
+
+      await this.request(store.put(layout));
+
+      let excess = (await this.request(store.count())) - LAYOUT_CACHE_SIZE;
+      let cursor = await this.request(store.index(USED_AT_INDEX).openCursor());
+
+      while (cursor && excess-- > 0) {
+        cursor.delete();
+        cursor.continue();
+        cursor = await this.request(cursor.request);
+      }
+    } catch (error) {
+      // Storage is full or disabled, the layout is only kept in memory
+      console.warn('Layout could not be saved:', error);
+    }
+  }
+
+  /**
+   * Opens the database on first use
+   * @returns The database, or null when IndexedDB is unavailable
+   * @private
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase | null>(resolve => {
+        try {
+          const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+          request.onupgradeneeded = () => {
+            const database = request.result;
+
+            if (database.objectStoreNames.contains(STORE_NAME)) {
+              database.deleteObjectStore(STORE_NAME);
+            }
+
+            database
+              .createObjectStore(STORE_NAME, { keyPath: 'key' })
+              .createIndex(USED_AT_INDEX, USED_AT_INDEX);
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.warn('Layout cache database unavailable:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.warn('Layout cache database unavailable:', error);
+          resolve(null);
+        }
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Wraps an IndexedDB request into a promise, a missing request resolves to undefined
+   * @private
+   */
+  private request<T>(request: IDBRequest<T> | undefined): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (!request) {
+        resolve(undefined as T);
+        return;
+      }
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * @returns Whether layouts were kept in IndexedDB in an earlier session
+   * @private
+   */
+  private readPersistent(): boolean {
+    try {
+      return localStorage.getItem(LAYOUT_CACHE_STORAGE_KEY) === 'persistent';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { TestBed } from '@angular/core/testing';
+import { LayoutMetricsService } from './layout-metrics.service';
+import { IEdge, ILayoutOutput, INode } from '../models/graph.interface';
+
+describe('LayoutMetricsService', () => {
+  let service: LayoutMetricsService;
+
+  const node = (
+    id: string,
+    x: number,
+    y: number,
+    width = 100,
+    height = 50
+  ): INode => ({
+    id,
+    size: { width, height },
+    position: { x, y },
+    parentId: null,
+  });
+  const edge = (
+    id: string,
+    source: string,
+    target: string,
+    points?: [number, number][],
+    curved = false
+  ): IEdge => ({
+    id,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+    route: points && {
+      points: points.map(([x, y]) => ({ x, y })),
+      curved,
+    },
+  });
+
+  // a → d bends twice and crosses b → c, which passes no other node. c → d is
+  // unrouted and measured between the node centers. d's route runs through e,
+  // f overlaps a.
+  const layout: ILayoutOutput = {
+    groups: [],
+    nodes: [
+      node('a', 0, 0),
+      node('b', 300, 0),
+      node('c', 0, 200),
+      node('d', 300, 200),
+      node('e', 150, 80, 20, 40),
+      node('f', 80, 10, 40, 20),
+    ],
+    edges: [
+      edge('ad', 'a', 'd', [
+        [50, 50],
+        [50, 100],
+        [350, 100],
+        [350, 200],
+      ]),
+      edge('bc', 'b', 'c', [
+        [300, 25],
+        [100, 225],
+      ]),
+      edge('cd', 'c', 'd'),
+    ],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LayoutMetricsService);
+  });
+
+  it('should measure edge lengths along routes and between unrouted nodes', () => {
+    const metrics = service.measure(layout, 12);
+    const diagonal = Math.hypot(200, 200);
+
+    expect(metrics.totalEdgeLength).toBeCloseTo(450 + diagonal + 300);
+    expect(metrics.averageEdgeLength).toBeCloseTo((750 + diagonal) / 3);
+    expect(metrics.layoutTime).toBe(12);
+  });
+
+  it('should count crossings, bends and overlaps', () => {
+    const metrics = service.measure(layout, 0);
+
+    expect(metrics.edgeCrossings).toBe(1);
+    expect(metrics.bendCount).toBe(2);
+    expect(metrics.nodeOverlaps).toBe(1);
+    expect(metrics.nodeEdgeOverlaps).toBe(1);
+  });
+
+  it('should measure the bounding box', () => {
+    const metrics = service.measure(layout, 0);
+
+    expect(metrics.boundingBox).toEqual({ width: 400, height: 250 });
+    expect(metrics.area).toBe(100000);
+    expect(metrics.aspectRatio).toBe(1.6);
+  });
+
+  it('should not count edges meeting at a shared end as crossing', () => {
+    const metrics = service.measure(
+      {
+        groups: [],
+        nodes: [node('a', 0, 0), node('b', 200, 0), node('c', 0, 200)],
+        edges: [
+          edge('ab', 'a', 'b', [
+            [100, 25],
+            [200, 25],
+          ]),
+          edge('ac', 'a', 'c', [
+            [100, 25],
+            [50, 200],
+          ]),
+        ],
+      },
+      0
+    );
+
+    expect(metrics.edgeCrossings).toBe(0);
+  });
+
+  it('should count joints between spline curves as bends', () => {
+    const metrics = service.measure(
+      {
+        groups: [],
+        nodes: [node('a', 0, 0), node('b', 300, 0)],
+        edges: [
+          edge(
+            'ab',
+            'a',
+            'b',
+            [
+              [100, 25],
+              [120, 0],
+              [140, 0],
+              [160, 25],
+              [180, 50],
+              [200, 50],
+              [300, 25],
+            ],
+            true
+          ),
+        ],
+      },
+      0
+    );
+
+    expect(metrics.bendCount).toBe(1);
+  });
+
+  it('should measure an empty layout as zero', () => {
+    const metrics = service.measure({ groups: [], nodes: [], edges: [] }, 0);
+
+    expect(metrics.averageEdgeLength).toBe(0);
+    expect(metrics.area).toBe(0);
+    expect(metrics.aspectRatio).toBe(0);
+  });
+});
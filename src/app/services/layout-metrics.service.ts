@@ -0,0 +1,357 @@
+import { Injectable } from '@angular/core';
+import { IPoint, IRect, PointExtensions, RectExtensions } from '@foblex/2d';
+import { IEdge, ILayoutOutput, INode } from '../models/graph.interface';
+import { ILayoutMetrics } from '../models/layout-metrics.interface';
+
+// Straight pieces each spline curve is approximated with
+const CURVE_STEPS = 8;
+
+// Distance (px) an edge may run inside a node border without overlapping it,
+// routes start and end on the border
+const OVERLAP_TOLERANCE = 1;
+
+interface ISegment {
+  edge: number; // index of the edge the segment belongs to
+  from: IPoint;
+  to: IPoint;
+}
+
+/**
+ * Measures the readability of layout results, e.g. to compare layout strategies
+ * Routed edges are measured along their ELK routes, unrouted edges as straight
+ * lines between node centers
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LayoutMetricsService {
+  /**
+   * Computes all metrics of a layout result
+   * @param layout - Groups, nodes and edges with positions and routes
+   * @param layoutTime - Time (ms) the layout took to calculate
+   */
+  public measure(layout: ILayoutOutput, layoutTime: number): ILayoutMetrics {
+    const nodes = new Map(layout.nodes.map(node => [node.id, node]));
+    const paths = layout.edges.map(edge => this.getEdgePath(edge, nodes));
+    const totalEdgeLength = paths.reduce(
+      (sum, path) => sum + this.getPathLength(path),
+      0
+    );
+    const boundingBox = this.getBoundingBox(layout, paths);
+
+    return {
+      edgeCrossings: this.countEdgeCrossings(paths),
+      totalEdgeLength,
+      averageEdgeLength: paths.length ? totalEdgeLength / paths.length : 0,
+      bendCount: layout.edges.reduce(
+        (sum, edge) => sum + this.countBends(edge),
+        0
+      ),
+      nodeOverlaps: this.countNodeOverlaps(layout.nodes),
+      nodeEdgeOverlaps: this.countNodeEdgeOverlaps(
+        layout.nodes,
+        layout.edges,
+        paths
+      ),
+      boundingBox: {
+        width: boundingBox.width,
+        height: boundingBox.height,
+      },
+      area: boundingBox.width * boundingBox.height,
+      aspectRatio: boundingBox.height
+        ? boundingBox.width / boundingBox.height
+        : 0,
+      layoutTime,
+    };
+  }
+
+  /**
+   * Returns the polyline an edge is drawn along, splines are flattened
+   * @private
+   */
+  private getEdgePath(edge: IEdge, nodes: Map<string, INode>): IPoint[] {
+    if (edge.route) {
+      return edge.route.curved
+        ? this.flattenCurve(edge.route.points)
+        : edge.route.points;
+    }
+
+    const source = nodes.get(edge.source);
+    const target = nodes.get(edge.target);
+
+    return source?.position && target?.position
+      ? [this.getCenter(source), this.getCenter(target)]
+      : [];
+  }
+
+  /**
+   * Approximates cubic bezier curves, given as start point followed by
+   * control point, control point, end point triples, with straight segments
+   * @private
+   */
+  private flattenCurve(points: IPoint[]): IPoint[] {
+    if ((points.length - 1) % 3 !== 0) {
+      return points;
+    }
+
+    const path = [points[0]];
+    for (let i = 1; i < points.length; i += 3) {
+      const [start, c1, c2, end] = points.slice(i - 1, i + 3);
+
+      for (let step = 1; step <= CURVE_STEPS; step++) {
+        const t = step / CURVE_STEPS;
+        const u = 1 - t;
+
+        path.push(
+          PointExtensions.initialize(
+            u ** 3 * start.x +
+              3 * u ** 2 * t * c1.x +
+              3 * u * t ** 2 * c2.x +
+              t ** 3 * end.x,
+            u ** 3 * start.y +
+              3 * u ** 2 * t * c1.y +
+              3 * u * t ** 2 * c2.y +
+              t ** 3 * end.y
+          )
+        );
+      }
+    }
+
+    return path;
+  }
+
+  /**
+   * Sums the segment lengths of a polyline
+   * @private
+   */
+  private getPathLength(path: IPoint[]): number {
+    return path
+      .slice(1)
+      .reduce(
+        (sum, point, index) =>
+          sum + PointExtensions.distance(path[index], point),
+        0
+      );
+  }
+
+  /**
+   * Counts bend points of polyline routes and joints between spline curves
+   * @private
+   */
+  private countBends(edge: IEdge): number {
+    if (!edge.route) {
+      return 0;
+    }
+
+    const { points, curved } = edge.route;
+    const bends =
+      curved && (points.length - 1) % 3 === 0
+        ? (points.length - 1) / 3 - 1
+        : points.length - 2;
+
+    return Math.max(0, bends);
+  }
+
+  /**
+   * Counts points where segments of different edges cross
+   * Edges that only touch, e.g. at a shared port, or run along each other don't cross
+   * @private
+   */
+  private countEdgeCrossings(paths: IPoint[][]): number {
+    const segments: ISegment[] = paths.flatMap((path, edge) =>
+      path.slice(1).map((to, index) => ({ edge, from: path[index], to }))
+    );
+    let crossings = 0;
+
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        if (
+          segments[i].edge !== segments[j].edge &&
+          this.isProperIntersection(segments[i], segments[j])
+        ) {
+          crossings++;
+        }
+      }
+    }
+
+    return crossings;
+  }
+
+  /**
+   * Checks whether two segments cross at a single point inside both of them
+   * @private
+   */
+  private isProperIntersection(a: ISegment, b: ISegment): boolean {
+    const d1 = this.orientation(a.from, a.to, b.from);
+    const d2 = this.orientation(a.from, a.to, b.to);
+    const d3 = this.orientation(b.from, b.to, a.from);
+    const d4 = this.orientation(b.from, b.to, a.to);
+
+    return d1 * d2 < 0 && d3 * d4 < 0;
+  }
+
+  /**
+   * Sign of the turn from p→q to p→r: positive counter-clockwise, 0 when collinear
+   * @private
+   */
+  private orientation(p: IPoint, q: IPoint, r: IPoint): number {
+    return Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  }
+
+  /**
+   * Counts node pairs whose boxes share some area
+   * @private
+   */
+  private countNodeOverlaps(nodes: INode[]): number {
+    const rects = nodes.map(node => this.getRect(node));
+    let overlaps = 0;
+
+    for (let i = 0; i < rects.length; i++) {
+      for (let j = i + 1; j < rects.length; j++) {
+        const a = rects[i];
+        const b = rects[j];
+
+        if (
+          a.x < b.x + b.width &&
+          b.x < a.x + a.width &&
+          a.y < b.y + b.height &&
+          b.y < a.y + a.height
+        ) {
+          overlaps++;
+        }
+      }
+    }
+
+    return overlaps;
+  }
+
+  /**
+   * Counts edge and node pairs where the edge passes through a node it doesn't connect
+   * @private
+   */
+  private countNodeEdgeOverlaps(
+    nodes: INode[],
+    edges: IEdge[],
+    paths: IPoint[][]
+  ): number {
+    const rects = nodes.map(node => ({
+      id: node.id,
+      rect: this.getRect(node, -OVERLAP_TOLERANCE),
+    }));
+
+    return edges.reduce(
+      (count, edge, index) =>
+        count +
+        rects.filter(
+          ({ id, rect }) =>
+            id !== edge.source &&
+            id !== edge.target &&
+            paths[index]
+              .slice(1)
+              .some((to, i) =>
+                this.segmentIntersectsRect(paths[index][i], to, rect)
+              )
+        ).length,
+      0
+    );
+  }
+
+  /**
+   * Clips a segment against a rectangle (Liang–Barsky)
+   * @returns True when part of the segment lies inside the rectangle
+   * @private
+   */
+  private segmentIntersectsRect(
+    from: IPoint,
+    to: IPoint,
+    rect: IRect
+  ): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const checks: [number, number][] = [
+      [-dx, from.x - rect.x],
+      [dx, rect.x + rect.width - from.x],
+      [-dy, from.y - rect.y],
+      [dy, rect.y + rect.height - from.y],
+    ];
+    let enter = 0;
+    let exit = 1;
+
+    for (const [p, q] of checks) {
+      if (p === 0) {
+        if (q < 0) {
+          return false;
+        }
+      } else {
+        const t = q / p;
+        if (p < 0) {
+          enter = Math.max(enter, t);
+        } else {
+          exit = Math.min(exit, t);
+        }
+      }
+    }
+
+    return enter < exit;
+  }
+
+  /**
+   * Finds the box enclosing all groups, nodes and edge paths
+   * @private
+   */
+  private getBoundingBox(layout: ILayoutOutput, paths: IPoint[][]): IRect {
+    const points = [
+      ...[...layout.groups, ...layout.nodes].flatMap(element => {
+        const rect = this.getRect(element);
+        return [
+          PointExtensions.initialize(rect.x, rect.y),
+          PointExtensions.initialize(rect.x + rect.width, rect.y + rect.height),
+        ];
+      }),
+      ...paths.flat(),
+    ];
+
+    if (!points.length) {
+      return RectExtensions.initialize();
+    }
+
+    const min = points.reduce((a, b) =>
+      PointExtensions.initialize(Math.min(a.x, b.x), Math.min(a.y, b.y))
+    );
+    const max = points.reduce((a, b) =>
+      PointExtensions.initialize(Math.max(a.x, b.x), Math.max(a.y, b.y))
+    );
+
+    return RectExtensions.initialize(
+      min.x,
+      min.y,
+      max.x - min.x,
+      max.y - min.y
+    );
+  }
+
+  /**
+   * Returns the box of a group or node
+   * @param grow - Distance added on every side, negative to shrink the box
+   * @private
+   */
+  private getRect(element: Pick<INode, 'position' | 'size'>, grow = 0): IRect {
+    return RectExtensions.initialize(
+      (element.position?.x ?? 0) - grow,
+      (element.position?.y ?? 0) - grow,
+      element.size.width + grow * 2,
+      element.size.height + grow * 2
+    );
+  }
+
+  /**
+   * Center of a positioned node
+   * @private
+   */
+  private getCenter(node: INode): IPoint {
+    return PointExtensions.initialize(
+      node.position!.x + node.size.width / 2,
+      node.position!.y + node.size.height / 2
+    );
+  }
+}
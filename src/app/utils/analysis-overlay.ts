@@ -0,0 +1,67 @@
+import { IEdge } from '../models/graph.interface';
+import {
+  GraphAnalysisOverlay,
+  IGraphAnalysis,
+} from '../models/graph-analysis.interface';
+
+/**
+ * Distinct color for the n-th component or layer, hues a golden angle apart
+ */
+export function getOverlayColor(index: number): string {
+  return `hsl(${Math.round((index * 137.508) % 360)}, 70%, 50%)`;
+}
+
+/**
+ * Colors of the nodes and edges an overlay highlights, by id
+ * Components and layers get a color each, their edges take the color of the
+ * part they lie in. Reversed edges and critical paths share a single color.
+ * @param edges - Edges as shown, to color the edges within components
+ */
+export function getOverlayColors(
+  overlay: GraphAnalysisOverlay,
+  analysis: IGraphAnalysis,
+  reversedEdgeIds: string[],
+  edges: IEdge[]
+): Map<string, string> {
+  const highlight = getOverlayColor(0);
+  // Nodes of each part colored, edges with both ends in the same part too
+  const colorParts = (parts: string[][], withEdges: boolean) => {
+    const partOf = new Map(
+      parts.flatMap((part, index) => part.map(id => [id, index] as const))
+    );
+    const colors = new Map(
+      [...partOf].map(([id, index]) => [id, getOverlayColor(index)])
+    );
+
+    if (withEdges) {
+      edges
+        .filter(
+          ({ source, target }) =>
+            partOf.has(source) && partOf.get(source) === partOf.get(target)
+        )
+        .forEach(({ id, source }) => colors.set(id, colors.get(source)!));
+    }
+
+    return colors;
+  };
+
+  switch (overlay) {
+    case 'cycles':
+      return colorParts(analysis.stronglyConnectedComponents, true);
+    case 'reversed':
+      return new Map(reversedEdgeIds.map(id => [id, highlight]));
+    case 'layers':
+      return colorParts(analysis.layers, false);
+    case 'critical':
+      return new Map(
+        [
+          ...analysis.criticalPath.nodeIds,
+          ...analysis.criticalPath.edgeIds,
+        ].map(id => [id, highlight])
+      );
+    case 'components':
+      return colorParts(analysis.components, true);
+    default:
+      return new Map();
+  }
+}
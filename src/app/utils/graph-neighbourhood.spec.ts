@@ -0,0 +1,72 @@
+import { getNeighbourhood } from './graph-neighbourhood';
+import { IEdge } from '../models/graph.interface';
+
+describe('getNeighbourhood', () => {
+  const edge = (source: string, target: string): IEdge => ({
+    id: `${source}-${target}`,
+    source,
+    target,
+    sourceHandle: source,
+    targetHandle: target,
+  });
+
+  // a → b → c → d, x → b, c → a closes a cycle, y stands apart
+  const edges = [
+    edge('a', 'b'),
+    edge('b', 'c'),
+    edge('c', 'd'),
+    edge('x', 'b'),
+    edge('c', 'a'),
+  ];
+  const sorted = (ids: Set<string>) => [...ids].sort();
+
+  it('should include the node itself', () => {
+    expect(sorted(getNeighbourhood(edges, 'b', 0, 'both'))).toEqual(['b']);
+    expect(sorted(getNeighbourhood(edges, 'y', 3, 'both'))).toEqual(['y']);
+  });
+
+  it('should follow edges either way', () => {
+    expect(sorted(getNeighbourhood(edges, 'b', 1, 'both'))).toEqual([
+      'a',
+      'b',
+      'c',
+      'x',
+    ]);
+  });
+
+  it('should follow edges along their direction downstream', () => {
+    expect(sorted(getNeighbourhood(edges, 'b', 1, 'downstream'))).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(sorted(getNeighbourhood(edges, 'b', 2, 'downstream'))).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+  });
+
+  it('should follow edges against their direction upstream', () => {
+    expect(sorted(getNeighbourhood(edges, 'b', 1, 'upstream'))).toEqual([
+      'a',
+      'b',
+      'x',
+    ]);
+    expect(sorted(getNeighbourhood(edges, 'd', 2, 'upstream'))).toEqual([
+      'b',
+      'c',
+      'd',
+    ]);
+  });
+
+  it('should stop once every reachable node is found', () => {
+    expect(sorted(getNeighbourhood(edges, 'a', 100, 'both'))).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+      'x',
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { IEdge } from '../models/graph.interface';
+import { FocusDirection } from '../models/graph-focus.interface';
+
+/**
+ * Ids of the nodes at most `hops` edges away from a node, the node included
+ * Upstream follows edges from their target to their source, downstream from
+ * their source to their target, both follows them either way.
+ */
+export function getNeighbourhood(
+  edges: IEdge[],
+  nodeId: string,
+  hops: number,
+  direction: FocusDirection
+): Set<string> {
+  const adjacent = new Map<string, string[]>();
+  const link = (from: string, to: string) =>
+    adjacent.set(from, [...(adjacent.get(from) ?? []), to]);
+
+  edges.forEach(({ source, target }) => {
+    if (direction !== 'upstream') {
+      link(source, target);
+    }
+
+    if (direction !== 'downstream') {
+      link(target, source);
+    }
+  });
+
+  const reached = new Set([nodeId]);
+  let frontier = [nodeId];
+
+  for (let hop = 0; hop < hops && frontier.length; hop++) {
+    frontier = frontier.flatMap(id =>
+      (adjacent.get(id) ?? []).filter(next => {
+        if (reached.has(next)) {
+          return false;
+        }
+
+        reached.add(next);
+        return true;
+      })
+    );
+  }
+
+  return reached;
+}
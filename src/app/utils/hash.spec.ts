@@ -0,0 +1,44 @@
+import { hashString, hashValue, stableStringify } from './hash';
+
+describe('hash', () => {
+  describe('stableStringify', () => {
+    it('should sort object keys at every depth', () => {
+      expect(
+        stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 5 } })
+      ).toBe('{"a":{"c":5,"d":[2,{"e":4,"f":3}]},"b":1}');
+    });
+
+    it('should leave undefined properties out like JSON.stringify', () => {
+      expect(stableStringify({ a: undefined, b: null })).toBe('{"b":null}');
+      expect(stableStringify(undefined)).toBe('null');
+    });
+
+    it('should keep the order of array items', () => {
+      expect(stableStringify([3, 1, 2])).toBe('[3,1,2]');
+    });
+  });
+
+  describe('hashString', () => {
+    it('should return 14 hex digits', () => {
+      expect(hashString('')).toMatch(/^[0-9a-f]{14}$/);
+      expect(hashString('graph')).toMatch(/^[0-9a-f]{14}$/);
+    });
+
+    it('should be deterministic and depend on text and seed', () => {
+      expect(hashString('graph')).toBe(hashString('graph'));
+      expect(hashString('graph')).not.toBe(hashString('graph!'));
+      expect(hashString('graph', 1)).not.toBe(hashString('graph'));
+    });
+  });
+
+  describe('hashValue', () => {
+    it('should hash equal structures equally whatever their key order', () => {
+      expect(hashValue({ x: 1, y: [1, 2] })).toBe(
+        hashValue({ y: [1, 2], x: 1 })
+      );
+      expect(hashValue({ x: 1, y: [1, 2] })).not.toBe(
+        hashValue({ x: 1, y: [2, 1] })
+      );
+    });
+  });
+});
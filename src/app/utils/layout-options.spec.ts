@@ -0,0 +1,106 @@
+import {
+  getConfigOptionValue,
+  getElkLayoutOptions,
+  setConfigOptionValue,
+} from './layout-options';
+import { ELK_OPTION_REGISTRY } from '../registry/elk-option.registry';
+import {
+  DEFAULT_LAYOUT_CONFIG,
+  LayoutConfig,
+} from '../models/layout-config.interface';
+
+describe('layout options', () => {
+  const definition = (id: string) =>
+    ELK_OPTION_REGISTRY.layered.find(option => option.id === id)!;
+  const thoroughness = () => definition('elk.layered.thoroughness');
+
+  const config: LayoutConfig = {
+    ...DEFAULT_LAYOUT_CONFIG,
+    elkOptions: {
+      layered: { 'elk.layered.thoroughness': 20 },
+      force: { 'elk.force.iterations': 100 },
+    },
+  };
+
+  it('should hand ELK the options changed for the chosen algorithm', () => {
+    const options = getElkLayoutOptions(config);
+
+    expect(options.algorithm).toBe('layered');
+    expect(options.spacing).toEqual({
+      nodeNode: 80,
+      nodeNodeBetweenLayers: 80,
+    });
+    expect(options.groupPadding).toEqual({
+      top: 60,
+      right: 60,
+      bottom: 60,
+      left: 60,
+    });
+    expect(options.elkOptions).toEqual({ 'elk.layered.thoroughness': 20 });
+  });
+
+  describe('getConfigOptionValue', () => {
+    it('should read options with their own field from it', () => {
+      expect(
+        getConfigOptionValue(
+          { ...config, nodeSpacing: 30 },
+          definition('elk.spacing.nodeNode')
+        )
+      ).toBe(30);
+    });
+
+    it('should read other options from the changed ones or their default', () => {
+      expect(getConfigOptionValue(config, thoroughness())).toBe(20);
+      expect(
+        getConfigOptionValue(config, definition('elk.layered.mergeEdges'))
+      ).toBe(false);
+    });
+  });
+
+  describe('setConfigOptionValue', () => {
+    it('should set options with their own field there', () => {
+      expect(
+        setConfigOptionValue(config, definition('elk.direction'), 'UP')
+      ).toEqual({ direction: 'UP' });
+    });
+
+    it('should keep changed values of the algorithm', () => {
+      expect(setConfigOptionValue(config, thoroughness(), 30)).toEqual({
+        elkOptions: {
+          layered: { 'elk.layered.thoroughness': 30 },
+          force: { 'elk.force.iterations': 100 },
+        },
+      });
+    });
+
+    it('should drop values equal to the default', () => {
+      expect(
+        setConfigOptionValue(config, thoroughness(), thoroughness().default)
+      ).toEqual({
+        elkOptions: {
+          layered: {},
+          force: { 'elk.force.iterations': 100 },
+        },
+      });
+    });
+
+    it('should keep options with a setting but no field of their own', () => {
+      const edgeNode = definition('elk.spacing.edgeNode');
+
+      expect(setConfigOptionValue(DEFAULT_LAYOUT_CONFIG, edgeNode, 10)).toEqual(
+        { elkOptions: { layered: { 'elk.spacing.edgeNode': 10 } } }
+      );
+      expect(
+        setConfigOptionValue(DEFAULT_LAYOUT_CONFIG, edgeNode, edgeNode.default)
+      ).toEqual({ elkOptions: { layered: {} } });
+    });
+
+    it('should leave the configuration it was given unchanged', () => {
+      setConfigOptionValue(config, thoroughness(), 10);
+
+      expect(config.elkOptions?.layered).toEqual({
+        'elk.layered.thoroughness': 20,
+      });
+    });
+  });
+});
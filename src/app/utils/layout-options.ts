@@ -0,0 +1,88 @@
+import {
+  ElkLayoutSetting,
+  ElkOptionDefinition,
+  ElkOptionValue,
+} from '../models/elk-option.interface';
+import { IElkLayoutOptions } from '../models/graph.interface';
+import { LayoutConfig } from '../models/layout-config.interface';
+
+// Layout settings that have their own field in the configuration,
+// all other options are kept in `elkOptions`
+const SETTING_CONFIG_KEYS: Partial<
+  Record<ElkLayoutSetting, keyof LayoutConfig>
+> = {
+  direction: 'direction',
+  edgeRouting: 'edgeRouting',
+  nodePlacement: 'nodePlacement',
+  'spacing.nodeNode': 'nodeSpacing',
+  'spacing.nodeNodeBetweenLayers': 'layerSpacing',
+};
+
+/**
+ * Translates the settings of the layout controls into ELK layout options
+ */
+export function getElkLayoutOptions(config: LayoutConfig): IElkLayoutOptions {
+  return {
+    algorithm: config.algorithm,
+    direction: config.direction,
+    edgeRouting: config.edgeRouting,
+    nodePlacement: config.nodePlacement,
+    spacing: {
+      nodeNode: config.nodeSpacing,
+      nodeNodeBetweenLayers: config.layerSpacing,
+    },
+    groupPadding: {
+      top: config.groupPadding,
+      right: config.groupPadding,
+      bottom: config.groupPadding,
+      left: config.groupPadding,
+    },
+    elkOptions: config.elkOptions?.[config.algorithm],
+  };
+}
+
+/**
+ * Current value of a registry option in a configuration
+ */
+export function getConfigOptionValue(
+  config: LayoutConfig,
+  definition: ElkOptionDefinition
+): ElkOptionValue {
+  const key = definition.setting && SETTING_CONFIG_KEYS[definition.setting];
+
+  if (key) {
+    return config[key] as ElkOptionValue;
+  }
+
+  return (
+    config.elkOptions?.[config.algorithm]?.[definition.id] ?? definition.default
+  );
+}
+
+/**
+ * Configuration change that sets a registry option
+ * Values equal to the default are dropped, so only real changes are kept
+ */
+export function setConfigOptionValue(
+  config: LayoutConfig,
+  definition: ElkOptionDefinition,
+  value: ElkOptionValue
+): Partial<LayoutConfig> {
+  const key = definition.setting && SETTING_CONFIG_KEYS[definition.setting];
+
+  if (key) {
+    return { [key]: value };
+  }
+
+  const values = { ...config.elkOptions?.[config.algorithm] };
+
+  if (value === definition.default) {
+    delete values[definition.id];
+  } else {
+    values[definition.id] = value;
+  }
+
+  return {
+    elkOptions: { ...config.elkOptions, [config.algorithm]: values },
+  };
+}
@@ -0,0 +1,48 @@
+import { IPoint, PointExtensions } from '@foblex/2d';
+import { IEdgeRoute } from '../models/graph.interface';
+
+/**
+ * Builds the SVG path of an ELK route, as a polyline or as cubic bezier curves
+ * @param route - Route with at least two points
+ */
+export function buildRoutePath(route: IEdgeRoute): string {
+  const { points } = route;
+
+  // ELK emits spline control points in groups of three after the start point
+  if (!route.curved || (points.length - 1) % 3 !== 0) {
+    return points
+      .map((point, index) => `${index ? 'L' : 'M'} ${point.x} ${point.y}`)
+      .join(' ');
+  }
+
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length; i += 3) {
+    const [c1, c2, end] = points.slice(i, i + 3);
+    path += ` C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`;
+  }
+
+  return path;
+}
+
+/**
+ * Returns the point halfway along a route, measured along its segments
+ */
+export function getRouteCenter(points: IPoint[]): IPoint {
+  const lengths = points
+    .slice(1)
+    .map((point, index) => PointExtensions.distance(points[index], point));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      return PointExtensions.interpolatePoints(
+        points[i],
+        points[i + 1],
+        remaining / lengths[i]
+      );
+    }
+    remaining -= lengths[i];
+  }
+
+  return points[0];
+}
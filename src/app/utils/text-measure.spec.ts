@@ -0,0 +1,108 @@
+import {
+  getNodeSizeForLabel,
+  LABEL_FONT_FAMILY,
+  LABEL_FONT_SIZE,
+  LABEL_LINE_HEIGHT,
+  measureText,
+  NODE_LABEL_PADDING,
+  resetTextMeasureContext,
+} from './text-measure';
+
+describe('text-measure', () => {
+  const scope = globalThis as { OffscreenCanvas?: unknown };
+  const offscreenCanvas = scope.OffscreenCanvas;
+  let font: string | undefined;
+
+  // A canvas whose glyphs are all 10px wide
+  const useCanvas = () => {
+    scope.OffscreenCanvas = class {
+      getContext() {
+        return {
+          set font(value: string) {
+            font = value;
+          },
+          measureText: (line: string) => ({ width: line.length * 10 }),
+        };
+      }
+    };
+  };
+
+  // No OffscreenCanvas, and a document whose canvases have no 2D context
+  const useNoCanvas = () => {
+    scope.OffscreenCanvas = undefined;
+
+    if (typeof document !== 'undefined') {
+      spyOn(document, 'createElement').and.returnValue({
+        getContext: () => null,
+      } as unknown as HTMLElement);
+    }
+  };
+
+  beforeEach(() => {
+    font = undefined;
+    resetTextMeasureContext();
+  });
+
+  afterEach(() => {
+    scope.OffscreenCanvas = offscreenCanvas;
+    resetTextMeasureContext();
+  });
+
+  describe('measureText', () => {
+    it('should measure with a canvas in the label font', () => {
+      useCanvas();
+
+      expect(measureText('label')).toEqual({
+        width: 50,
+        height: LABEL_LINE_HEIGHT,
+      });
+      expect(font).toBe(`${LABEL_FONT_SIZE}px ${LABEL_FONT_FAMILY}`);
+    });
+
+    it('should measure the widest of several lines', () => {
+      useCanvas();
+
+      expect(measureText('a\nthree\nab')).toEqual({
+        width: 50,
+        height: LABEL_LINE_HEIGHT * 3,
+      });
+    });
+
+    it('should estimate the width without a canvas', () => {
+      useNoCanvas();
+
+      expect(measureText('label')).toEqual({
+        width: Math.ceil(5 * LABEL_FONT_SIZE * 0.6),
+        height: LABEL_LINE_HEIGHT,
+      });
+    });
+
+    it('should measure empty text as one empty line', () => {
+      useNoCanvas();
+
+      expect(measureText('')).toEqual({ width: 0, height: LABEL_LINE_HEIGHT });
+    });
+  });
+
+  describe('getNodeSizeForLabel', () => {
+    beforeEach(() => useCanvas());
+
+    it('should keep short labels at the minimum size', () => {
+      expect(getNodeSizeForLabel('ab')).toEqual({ width: 120, height: 60 });
+    });
+
+    it('should fit long labels with padding', () => {
+      expect(getNodeSizeForLabel('a'.repeat(20) + '\nb\nc')).toEqual({
+        width: 200 + NODE_LABEL_PADDING * 2,
+        height: LABEL_LINE_HEIGHT * 3 + NODE_LABEL_PADDING * 2,
+      });
+    });
+
+    it('should honour a custom minimum size', () => {
+      expect(getNodeSizeForLabel('ab', { width: 40, height: 200 })).toEqual({
+        width: 20 + NODE_LABEL_PADDING * 2,
+        height: 200,
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { ISize } from '@foblex/2d';
+
+/**
+ * Label typography, shared by the canvas styles, layout sizing and image export
+ */
+export const LABEL_FONT_SIZE = 14;
+export const LABEL_LINE_HEIGHT = 18;
+export const LABEL_FONT_FAMILY = 'Poppins, sans-serif';
+
+/**
+ * Space (px) kept between a node border and its label
+ */
+export const NODE_LABEL_PADDING = 16;
+
+// Smallest node drawn for short labels
+const NODE_MIN_SIZE: ISize = { width: 120, height: 60 };
+
+// Average glyph width relative to the font size, used without a canvas
+const FALLBACK_CHAR_WIDTH = 0.6;
+
+let context:
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D
+  | null = null;
+
+/**
+ * Measures a possibly multi-line label in the label font
+ * Uses canvas text metrics where available (window or worker),
+ * and a per-character estimate elsewhere, e.g. in Node
+ */
+export function measureText(text: string): ISize {
+  const lines = text.split('\n');
+  const measure = getContext();
+  const widths = lines.map(line =>
+    measure
+      ? measure.measureText(line).width
+      : line.length * LABEL_FONT_SIZE * FALLBACK_CHAR_WIDTH
+  );
+
+  return {
+    width: Math.ceil(Math.max(0, ...widths)),
+    height: lines.length * LABEL_LINE_HEIGHT,
+  };
+}
+
+/**
+ * Size of a node that fits its label with padding, never below the minimum size
+ * @param label - Label text
+ * @param minSize - Smallest size to return, e.g. to leave room for ports
+ */
+export function getNodeSizeForLabel(
+  label: string,
+  minSize: ISize = NODE_MIN_SIZE
+): ISize {
+  const text = measureText(label);
+
+  return {
+    width: Math.max(minSize.width, text.width + NODE_LABEL_PADDING * 2),
+    height: Math.max(minSize.height, text.height + NODE_LABEL_PADDING * 2),
+  };
+}
+
+/**
+ * Forgets the canvas context, the next measurement looks for a canvas again
+ * Lets specs measure with and without a canvas in the same environment.
+ */
+export function resetTextMeasureContext(): void {
+  context = null;
+}
+
+/**
+ * Lazily creates a 2D context set to the label font, null when no canvas exists
+ */
+function getContext():
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D
+  | null {
+  if (context) {
+    return context;
+  }
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    context = new OffscreenCanvas(1, 1).getContext('2d');
+  } else if (typeof document !== 'undefined') {
+    context = document.createElement('canvas').getContext('2d');
+  }
+
+  if (context) {
+    context.font = `${LABEL_FONT_SIZE}px ${LABEL_FONT_FAMILY}`;
+  }
+
+  return context;
+}
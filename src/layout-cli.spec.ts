@@ -0,0 +1,148 @@
+import { ILayoutCliIO, runLayoutCli } from './layout-cli';
+
+describe('runLayoutCli', () => {
+  let files: Map<string, string>;
+  let stdin: string;
+  let stdout: string;
+  let stderr: string;
+
+  const graph = JSON.stringify({
+    nodes: [{ id: 'a' }, { id: 'b' }],
+    edges: [{ id: 'e', source: 'a', target: 'b' }],
+  });
+  const broken = JSON.stringify({
+    nodes: [{ id: 'a' }],
+    edges: [{ id: 'e', source: 'a', target: 'x' }],
+  });
+
+  // Files and streams kept in memory
+  const io: ILayoutCliIO = {
+    readFile: async path => {
+      if (!files.has(path)) {
+        throw new Error(`ENOENT: no such file, open '${path}'`);
+      }
+
+      return files.get(path)!;
+    },
+    readStdin: async () => stdin,
+    writeFile: async (path, text) => {
+      files.set(path, text);
+    },
+    stdout: text => (stdout += text),
+    stderr: text => (stderr += text),
+  };
+  const run = (...args: string[]) => runLayoutCli(args, io);
+
+  beforeEach(() => {
+    files = new Map([
+      ['graph.json', graph],
+      ['broken.json', broken],
+    ]);
+    stdin = '';
+    stdout = '';
+    stderr = '';
+  });
+
+  describe('exit code 0', () => {
+    it('should write the laid-out graph to stdout', async () => {
+      expect(await run('graph.json')).toBe(0);
+      expect(JSON.parse(stdout).nodes.length).toBe(2);
+      expect(stderr).toBe('');
+    });
+
+    it('should read the graph from stdin without a file or with -', async () => {
+      stdin = graph;
+
+      expect(await run()).toBe(0);
+      expect(await run('-', '--algorithm', 'force')).toBe(0);
+    });
+
+    it('should write an SVG file when the output ends with .svg', async () => {
+      expect(await run('graph.json', '-o', 'graph.svg')).toBe(0);
+      expect(files.get('graph.svg')).toMatch(/^<svg /);
+      expect(stdout).toBe('');
+    });
+
+    it('should take the format and values joined to long options', async () => {
+      expect(await run('graph.json', '--out=graph.txt', '--format=svg')).toBe(
+        0
+      );
+      expect(files.get('graph.txt')).toMatch(/^<svg /);
+    });
+
+    it('should report repaired problems on stderr', async () => {
+      expect(await run('broken.json', '-r')).toBe(0);
+      expect(stderr).toBe('repaired: Edge "e" connects missing node "x"\n');
+    });
+
+    it('should show the help', async () => {
+      expect(await run('--help')).toBe(0);
+      expect(stdout).toContain('Usage: npm run layout');
+    });
+  });
+
+  describe('exit code 1', () => {
+    it('should reject graphs with errors', async () => {
+      expect(await run('broken.json')).toBe(1);
+      expect(stderr).toBe(
+        'error: Edge "e" connects missing node "x"\n' +
+          'The graph was not laid out, use --repair to repair it\n'
+      );
+      expect(stdout).toBe('');
+    });
+
+    it('should reject files that are not JSON', async () => {
+      stdin = '{ nodes';
+
+      expect(await run()).toBe(1);
+      expect(stderr).toContain('Graph file is not valid JSON');
+    });
+
+    it('should report files it can not read', async () => {
+      expect(await run('missing.json')).toBe(1);
+      expect(stderr).toContain('ENOENT');
+    });
+  });
+
+  describe('exit code 2', () => {
+    const expectUsageError = async (args: string[], message: string) => {
+      expect(await run(...args))
+        .withContext(args.join(' '))
+        .toBe(2);
+      expect(stderr).toContain(message);
+      expect(stderr).toContain('Usage: npm run layout');
+      stderr = '';
+    };
+
+    it('should reject unknown options and missing values', async () => {
+      await expectUsageError(['--bogus'], 'Unknown option "--bogus"');
+      await expectUsageError(['graph.json', '-o'], 'Option "-o" needs a value');
+      await expectUsageError(
+        ['graph.json', '-a', '-r'],
+        'Option "-a" needs a value'
+      );
+      await expectUsageError(
+        ['--repair=yes'],
+        'Option "--repair" takes no value'
+      );
+    });
+
+    it('should reject unknown values', async () => {
+      await expectUsageError(
+        ['graph.json', '--algorithm', 'circle'],
+        'Unknown algorithm "circle"'
+      );
+      await expectUsageError(
+        ['graph.json', '-d', 'NORTH'],
+        'Unknown direction "NORTH"'
+      );
+    });
+
+    it('should reject more than one graph file', async () => {
+      await expectUsageError(
+        ['graph.json', 'broken.json'],
+        'Expected a single graph file'
+      );
+    });
+  });
+});
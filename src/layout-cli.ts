@@ -0,0 +1,215 @@
+import { GraphValidationError } from './app/engine/graph-validator';
+import {
+  HeadlessLayout,
+  HeadlessLayoutError,
+  parseHeadlessLayoutRequest,
+} from './app/engine/headless-layout';
+
+const USAGE = `Usage: npm run layout -- [graph.json] [options]
+
+Lays out a graph document exported by the app, or a plain
+{ groups?, nodes, edges?, options? } graph, read from a file or stdin.
+
+Options:
+  -o, --out <file>         Write to a file instead of stdout
+  -f, --format <format>    json or svg, taken from the --out extension by default
+  -a, --algorithm <name>   Layout algorithm, e.g. layered, force, mrtree
+  -d, --direction <dir>    RIGHT, DOWN, LEFT or UP
+  -r, --repair             Repair graph problems instead of rejecting the graph
+  -h, --help               Show this help`;
+
+// Options by long name, with their short name and whether they take a value
+const OPTIONS = {
+  out: { short: 'o', value: true },
+  format: { short: 'f', value: true },
+  algorithm: { short: 'a', value: true },
+  direction: { short: 'd', value: true },
+  repair: { short: 'r', value: false },
+  help: { short: 'h', value: false },
+} as const;
+
+type LayoutCliOption = keyof typeof OPTIONS;
+
+/**
+ * Command line arguments split into options and the graph file
+ */
+interface ILayoutCliArgs {
+  values: {
+    out?: string;
+    format?: string;
+    algorithm?: string;
+    direction?: string;
+    repair?: boolean;
+    help?: boolean;
+  };
+  positionals: string[];
+}
+
+/**
+ * Files and streams the CLI works with, the ones of the process when started
+ * from server.ts
+ */
+export interface ILayoutCliIO {
+  readFile: (path: string) => Promise<string>;
+  readStdin: () => Promise<string>;
+  writeFile: (path: string, text: string) => Promise<void>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/**
+ * Raised for command line arguments the CLI doesn't understand
+ */
+class LayoutCliArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutCliArgumentError';
+  }
+}
+
+/**
+ * Lays out a graph file from the command line
+ * Problems found in the graph are reported on stderr
+ * @param args - Arguments after the `layout` command
+ * @returns Exit code: 0 when laid out, 1 for invalid graphs, 2 for invalid arguments
+ */
+export async function runLayoutCli(
+  args: string[],
+  io: ILayoutCliIO
+): Promise<number> {
+  const error = (message: string) => io.stderr(`${message}\n`);
+  let parsed;
+
+  try {
+    parsed = parseArgs(args);
+  } catch (argumentError) {
+    error(`${(argumentError as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    io.stdout(`${USAGE}\n`);
+    return 0;
+  }
+
+  if (positionals.length > 1) {
+    error(`Expected a single graph file\n\n${USAGE}`);
+    return 2;
+  }
+
+  let request;
+
+  try {
+    request = parseHeadlessLayoutRequest({
+      ...values,
+      format: values.format ?? (values.out?.endsWith('.svg') ? 'svg' : 'json'),
+    });
+  } catch (requestError) {
+    error(`${(requestError as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const [file] = positionals;
+    const text =
+      file && file !== '-' ? await io.readFile(file) : await io.readStdin();
+    const result = await new HeadlessLayout().layout(parseJson(text), request);
+
+    result.diagnostics.forEach(({ severity, message }) =>
+      error(`${request.repair ? 'repaired' : severity}: ${message}`)
+    );
+
+    if (values.out) {
+      await io.writeFile(values.out, result.body);
+    } else {
+      io.stdout(`${result.body}\n`);
+    }
+
+    return 0;
+  } catch (layoutError) {
+    if (layoutError instanceof GraphValidationError) {
+      layoutError.diagnostics.forEach(({ message }) =>
+        error(`error: ${message}`)
+      );
+      error('The graph was not laid out, use --repair to repair it');
+    } else {
+      error((layoutError as Error).message);
+    }
+
+    return 1;
+  }
+}
+
+/**
+ * Splits the arguments into options and positionals
+ * Values follow their option, e.g. `-o out.svg`, or are joined to long ones,
+ * e.g. `--out=out.svg`. `-` is a positional standing for stdin.
+ * @throws LayoutCliArgumentError for unknown options and missing values
+ */
+function parseArgs(args: string[]): ILayoutCliArgs {
+  const values: Record<string, string | boolean> = {};
+  const positionals: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+
+    if (arg === '--') {
+      positionals.push(...args.slice(index + 1));
+      break;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const flag = equals < 0 ? arg : arg.slice(0, equals);
+    const joined = equals < 0 ? undefined : arg.slice(equals + 1);
+    const name = (Object.keys(OPTIONS) as LayoutCliOption[]).find(
+      key => flag === `--${key}` || flag === `-${OPTIONS[key].short}`
+    );
+
+    if (!name) {
+      throw new LayoutCliArgumentError(`Unknown option "${flag}"`);
+    }
+
+    if (!OPTIONS[name].value) {
+      if (joined !== undefined) {
+        throw new LayoutCliArgumentError(`Option "${flag}" takes no value`);
+      }
+
+      values[name] = true;
+      continue;
+    }
+
+    const value = joined ?? args[++index];
+
+    if (
+      value === undefined ||
+      (joined === undefined && value.startsWith('-'))
+    ) {
+      throw new LayoutCliArgumentError(`Option "${flag}" needs a value`);
+    }
+
+    values[name] = value;
+  }
+
+  return { values, positionals };
+}
+
+/**
+ * Parses the graph file
+ * @throws HeadlessLayoutError when it isn't JSON
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new HeadlessLayoutError(
+      `Graph file is not valid JSON: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  AngularNodeAppEngine,
+  createNodeRequestHandler,
+  isMainModule,
+  writeResponseToNodeResponse,
+} from '@angular/ssr/node';
+import express from 'express';
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  getHeadlessLayoutErrorResponse,
+  HEADLESS_LAYOUT_BODY_LIMIT,
+  HeadlessLayout,
+  parseHeadlessLayoutRequest,
+} from './app/engine/headless-layout';
+import { runLayoutCli } from './layout-cli';
+
+const serverDistFolder = dirname(fileURLToPath(import.meta.url));
+const browserDistFolder = resolve(serverDistFolder, '../browser');
+
+const app = express();
+const angularApp = new AngularNodeAppEngine();
+const headlessLayout = new HeadlessLayout();
+
+/**
+ * Lays out the graph posted as JSON and responds with the laid-out JSON or an SVG image
+ * Query parameters: format (json, svg), repair, algorithm, direction.
+ * Failed requests are answered as getHeadlessLayoutErrorResponse tells.
+ */
+app.post(
+  '/layout',
+  express.json({ limit: HEADLESS_LAYOUT_BODY_LIMIT }),
+  (req, res, next) => {
+    Promise.resolve()
+      .then(() =>
+        headlessLayout.layout(
+          req.body,
+          parseHeadlessLayoutRequest(req.query as Record<string, string>)
+        )
+      )
+      .then(({ contentType, body, diagnostics }) =>
+        res
+          .type(contentType)
+          .setHeader('X-Graph-Diagnostics', String(diagnostics.length))
+          .send(body)
+      )
+      .catch(next);
+  }
+);
+
+/**
+ * Answers failed layout requests, including the ones the body parser rejects,
+ * e.g. malformed JSON, with JSON instead of Express's HTML error page
+ */
+app.use(
+  '/layout',
+  (
+    error: unknown,
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    const response = getHeadlessLayoutErrorResponse(error);
+
+    if (response) {
+      res.status(response.status).json(response.body);
+    } else {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Serve static files from /browser
+ */
+app.use(
+  express.static(browserDistFolder, {
+    maxAge: '1y',
+    index: false,
+    redirect: false,
+  })
+);
+
+/**
+ * Handle all other requests by rendering the Angular application.
+ */
+app.use('/**', (req, res, next) => {
+  angularApp
+    .handle(req)
+    .then(response =>
+      response ? writeResponseToNodeResponse(response, res) : next()
+    )
+    .catch(next);
+});
+
+/**
+ * Run the layout CLI when started with the `layout` command, see layout-cli.ts.
+ * Otherwise start the server, listening on the port defined by the `PORT`
+ * environment variable, or defaults to 4000.
+ */
+if (isMainModule(import.meta.url)) {
+  if (process.argv[2] === 'layout') {
+    runLayoutCli(process.argv.slice(3), {
+      readFile: path => readFile(path, 'utf8'),
+      readStdin,
+      writeFile,
+      stdout: text => process.stdout.write(text),
+      stderr: text => process.stderr.write(text),
+    }).then(code => {
+      process.exitCode = code;
+    });
+  } else {
+    const port = process.env['PORT'] || 4000;
+    app.listen(port, () => {
+      console.log(`Node Express server listening on http://localhost:${port}`);
+    });
+  }
+}
+
+/**
+ * Reads all of stdin, e.g. a graph piped into the layout command
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Request handler used by the Angular CLI (for dev-server and during build) or Firebase Cloud Functions.
+ */
+export const reqHandler = createNodeRequestHandler(app);